@@ -19,7 +19,14 @@ export default function ChatList({ activeChatId, onSelectChat, onChatCreated }:
   }, []);
 
   const loadChats = async () => {
-    const allChats = await getAllChats();
+    let allChats: Chat[];
+    try {
+      allChats = await getAllChats();
+    } catch (error) {
+      // Don't mistake unreadable storage for an empty chat list
+      console.error('Error loading chats:', error);
+      return;
+    }
     setChats(allChats);
     
     // If no chats exist and no active chat, create one
@@ -1,7 +1,11 @@
 import { useState, useRef, useEffect } from 'react';
-import * as XLSX from 'xlsx';
 import { loadChatMessages, saveAllChatMessages, updateChat } from '../src/utils/indexeddb';
+import { acquireEditLock, broadcastSync, onSyncMessage } from '../src/utils/crossTab';
+import { IMPORT_FILE_ACCEPT, IMPORT_FILE_HINT, formatImportReport, isImportableFile, onImportReport, type ImportReport } from '../src/utils/fileImport';
+import { toPersistenceError } from '../src/utils/persistenceError';
+import { reportSaving, reportSaved, reportSaveFailed, clearSaveState } from '../src/utils/saveStatus';
 import { useUserApiKeys } from '../src/hooks/useUserApiKeys';
+import ImportReportSummary from './ImportReportSummary';
 
 interface ChatPanelProps {
   chatId: string;
@@ -10,13 +14,24 @@ interface ChatPanelProps {
   onChatTitleChange?: (title: string) => void;
   onSelectChat?: (chatId: string) => void;
   onDeleteChat?: (chatId: string) => void;
-  allChats?: Array<{ id: string; title: string; updatedAt: string }>;
+  allChats?: Array<{ id: string; title: string; workbookId?: string; updatedAt: string }>;
+  activeWorkbookId?: string | null;
+  workbooks?: Array<{ id: string; name: string }>;
+  isWorkbookReadOnly?: boolean;
 }
 
+type DownloadFormat = 'xlsx' | 'ods';
+
+const DOWNLOAD_FORMATS: { extension: DownloadFormat; label: string }[] = [
+  { extension: 'xlsx', label: 'Excel workbook (.xlsx)' },
+  { extension: 'ods', label: 'OpenDocument (.ods)' },
+];
+
 interface Message {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  importReport?: ImportReport; // Shown as a collapsible summary in place of the content
 }
 
 interface ToolCall {
@@ -24,7 +39,7 @@ interface ToolCall {
   arguments: Record<string, unknown>;
 }
 
-export default function ChatPanel({ chatId, chatTitle, onCreateNewChat, onChatTitleChange, onSelectChat, onDeleteChat, allChats = [] }: ChatPanelProps) {
+export default function ChatPanel({ chatId, chatTitle, onCreateNewChat, onChatTitleChange, onSelectChat, onDeleteChat, allChats = [], activeWorkbookId = null, workbooks = [], isWorkbookReadOnly = false }: ChatPanelProps) {
   // chatTitle is passed from parent but not currently used in this component
   void chatTitle;
 
@@ -107,10 +122,21 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
+  const [loadedHistoryChatId, setLoadedHistoryChatId] = useState<string | null>(null);
+  const pendingImportReportsRef = useRef<ImportReport[]>([]);
+  const [importReportRevision, setImportReportRevision] = useState(0);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isDownloadMenuOpen, setIsDownloadMenuOpen] = useState(false);
   const [selectedModel, setSelectedModel] = useState('anthropic/claude-3-haiku');
   const [isModelDropdownOpen, setIsModelDropdownOpen] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
+  const [showAllWorkbookChats, setShowAllWorkbookChats] = useState(false);
+  // The edit lock's answer for a chat; until it answers for the open chat, canEditChat is null
+  const [editLock, setEditLock] = useState<{ chatId: string; canEdit: boolean } | null>(null);
+  const canEditChat = editLock?.chatId === chatId ? editLock.canEdit : null;
+  const [historyRevision, setHistoryRevision] = useState(0); // Bumped to reload messages another tab saved
+  const [historyLoadFailed, setHistoryLoadFailed] = useState(false); // Saving now would overwrite the stored history
+  const [saveRevision, setSaveRevision] = useState(0); // Bumped to retry a failed save
   const availableModels = [
     'anthropic/claude-3-haiku',
   ];
@@ -118,6 +144,7 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
   const [mcpTools, setMcpTools] = useState<any[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const modelDropdownRef = useRef<HTMLDivElement>(null);
+  const downloadMenuRef = useRef<HTMLDivElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -138,10 +165,21 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
     return content.replace(contextPattern, '').trim();
   };
 
+  // Only show chats about the open workbook unless the user asks for all of them
+  const visibleChats = showAllWorkbookChats || !activeWorkbookId
+    ? allChats
+    : allChats.filter(chat => chat.workbookId === activeWorkbookId || chat.id === chatId);
+
+  const getWorkbookName = (workbookId?: string): string => {
+    if (!workbookId) return 'No workbook';
+    return workbooks.find(workbook => workbook.id === workbookId)?.name || 'Deleted workbook';
+  };
+
   // Load chat history from IndexedDB when chatId changes
   useEffect(() => {
     const loadHistory = async () => {
       setIsLoadingHistory(true);
+      setHistoryLoadFailed(false);
       try {
         const savedMessages = await loadChatMessages(chatId);
         if (savedMessages && savedMessages.length > 0) {
@@ -159,21 +197,52 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
           // No saved messages, just set system message
           setMessages([systemMessage]);
         }
+        clearSaveState('chat');
       } catch (error) {
         console.error('Error loading chat history:', error);
         setMessages([systemMessage]);
+        setHistoryLoadFailed(true);
+        reportSaveFailed('chat', toPersistenceError('load chat history', error), () => {
+          setHistoryRevision(revision => revision + 1);
+        });
       } finally {
         setIsLoadingHistory(false);
+        setLoadedHistoryChatId(chatId);
       }
     };
 
     loadHistory();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [chatId]); // Reload when chatId changes
+  }, [chatId, historyRevision]); // Reload when chatId changes or another tab saved this chat
+
+  // Only one tab writes a chat's messages; others show it read-only and follow its saves
+  useEffect(() => {
+    let decided = false;
+    const releaseLock = acquireEditLock(`chat_${chatId}`, (canEdit) => {
+      setEditLock({ chatId, canEdit });
+      if (decided && canEdit) {
+        // Taking over from another tab - start from what it saved last
+        setHistoryRevision(revision => revision + 1);
+      }
+      decided = true;
+    });
+    const unsubscribe = onSyncMessage((message) => {
+      if (message.type === 'chat-messages-saved' && message.chatId === chatId) {
+        setHistoryRevision(revision => revision + 1);
+      }
+    });
+
+    return () => {
+      releaseLock();
+      unsubscribe();
+    };
+  }, [chatId]);
 
   // Save messages to IndexedDB whenever they change (debounced)
   useEffect(() => {
     if (isLoadingHistory) return; // Don't save while loading
+    if (canEditChat !== true) return; // Another tab owns this chat
+    if (historyLoadFailed) return; // Would replace the history that couldn't be read
     if (messages.length === 0) return; // Don't save if no messages (except system message)
 
     // Use a longer debounce to ensure all messages from tool calls are captured
@@ -183,16 +252,52 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
         const messagesToSave = messages.filter(msg => msg.role !== 'system');
         if (messagesToSave.length > 0) {
           console.log(`💾 Saving ${messagesToSave.length} messages to IndexedDB for chat ${chatId}`);
+          reportSaving('chat');
           await saveAllChatMessages(chatId, messagesToSave);
+          broadcastSync({ type: 'chat-messages-saved', chatId });
+          reportSaved('chat');
           console.log(`✅ Successfully saved ${messagesToSave.length} messages`);
         }
       } catch (error) {
         console.error('❌ Error saving chat history:', error);
+        reportSaveFailed('chat', error, () => setSaveRevision(revision => revision + 1));
       }
     }, 2000); // Increased debounce to 2 seconds to capture all messages from recursive tool calls
 
     return () => clearTimeout(saveTimeout);
-  }, [messages, isLoadingHistory, chatId]);
+  }, [messages, isLoadingHistory, chatId, canEditChat, historyLoadFailed, saveRevision]);
+
+  // Every import is reported in the chat of the workbook it created, once that chat has loaded
+  useEffect(() => onImportReport((report) => {
+    pendingImportReportsRef.current.push(report);
+    setImportReportRevision(revision => revision + 1);
+  }), []);
+
+  const chatWorkbookId = allChats.find(chat => chat.id === chatId)?.workbookId;
+  useEffect(() => {
+    if (loadedHistoryChatId !== chatId || !chatWorkbookId) return;
+    const reports = pendingImportReportsRef.current.filter(report => report.workbookId === chatWorkbookId);
+    if (reports.length === 0) return;
+    pendingImportReportsRef.current = pendingImportReportsRef.current.filter(report => report.workbookId !== chatWorkbookId);
+    setMessages(prev => [
+      ...prev,
+      ...reports.map((report): Message => ({
+        role: 'assistant',
+        content: formatImportReport(report),
+        timestamp: new Date(),
+        importReport: report,
+      })),
+    ]);
+  }, [importReportRevision, loadedHistoryChatId, chatId, chatWorkbookId]);
+
+  // Why the input is disabled, if it is
+  const readOnlyReason = historyLoadFailed
+    ? 'This chat could not be loaded'
+    : canEditChat === false
+      ? 'This chat is open in another tab'
+      : isWorkbookReadOnly
+        ? 'This workbook is being edited in another tab'
+        : null;
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -364,6 +469,20 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
     };
   }, [isModelDropdownOpen]);
 
+  // Same for the download format menu
+  useEffect(() => {
+    if (!isDownloadMenuOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (downloadMenuRef.current && !downloadMenuRef.current.contains(event.target as Node)) {
+        setIsDownloadMenuOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isDownloadMenuOpen]);
+
   // Fetch MCP tools from Univer MCP server
   useEffect(() => {
     const fetchMcpTools = async () => {
@@ -658,293 +777,101 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Check if it's an Excel file
-    if (!file.name.match(/\.(xlsx|xls)$/i)) {
-      alert('Please upload an Excel file (.xlsx or .xls)');
+    if (!isImportableFile(file.name)) {
+      alert(IMPORT_FILE_HINT);
       return;
     }
 
     setIsUploading(true);
-    const uploadStartTime = Date.now();
-
     try {
-      // Read file as array buffer
-      const arrayBuffer = await file.arrayBuffer();
-
-      // Read workbook - make sure we're not limiting rows
-      // Note: XLSX.read() doesn't have a default row limit, but we'll be explicit
-      const workbook = XLSX.read(arrayBuffer, {
-        type: 'array',
-        cellText: false,
-        cellDates: true,
-        sheetRows: 0, // 0 means no limit - read all rows
-      });
-
-      console.log(`File "${file.name}" loaded: ${workbook.SheetNames.length} sheet(s)`, {
-        size: (arrayBuffer.byteLength / 1024 / 1024).toFixed(2) + ' MB'
-      });
-
-      // Get Univer API
+      // The spreadsheet imports every upload the same way and reports it back here when done
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const univerAPI = (window as any).univerAPI;
-      if (!univerAPI) {
+      const importWorkbookFile = (window as any).importWorkbookFile;
+      if (typeof importWorkbookFile !== 'function') {
         alert('Spreadsheet not ready. Please wait a moment and try again.');
         return;
       }
-
-      // Get active workbook
-      const activeWorkbook = univerAPI.getActiveWorkbook();
-      if (!activeWorkbook) {
-        alert('Could not access spreadsheet. Please refresh the page.');
-        return;
+      await importWorkbookFile(file);
+    } catch {
+      // Failures and cancels are shown in the spreadsheet's import overlay
+    } finally {
+      setIsUploading(false);
+      // Reset file input
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
       }
+    }
+  };
 
-      // Clear existing sheets (keep at least one)
-      const existingSheets = activeWorkbook.getSheets();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      existingSheets.forEach((sheet: any, index: number) => {
-        if (index > 0) {
-          try {
-            activeWorkbook.deleteSheet(sheet.getSheetId());
-          } catch {
-            console.warn('Could not delete sheet');
-          }
-        }
-      });
-
-      // Process each sheet in the Excel file
-      workbook.SheetNames.forEach((sheetName, sheetIndex) => {
-        const worksheet = workbook.Sheets[sheetName];
-
-        // Find the actual maximum row and column by scanning ALL cell keys
-        // This ensures we catch all data, even if !ref is incomplete
-        let maxRow = -1;
-        let maxCol = -1;
-
-        // Scan all keys in the worksheet object to find the actual maximum row/col
-        for (const key in worksheet) {
-          // Skip metadata keys that start with '!'
-          if (key.startsWith('!')) continue;
-
-          // Decode the cell address (e.g., 'A1' -> row 0, col 0)
-          const cellAddr = XLSX.utils.decode_cell(key);
-          if (cellAddr.r > maxRow) maxRow = cellAddr.r;
-          if (cellAddr.c > maxCol) maxCol = cellAddr.c;
-        }
-
-        // Also check !ref as a fallback/validation
-        const sheetRange = worksheet['!ref'];
-        if (sheetRange) {
-          const range = XLSX.utils.decode_range(sheetRange);
-          if (range.e.r > maxRow) maxRow = range.e.r;
-          if (range.e.c > maxCol) maxCol = range.e.c;
-          console.log(`Sheet "${sheetName}": !ref says ${sheetRange}, actual scan found rows up to ${maxRow + 1}, cols up to ${maxCol + 1}`);
-        } else {
-          console.log(`Sheet "${sheetName}": No !ref, scanning found rows up to ${maxRow + 1}, cols up to ${maxCol + 1}`);
-        }
-
-        if (maxRow < 0 || maxCol < 0) {
-          console.log(`Sheet "${sheetName}" appears empty, skipping`);
-          return;
-        }
-
-        console.log(`Reading ${maxRow + 1} rows and ${maxCol + 1} columns from sheet "${sheetName}"`);
-
-        // Read the sheet cell-by-cell to ensure we get ALL cells
-        // This ensures we capture all data even if there are gaps
-        const jsonData: string[][] = [];
+  const handleUploadClick = () => {
+    fileInputRef.current?.click();
+  };
 
-        // Initialize all rows up to maxRow
-        for (let row = 0; row <= maxRow; row++) {
-          jsonData[row] = [];
-          // Read all columns up to maxCol for this row
-          for (let col = 0; col <= maxCol; col++) {
-            const cellAddress = XLSX.utils.encode_cell({ r: row, c: col });
-            const cell = worksheet[cellAddress];
+  const downloadWorkbook = async (extension: DownloadFormat) => {
+    setIsDownloadMenuOpen(false);
+    if (isDownloading) return; // Prevent multiple clicks
+    console.log('Download requested:', extension);
 
-            if (cell) {
-              // Cell has data - use its value
-              if (cell.v !== undefined && cell.v !== null) {
-                jsonData[row][col] = String(cell.v);
-              } else {
-                jsonData[row][col] = '';
-              }
-            } else {
-              // Cell is empty
-              jsonData[row][col] = '';
-            }
-          }
-        }
-
-        console.log(`Loaded ${jsonData.length} rows from sheet "${sheetName}"`);
-
-        // Verify we have data beyond row 1000 if the file should have it
-        if (jsonData.length > 1000) {
-          console.log(`✅ Sheet has ${jsonData.length} rows (beyond 1000) - checking for data in rows 1000+`);
-          // Check if there's actual data beyond row 1000
-          let hasDataBeyond1000 = false;
-          for (let checkRow = 1000; checkRow < Math.min(1010, jsonData.length); checkRow++) {
-            if (jsonData[checkRow] && jsonData[checkRow].some(cell => cell && cell.trim() !== '')) {
-              hasDataBeyond1000 = true;
-              console.log(`✅ Found data in row ${checkRow + 1}`);
-              break;
-            }
-          }
-          if (!hasDataBeyond1000) {
-            console.warn(`⚠️ No data found in rows 1000-1010 - file might only have data up to row 1000`);
-          }
+    setIsDownloading(true);
+    const exportFnName = extension === 'ods' ? 'exportWorkbookToODS' : 'exportWorkbookToXLSX';
+    const filename = `workbook-${new Date().toISOString().split('T')[0]}.${extension}`;
+    try {
+      // Wait for the export function to be available (poll with timeout)
+      let exportFn = (window as any)[exportFnName];
+      const maxAttempts = 50; // Try for up to 5 seconds
+      let attempts = 0;
+
+      console.log('Checking for export function, attempt:', attempts, 'found:', !!exportFn);
+      while (!exportFn && attempts < maxAttempts) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        exportFn = (window as any)[exportFnName];
+        attempts++;
+        if (exportFn) {
+          console.log('Export function found after', attempts, 'attempts');
         }
+      }
 
-        // jsonData is already properly sized - all rows are maxCol+1 length
-        // No need to pad since we read cell-by-cell to the exact range bounds
-        const paddedData = jsonData;
-        const maxCols = maxCol + 1; // Number of columns (maxCol is 0-indexed)
-
-        if (sheetIndex === 0) {
-          // Use the first existing sheet
-          const firstSheet = activeWorkbook.getActiveSheet();
-          if (firstSheet && paddedData.length > 0 && maxCols > 0) {
-            try {
-              // Convert to 2D array of strings for setValues
-              const values2D: string[][] = paddedData.map(row =>
-                row.map(cell => cell !== undefined && cell !== null ? String(cell) : '')
-              );
-
-              console.log(`Setting ${values2D.length} rows into Univer sheet (max row index: ${values2D.length - 1})`);
-
-              // Process all files in small batches to avoid Univer issues
-              const BATCH_SIZE = 100; // Use 100 rows per batch for reliability
-              const totalRows = values2D.length;
-
-              console.log(`Processing ${totalRows} rows in batches of ${BATCH_SIZE}`);
-
-              for (let startRow = 0; startRow < totalRows; startRow += BATCH_SIZE) {
-                const endRow = Math.min(startRow + BATCH_SIZE - 1, totalRows - 1);
-                const batch = values2D.slice(startRow, endRow + 1);
-
-                // Ensure batch is properly formatted
-                const formattedBatch = batch.map(row => {
-                  const formattedRow: string[] = [];
-                  for (let i = 0; i < maxCols; i++) {
-                    formattedRow[i] = row && row[i] !== undefined && row[i] !== null ? String(row[i]) : '';
-                  }
-                  return formattedRow;
-                });
-
-                try {
-                  // getRange(row, column, numRows, numColumns) - note: numRows is the COUNT, not end index
-                  const numRows = batch.length;
-                  const numCols = maxCols;
-                  const range = firstSheet.getRange(startRow, 0, numRows, numCols);
-                  range.setValues(formattedBatch);
-                  console.log(`✅ Set rows ${startRow} to ${endRow}`);
-                } catch (batchError) {
-                  console.warn(`⚠️ Failed to set batch ${startRow}-${endRow}, skipping:`, batchError);
-                  // Skip this batch and continue
-                }
-              }
-
-              console.log(`✅ Finished processing all ${totalRows} rows`);
-            } catch (e) {
-              console.warn('Error processing file, showing partial load:', e);
-              // Continue - we may have loaded some data
-            }
-
-            // Rename the sheet
-            try {
-              firstSheet.setName(sheetName);
-            } catch (e) {
-              console.warn('Could not rename sheet:', e);
-            }
-          }
-        } else {
-          // Create new sheets for additional sheets in the Excel file
+      // Fallback: try to use univerAPI directly if available
+      if (!exportFn) {
+        console.log('Export function not found, trying fallback with univerAPI');
+        const univerAPI = (window as any).univerAPI;
+        if (univerAPI) {
           try {
-            const newSheet = activeWorkbook.insertSheet(sheetName);
-
-            if (paddedData.length > 0 && maxCols > 0) {
-              try {
-                // Convert to 2D array of strings
-                const values2D: string[][] = paddedData.map(row =>
-                  row.map(cell => cell !== undefined && cell !== null ? String(cell) : '')
-                );
-
-                // Process in batches
-                const BATCH_SIZE = 100;
-                const totalRows = values2D.length;
-
-                console.log(`Processing ${totalRows} rows in sheet "${sheetName}" in batches of ${BATCH_SIZE}`);
-                for (let startRow = 0; startRow < totalRows; startRow += BATCH_SIZE) {
-                  const endRow = Math.min(startRow + BATCH_SIZE - 1, totalRows - 1);
-                  const batch = values2D.slice(startRow, endRow + 1);
-
-                  // Ensure batch is properly formatted
-                  const formattedBatch = batch.map(row => {
-                    const formattedRow: string[] = [];
-                    for (let i = 0; i < maxCols; i++) {
-                      formattedRow[i] = row && row[i] !== undefined && row[i] !== null ? String(row[i]) : '';
-                    }
-                    return formattedRow;
-                  });
-
-                  try {
-                    const range = newSheet.getRange(startRow, 0, endRow, maxCols - 1);
-                    range.setValues(formattedBatch);
-                    console.log(`Set rows ${startRow} to ${endRow} in sheet "${sheetName}"`);
-                  } catch {
-                    console.warn(`Failed to set batch ${startRow}-${endRow} in "${sheetName}", skipping`);
-                  }
-                }
-              } catch (e) {
-                console.error(`Error processing sheet "${sheetName}":`, e);
+            const workbook = univerAPI.getActiveWorkbook();
+            if (workbook) {
+              console.log('Got workbook from univerAPI, saving snapshot...');
+              const workbookSnapshot = workbook.save();
+              if (workbookSnapshot) {
+                // Import the export functions dynamically
+                const { exportWorkbookToXLSX, exportWorkbookToODS } = await import('../src/utils/xlsxConverter');
+                console.log('Exporting workbook as', filename);
+                await (extension === 'ods' ? exportWorkbookToODS : exportWorkbookToXLSX)(workbookSnapshot, filename);
+                console.log('Export completed successfully');
+                return;
               }
             }
-          } catch (e) {
-            console.warn(`Could not create sheet "${sheetName}":`, e);
+          } catch (fallbackError) {
+            console.error('Fallback export error:', fallbackError);
+            alert(`Failed to export workbook: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}`);
+            return;
           }
         }
-      });
 
-      // Reset file input
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-
-      // Trigger save after upload
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      if (typeof window !== 'undefined' && (window as any).saveWorkbookData) {
-        setTimeout(async () => {
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          await (window as any).saveWorkbookData();
-        }, 1000);
+        alert('Export functionality is not available yet. Please wait for the spreadsheet to load.');
+        return;
       }
 
-      // Show success message with performance info
-      const uploadTime = ((Date.now() - uploadStartTime) / 1000).toFixed(2);
-      const fileSizeMB = (file.size / (1024 * 1024)).toFixed(2);
-      const message: Message = {
-        role: 'assistant',
-        content: `Successfully loaded "${file.name}" (${fileSizeMB} MB) with ${workbook.SheetNames.length} sheet(s) in ${uploadTime}s.`,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, message]);
+      console.log('Using export function, exporting...');
+      await exportFn(filename);
+      console.log('Export completed successfully');
     } catch (error) {
-      console.error('Error loading file:', error);
-      const errorMessage: Message = {
-        role: 'assistant',
-        content: `Failed to load file: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+      console.error('Error exporting workbook:', error);
+      alert(`Failed to export workbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-      setIsUploading(false);
+      setIsDownloading(false);
     }
   };
 
-  const handleUploadClick = () => {
-    fileInputRef.current?.click();
-  };
-
   // Helper function to retry API calls with exponential backoff (state-of-the-art)
   const fetchWithRetry = async (
     url: string,
@@ -1257,7 +1184,7 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
   };
 
   const sendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+    if (!input.trim() || isLoading || readOnlyReason) return;
 
     // Create new AbortController for this request
     const abortController = new AbortController();
@@ -1367,6 +1294,9 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
         };
         setMessages((prev) => [...prev, assistantMessage]);
 
+        // Keep a version from before the AI edits so the turn can be reviewed or undone
+        await window.saveWorkbookVersion?.('ai-turn', `Before AI: ${userMessage.content.slice(0, 60)}`);
+
         // Use recursive function for unlimited tool call depth (state-of-the-art)
         try {
           const { messages: finalMessages, finalResponse } = await handleToolCallsRecursive(
@@ -1411,15 +1341,6 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
             return [...withoutTemp, ...newMessages];
           });
 
-          // Trigger save after operations
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          if (typeof window !== 'undefined' && (window as any).saveWorkbookData) {
-            setTimeout(async () => {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              await (window as any).saveWorkbookData();
-            }, 500);
-          }
-
           // OLD CODE REMOVED - All tool call handling now done by recursive handleToolCallsRecursive function above
         } catch (error) {
           console.error('Error in tool call execution:', error);
@@ -1462,11 +1383,12 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
       {/* Top Bar - Cursor style with browser tabs */}
       <div className="border-b border-[#E0E0E0] bg-white relative">
         {/* Tabs container */}
-        <div className="flex items-end overflow-x-auto scrollbar-hide" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
+        <div className="flex items-end overflow-x-auto scrollbar-hide pr-40" style={{ scrollbarWidth: 'none', msOverflowStyle: 'none' }}>
           <div className="flex items-end min-w-full">
-            {allChats.map((chat) => (
+            {visibleChats.map((chat) => (
               <div
                 key={chat.id}
+                title={showAllWorkbookChats ? `${chat.title || 'New Chat'} — ${getWorkbookName(chat.workbookId)}` : undefined}
                 className={`group relative flex items-center border-b-2 ${chat.id === chatId
                   ? 'text-[#0066CC] border-[#0066CC] bg-white'
                   : 'text-[#666666] border-transparent hover:text-[#333333] hover:border-[#D0D0D0]'
@@ -1518,7 +1440,17 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
         </div>
 
         {/* Action buttons */}
-        <div className="absolute top-0 right-0 px-3 py-2.5">
+        <div className="absolute top-0 right-0 px-3 py-2.5 flex items-center gap-2 bg-white">
+          <button
+            onClick={() => setShowAllWorkbookChats(!showAllWorkbookChats)}
+            className={`text-xs px-2 py-0.5 rounded border transition-colors ${showAllWorkbookChats
+              ? 'text-[#666666] border-[#D0D0D0] hover:text-[#333333]'
+              : 'text-[#0066CC] border-[#0066CC] bg-[#E6F2FF]'
+              }`}
+            title={showAllWorkbookChats ? 'Showing chats for all workbooks' : 'Showing chats for this workbook'}
+          >
+            {showAllWorkbookChats ? 'All workbooks' : 'This workbook'}
+          </button>
           <button
             onClick={() => setShowInfo(!showInfo)}
             className="text-[#666666] hover:text-[#0066CC] transition-colors"
@@ -1647,7 +1579,9 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
                       ? 'bg-[#0066CC] text-white'
                       : 'bg-white text-[#333333] border border-[#E0E0E0]'
                       }`}>
-                      {cleanMessageContent(message.content) ? (
+                      {message.importReport ? (
+                        <ImportReportSummary report={message.importReport} />
+                      ) : cleanMessageContent(message.content) ? (
                         <p className="text-sm leading-relaxed whitespace-pre-wrap break-words">
                           {cleanMessageContent(message.content)}
                         </p>
@@ -1696,10 +1630,10 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
                   sendMessage();
                 }
               }}
-              placeholder="Chat with your AI"
+              placeholder={readOnlyReason ? `${readOnlyReason} - view only` : 'Chat with your AI'}
               className="w-full px-3 py-2 border border-[#D0D0D0] rounded resize-none focus:outline-none focus:ring-1 focus:ring-[#0066CC] focus:border-[#0066CC] text-sm text-[#333333] placeholder-[#999999] bg-white overflow-hidden"
               style={{ minHeight: '32px', maxHeight: '120px' }}
-              disabled={isLoading}
+              disabled={isLoading || !!readOnlyReason}
             />
           </div>
 
@@ -1756,7 +1690,7 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".xlsx,.xls"
+                accept={IMPORT_FILE_ACCEPT}
                 onChange={handleFileUpload}
                 className="hidden"
               />
@@ -1766,7 +1700,7 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
                 onClick={handleUploadClick}
                 disabled={isUploading}
                 className="p-1.5 text-[#666666] hover:text-[#333333] hover:bg-[#F0F0F0] rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title={isUploading ? 'Uploading file...' : 'Upload Excel file (.xlsx, .xls)'}
+                title={isUploading ? 'Uploading file...' : 'Upload Excel, ODS or CSV file (.xlsx, .xls, .ods, .csv, .tsv)'}
               >
                 {isUploading ? (
                   <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
@@ -1780,89 +1714,56 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
                 )}
               </button>
 
-              {/* Download document button */}
-              <button
-                type="button"
-                onClick={async (e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  console.log('Download button clicked');
-
-                  if (isDownloading) return; // Prevent multiple clicks
-
-                  setIsDownloading(true);
-                  try {
-                    // Wait for the export function to be available (poll with timeout)
-                    let exportFn = (window as any).exportWorkbookToXLSX;
-                    const maxAttempts = 50; // Try for up to 5 seconds
-                    let attempts = 0;
-
-                    console.log('Checking for export function, attempt:', attempts, 'found:', !!exportFn);
-                    while (!exportFn && attempts < maxAttempts) {
-                      await new Promise(resolve => setTimeout(resolve, 100));
-                      exportFn = (window as any).exportWorkbookToXLSX;
-                      attempts++;
-                      if (exportFn) {
-                        console.log('Export function found after', attempts, 'attempts');
-                      }
-                    }
-
-                    // Fallback: try to use univerAPI directly if available
-                    if (!exportFn) {
-                      console.log('Export function not found, trying fallback with univerAPI');
-                      const univerAPI = (window as any).univerAPI;
-                      if (univerAPI) {
-                        try {
-                          const workbook = univerAPI.getActiveWorkbook();
-                          if (workbook) {
-                            console.log('Got workbook from univerAPI, saving snapshot...');
-                            const workbookSnapshot = workbook.save();
-                            if (workbookSnapshot) {
-                              // Import the export function dynamically
-                              const { exportWorkbookToXLSX } = await import('../src/utils/xlsxConverter');
-                              const filename = `workbook-${new Date().toISOString().split('T')[0]}.xlsx`;
-                              console.log('Exporting workbook as', filename);
-                              await exportWorkbookToXLSX(workbookSnapshot, filename);
-                              console.log('Export completed successfully');
-                              return;
-                            }
-                          }
-                        } catch (fallbackError) {
-                          console.error('Fallback export error:', fallbackError);
-                          alert(`Failed to export workbook: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}`);
-                          return;
-                        }
-                      }
+              {/* Download document button, with a choice of format */}
+              <div className="relative" ref={downloadMenuRef}>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    if (!isDownloading) setIsDownloadMenuOpen(open => !open);
+                  }}
+                  disabled={isDownloading}
+                  className="p-1.5 text-[#666666] hover:text-[#333333] hover:bg-[#F0F0F0] rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={isDownloading ? 'Downloading...' : 'Download as XLSX or ODS'}
+                >
+                  {isDownloading ? (
+                    <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                  ) : (
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
+                    </svg>
+                  )}
+                </button>
 
-                      alert('Export functionality is not available yet. Please wait for the spreadsheet to load.');
-                      return;
-                    }
+                {isDownloadMenuOpen && (
+                  <div className="absolute z-50 bottom-full right-0 mb-2 w-48 bg-white border border-[#D0D0D0] rounded-md shadow-lg">
+                    {DOWNLOAD_FORMATS.map((format) => (
+                      <button
+                        key={format.extension}
+                        onClick={() => downloadWorkbook(format.extension)}
+                        className="w-full px-3 py-2 text-left text-sm text-[#333333] hover:bg-[#F5F5F5] transition-colors"
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
 
-                    console.log('Using export function, exporting...');
-                    const filename = `workbook-${new Date().toISOString().split('T')[0]}.xlsx`;
-                    await exportFn(filename);
-                    console.log('Export completed successfully');
-                  } catch (error) {
-                    console.error('Error exporting workbook:', error);
-                    alert(`Failed to export workbook: ${error instanceof Error ? error.message : 'Unknown error'}`);
-                  } finally {
-                    setIsDownloading(false);
-                  }
-                }}
-                disabled={isDownloading}
-                className="p-1.5 text-[#666666] hover:text-[#333333] hover:bg-[#F0F0F0] rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                title={isDownloading ? 'Downloading...' : 'Download as XLSX'}
+              {/* Export sheet or selection button */}
+              <button
+                type="button"
+                onClick={() => window.openExportDialog?.()}
+                className="p-1.5 text-[#666666] hover:text-[#333333] hover:bg-[#F0F0F0] rounded transition-colors"
+                title="Export sheet or selection as CSV, JSON, Markdown or HTML"
               >
-                {isDownloading ? (
-                  <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                  </svg>
-                ) : (
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
-                    <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M9 19l3 3m0 0l3-3m-3 3V10" />
-                  </svg>
-                )}
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                </svg>
               </button>
 
               {/* Send/Stop button */}
@@ -1879,7 +1780,7 @@ Example of calculation response: "The total revenue of all rows is $542,893."`,
               ) : (
                 <button
                   onClick={sendMessage}
-                  disabled={!input.trim()}
+                  disabled={!input.trim() || !!readOnlyReason}
                   className="p-1.5 text-[#0066CC] hover:text-[#0052A3] disabled:text-[#CCCCCC] disabled:cursor-not-allowed transition-colors rounded hover:bg-[#F0F7FF] disabled:hover:bg-transparent"
                   title="Send message"
                 >
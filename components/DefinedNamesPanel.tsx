@@ -0,0 +1,248 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { FWorkbook } from '@univerjs/sheets/facade';
+
+// The facade entry doesn't export FDefinedName itself
+type FDefinedName = ReturnType<FWorkbook['getDefinedNames']>[number];
+
+interface DefinedNamesPanelProps {
+  workbookId: string | null;
+  onClose: () => void;
+}
+
+interface DefinedNameEntry {
+  name: string;
+  ref: string;
+  scope: string | null; // Sheet name, or null for the whole workbook
+  comment?: string;
+  definedName: FDefinedName; // For deleting the exact name when several scopes share it
+}
+
+// Excel's rules for names: a letter, underscore or backslash first, and nothing that reads as a cell reference
+const NAME_PATTERN = /^[A-Za-z_\\][A-Za-z0-9_.\\]*$/;
+const CELL_REFERENCE_PATTERN = /^([A-Za-z]{1,3}\d+|[Rr]\d*[Cc]\d*|[RrCc])$/;
+
+// Matches "Sheet1!$A$1:$B$2" and "'My Sheet'!A1"; anything else is a named formula or constant
+const REFERENCE_PATTERN = /^=?(?:'((?:[^']|'')+)'|([^'!]+))!(\$?[A-Za-z]+\$?\d+(?::\$?[A-Za-z]+\$?\d+)?)$/;
+
+function quoteSheetName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function absoluteReference(a1: string): string {
+  return a1.split(':').map(cell => cell.replace(/^([A-Za-z]+)(\d+)$/, '$$$1$$$2')).join(':');
+}
+
+function readDefinedNames(): DefinedNameEntry[] {
+  const workbook = window.univerAPI?.getActiveWorkbook();
+  if (!workbook) return [];
+
+  try {
+    return workbook.getDefinedNames()
+      .map((definedName) => ({
+        name: definedName.getName(),
+        ref: definedName.getFormulaOrRefString().replace(/^=/, ''),
+        scope: definedName.isWorkbookScope()
+          ? null
+          : workbook.getSheetBySheetId(definedName.getLocalSheetId() ?? '')?.getSheetName() ?? null,
+        comment: definedName.getComment() || undefined,
+        definedName,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (err) {
+    console.error('Error reading defined names:', err);
+    return [];
+  }
+}
+
+export default function DefinedNamesPanel({ workbookId, onClose }: DefinedNamesPanelProps) {
+  const [names, setNames] = useState<DefinedNameEntry[]>(readDefinedNames);
+  const [newName, setNewName] = useState('');
+  const [newScope, setNewScope] = useState<'workbook' | 'sheet'>('workbook');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => setNames(readDefinedNames()), []);
+
+  // Another workbook was opened: list its names instead
+  const [shownWorkbookId, setShownWorkbookId] = useState(workbookId);
+  if (shownWorkbookId !== workbookId) {
+    setShownWorkbookId(workbookId);
+    setNames(readDefinedNames());
+  }
+
+  // Follow names added, renamed or removed anywhere: here, in the formula bar, or by the AI
+  useEffect(() => {
+    const univerAPI = window.univerAPI;
+    if (!univerAPI) return;
+
+    const commandListener = univerAPI.onCommandExecuted((command) => {
+      if (command.id.includes('defined-name') || command.id.includes('worksheet-name')) {
+        refresh();
+      }
+    });
+    // A workbook's names load with it, after it's created
+    const workbookListener = univerAPI.addEvent(univerAPI.Event.WorkbookCreated, () => setTimeout(refresh, 0));
+    return () => {
+      commandListener?.dispose();
+      workbookListener?.dispose();
+    };
+  }, [refresh]);
+
+  const handleSelect = (entry: DefinedNameEntry) => {
+    const match = entry.ref.match(REFERENCE_PATTERN);
+    if (!match) return;
+    const sheetName = match[1]?.replace(/''/g, "'") ?? match[2];
+    const workbook = window.univerAPI?.getActiveWorkbook();
+    const sheet = workbook?.getSheetByName(sheetName);
+    if (!workbook || !sheet) return;
+    try {
+      workbook.setActiveSheet(sheet);
+      sheet.getRange(match[3].replace(/\$/g, '')).activate();
+    } catch (err) {
+      console.error('Error selecting defined name:', err);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const name = newName.trim();
+    if (!NAME_PATTERN.test(name) || CELL_REFERENCE_PATTERN.test(name)) {
+      setError('Names start with a letter or underscore, have no spaces and can\'t look like a cell reference.');
+      return;
+    }
+
+    const workbook = window.univerAPI?.getActiveWorkbook();
+    const sheet = workbook?.getActiveSheet();
+    const range = sheet?.getActiveRange();
+    if (!workbook || !sheet || !range) {
+      setError('Select the cells to name first.');
+      return;
+    }
+    const scope = newScope === 'sheet' ? sheet.getSheetName() : null;
+    if (names.some(entry => entry.name.toLowerCase() === name.toLowerCase() && entry.scope === scope)) {
+      setError(`"${name}" is already defined${scope ? ` on ${scope}` : ''}.`);
+      return;
+    }
+
+    const ref = `${quoteSheetName(sheet.getSheetName())}!${absoluteReference(range.getA1Notation())}`;
+    try {
+      if (newScope === 'sheet') {
+        sheet.insertDefinedName(name, ref);
+      } else {
+        workbook.insertDefinedName(name, ref);
+      }
+      setNewName('');
+      refresh();
+    } catch (err) {
+      console.error('Error adding defined name:', err);
+      setError('Could not add this name.');
+    }
+  };
+
+  const handleDelete = (entry: DefinedNameEntry, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!window.confirm(`Delete the name "${entry.name}"? Formulas that use it will show #NAME?.`)) return;
+    try {
+      entry.definedName.delete();
+      refresh();
+    } catch (err) {
+      console.error('Error deleting defined name:', err);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-700">Named Ranges</h2>
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded hover:bg-gray-200 transition-colors"
+          title="Close"
+        >
+          <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* New name from the current selection */}
+      <form onSubmit={handleAdd} className="px-3 py-2 border-b border-gray-200 space-y-1">
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Name the selected cells"
+            className="flex-1 min-w-0 text-xs border border-gray-200 rounded px-2 py-1"
+          />
+          <select
+            value={newScope}
+            onChange={(e) => setNewScope(e.target.value as 'workbook' | 'sheet')}
+            className="text-xs border border-gray-200 rounded px-1 py-1 bg-white"
+            title="Where the name can be used"
+          >
+            <option value="workbook">Workbook</option>
+            <option value="sheet">This sheet</option>
+          </select>
+          <button
+            type="submit"
+            disabled={!workbookId || !newName.trim()}
+            className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </form>
+
+      {/* Name list */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {names.length === 0 ? (
+          <div className="p-4 text-center text-sm text-gray-500">
+            No named ranges yet. Names from imported Excel files show up here, and can be used in formulas like =SUM(Sales_2024).
+          </div>
+        ) : (
+          names.map((entry) => {
+            const isReference = REFERENCE_PATTERN.test(entry.ref);
+            return (
+              <div
+                key={`${entry.scope ?? ''}!${entry.name}`}
+                onClick={() => handleSelect(entry)}
+                className={`mx-1 px-3 py-2 rounded group transition-colors text-gray-700 hover:bg-gray-100 ${
+                  isReference ? 'cursor-pointer' : ''
+                }`}
+                title={entry.comment || (isReference ? 'Select these cells' : undefined)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium truncate">{entry.name}</span>
+                      <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${
+                        entry.scope ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {entry.scope ?? 'Workbook'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 font-mono truncate" title={entry.ref}>
+                      {entry.ref}
+                    </div>
+                  </div>
+                  <button
+                    onClick={(e) => handleDelete(entry, e)}
+                    className="p-1 hover:bg-red-100 rounded text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Delete name"
+                  >
+                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
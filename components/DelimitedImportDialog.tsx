@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'react';
+import {
+  analyzeDelimitedFile,
+  DELIMITERS,
+  type ColumnType,
+  type DateOrder,
+  type DelimitedFileAnalysis,
+  type DelimitedImportOptions,
+  type TextEncoding,
+} from '../src/utils/csvImport';
+
+interface DelimitedImportDialogProps {
+  file: File;
+  onImport: (options: DelimitedImportOptions) => void;
+  onCancel: () => void;
+}
+
+const ENCODINGS: { value: TextEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+];
+
+const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Boolean' },
+];
+
+function columnName(column: number): string {
+  let name = '';
+  let n = column + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+/**
+ * Shows what a CSV/TSV file will look like as a sheet, with the detected encoding, delimiter,
+ * header row and column types, each of which can be changed before importing.
+ */
+export default function DelimitedImportDialog({ file, onImport, onCancel }: DelimitedImportDialogProps) {
+  const [data, setData] = useState<ArrayBuffer | null>(null);
+  const [analysis, setAnalysis] = useState<DelimitedFileAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    file.arrayBuffer()
+      .then((buffer) => {
+        if (cancelled) return;
+        setData(buffer);
+        setAnalysis(analyzeDelimitedFile(buffer, file.name));
+      })
+      .catch((err) => {
+        console.error('Error reading delimited file:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read file');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Changing how the file is read re-detects what depends on it, such as the column types
+  const reanalyze = (overrides: Parameters<typeof analyzeDelimitedFile>[2]) => {
+    if (!data || !analysis) return;
+    const { encoding, delimiter, hasHeader, dateOrder } = analysis;
+    setAnalysis(analyzeDelimitedFile(data, file.name, { encoding, delimiter, hasHeader, dateOrder, ...overrides }));
+  };
+
+  const setColumnType = (column: number, type: ColumnType) => {
+    if (!analysis) return;
+    const columnTypes = [...analysis.columnTypes];
+    columnTypes[column] = type;
+    setAnalysis({ ...analysis, columnTypes });
+  };
+
+  const handleImport = () => {
+    if (!analysis) return;
+    const { encoding, delimiter, hasHeader, dateOrder, columnTypes } = analysis;
+    onImport({ encoding, delimiter, hasHeader, dateOrder, columnTypes });
+  };
+
+  const columnCount = analysis
+    ? Math.max(analysis.columnTypes.length, ...analysis.previewRows.map(row => row.length))
+    : 0;
+  const headerRow = analysis?.hasHeader ? analysis.previewRows[0] : null;
+  const bodyRows = analysis ? analysis.previewRows.slice(analysis.hasHeader ? 1 : 0) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onCancel}>
+      <div className="w-[48rem] max-w-[95vw] max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-700 truncate">Import {file.name}</h2>
+          <button
+            onClick={onCancel}
+            className="p-1 rounded hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {error ? (
+          <div className="m-4 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+        ) : !analysis ? (
+          <div className="p-4 text-sm text-gray-500">Reading file…</div>
+        ) : (
+          <>
+            {/* Detected settings */}
+            <div className="px-4 py-3 flex flex-wrap items-center gap-4 text-xs text-gray-700 border-b border-gray-200">
+              <label className="flex items-center gap-1">
+                Encoding
+                <select
+                  value={analysis.encoding}
+                  onChange={(e) => reanalyze({ encoding: e.target.value as TextEncoding })}
+                  className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                >
+                  {ENCODINGS.map(encoding => <option key={encoding.value} value={encoding.value}>{encoding.label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Delimiter
+                <select
+                  value={analysis.delimiter}
+                  onChange={(e) => reanalyze({ delimiter: e.target.value, hasHeader: undefined })}
+                  className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                >
+                  {DELIMITERS.map(delimiter => <option key={delimiter.value} value={delimiter.value}>{delimiter.label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Dates
+                <select
+                  value={analysis.dateOrder}
+                  onChange={(e) => reanalyze({ dateOrder: e.target.value as DateOrder })}
+                  className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                >
+                  <option value="mdy">Month/Day/Year</option>
+                  <option value="dmy">Day/Month/Year</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={analysis.hasHeader}
+                  onChange={(e) => reanalyze({ hasHeader: e.target.checked })}
+                />
+                First row is a header
+              </label>
+              <span className="ml-auto text-gray-400">{analysis.rowCount.toLocaleString()} rows</span>
+            </div>
+
+            {/* Preview with a type per column */}
+            <div className="flex-1 min-h-0 overflow-auto">
+              <table className="text-xs border-collapse">
+                <thead className="sticky top-0 bg-gray-50">
+                  <tr>
+                    {Array.from({ length: columnCount }, (_, column) => (
+                      <th key={column} className="px-2 py-1 border-b border-r border-gray-200 text-left font-normal">
+                        <div className="text-gray-400">{columnName(column)}</div>
+                        <select
+                          value={analysis.columnTypes[column] ?? 'text'}
+                          onChange={(e) => setColumnType(column, e.target.value as ColumnType)}
+                          className="mt-0.5 border border-gray-200 rounded px-1 py-0.5 bg-white"
+                        >
+                          {COLUMN_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                        </select>
+                        {headerRow && (
+                          <div className="mt-1 font-semibold text-gray-800 truncate max-w-[10rem]" title={headerRow[column]}>
+                            {headerRow[column]}
+                          </div>
+                        )}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {bodyRows.map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      {Array.from({ length: columnCount }, (_, column) => (
+                        <td
+                          key={column}
+                          className={`px-2 py-0.5 border-b border-r border-gray-100 whitespace-nowrap truncate max-w-[12rem] ${
+                            analysis.columnTypes[column] === 'number' ? 'text-right' : ''
+                          }`}
+                          title={row[column]}
+                        >
+                          {row[column] ?? ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!analysis}
+            className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
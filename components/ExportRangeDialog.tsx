@@ -0,0 +1,237 @@
+import { useState, useMemo } from 'react';
+import { DELIMITERS } from '../src/utils/csvImport';
+import {
+  DEFAULT_RANGE_EXPORT_OPTIONS,
+  downloadExportTable,
+  formatExportTable,
+  trimExportTable,
+  type ExportTable,
+  type QuoteStyle,
+  type RangeExportFormat,
+  type RangeExportOptions,
+} from '../src/utils/rangeExport';
+
+interface ExportRangeDialogProps {
+  onClose: () => void;
+}
+
+type ExportScope = 'sheet' | 'selection';
+
+const FORMATS: { value: RangeExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV / TSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'markdown', label: 'Markdown table' },
+  { value: 'html', label: 'HTML table' },
+];
+
+const QUOTE_STYLES: { value: QuoteStyle; label: string }[] = [
+  { value: 'minimal', label: 'Only when needed' },
+  { value: 'all', label: 'Every field' },
+  { value: 'non-numeric', label: 'Everything but numbers' },
+  { value: 'none', label: 'Never' },
+];
+
+// Only this many rows are formatted for the preview; copying and downloading use them all
+const PREVIEW_ROWS = 50;
+
+function readExportTable(scope: ExportScope): { table: ExportTable; label: string; reference: string } | null {
+  const workbook = window.univerAPI?.getActiveWorkbook();
+  const sheet = workbook?.getActiveSheet();
+  if (!sheet) return null;
+
+  const range = scope === 'selection' ? sheet.getActiveRange() : sheet.getDataRange();
+  if (!range) return null;
+
+  const reference = range.getA1Notation();
+  const table = trimExportTable({ values: range.getValues(), displayValues: range.getDisplayValues() });
+  const sheetName = sheet.getSheetName();
+  return { table, label: scope === 'selection' ? `${sheetName} ${reference.replace(':', '-')}` : sheetName, reference };
+}
+
+/**
+ * Copies or downloads the active sheet or the current selection as CSV/TSV, JSON rows keyed by
+ * the header, or a Markdown or HTML table, for pasting excerpts into tickets and scripts.
+ */
+export default function ExportRangeDialog({ onClose }: ExportRangeDialogProps) {
+  const [scope, setScope] = useState<ExportScope>(() => {
+    // Start from the selection when more than one cell is selected
+    const range = window.univerAPI?.getActiveWorkbook()?.getActiveSheet()?.getActiveRange();
+    return range && (range.getWidth() > 1 || range.getHeight() > 1) ? 'selection' : 'sheet';
+  });
+  const [options, setOptions] = useState<RangeExportOptions>(DEFAULT_RANGE_EXPORT_OPTIONS);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const source = useMemo(() => {
+    try {
+      return readExportTable(scope);
+    } catch (err) {
+      console.error('Error reading cells to export:', err);
+      return null;
+    }
+  }, [scope]);
+
+  const preview = useMemo(() => {
+    if (!source) return '';
+    const table = {
+      values: source.table.values.slice(0, PREVIEW_ROWS),
+      displayValues: source.table.displayValues.slice(0, PREVIEW_ROWS),
+    };
+    return formatExportTable(table, options);
+  }, [source, options]);
+
+  const updateOptions = (changes: Partial<RangeExportOptions>) => {
+    setOptions(current => ({ ...current, ...changes }));
+    setCopied(false);
+  };
+
+  const handleCopy = async () => {
+    if (!source) return;
+    try {
+      await navigator.clipboard.writeText(formatExportTable(source.table, options));
+      setCopied(true);
+      setError(null);
+    } catch (err) {
+      console.error('Error copying export:', err);
+      setError('Could not copy to the clipboard; download the file instead');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!source) return;
+    try {
+      downloadExportTable(source.table, options, source.label);
+    } catch (err) {
+      console.error('Error downloading export:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export');
+    }
+  };
+
+  const rowCount = source?.table.values.length ?? 0;
+  const columnCount = source?.table.values[0]?.length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div className="w-[40rem] max-w-[95vw] max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-700">Export cells</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 py-3 flex flex-wrap items-center gap-4 text-xs text-gray-700 border-b border-gray-200">
+          <label className="flex items-center gap-1">
+            Cells
+            <select
+              value={scope}
+              onChange={(e) => {
+                setScope(e.target.value as ExportScope);
+                setCopied(false);
+              }}
+              className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+            >
+              <option value="sheet">Active sheet</option>
+              <option value="selection">Selection</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Format
+            <select
+              value={options.format}
+              onChange={(e) => updateOptions({ format: e.target.value as RangeExportFormat })}
+              className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+            >
+              {FORMATS.map(format => <option key={format.value} value={format.value}>{format.label}</option>)}
+            </select>
+          </label>
+          {options.format === 'csv' && (
+            <>
+              <label className="flex items-center gap-1">
+                Delimiter
+                <select
+                  value={options.delimiter}
+                  onChange={(e) => updateOptions({ delimiter: e.target.value })}
+                  className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                >
+                  {DELIMITERS.map(delimiter => <option key={delimiter.value} value={delimiter.value}>{delimiter.label}</option>)}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                Quotes
+                <select
+                  value={options.quoteStyle}
+                  onChange={(e) => updateOptions({ quoteStyle: e.target.value as QuoteStyle })}
+                  className="border border-gray-200 rounded px-1 py-0.5 bg-white"
+                >
+                  {QUOTE_STYLES.map(style => <option key={style.value} value={style.value}>{style.label}</option>)}
+                </select>
+              </label>
+            </>
+          )}
+          {options.format !== 'csv' && (
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options.hasHeader}
+                onChange={(e) => updateOptions({ hasHeader: e.target.checked })}
+              />
+              First row is a header
+            </label>
+          )}
+          <label className="flex items-center gap-1 cursor-pointer" title="Export numbers and dates as they're shown, rather than the stored values">
+            <input
+              type="checkbox"
+              checked={options.useDisplayValues}
+              onChange={(e) => updateOptions({ useDisplayValues: e.target.checked })}
+            />
+            Formatted values
+          </label>
+        </div>
+
+        {!source ? (
+          <div className="p-4 text-sm text-gray-500">Open a workbook to export its cells.</div>
+        ) : (
+          <>
+            <div className="px-4 pt-2 text-xs text-gray-400">
+              {source.reference} · {rowCount.toLocaleString()} rows × {columnCount.toLocaleString()} columns
+              {rowCount > PREVIEW_ROWS && ` · previewing the first ${PREVIEW_ROWS}`}
+            </div>
+            <textarea
+              readOnly
+              value={preview}
+              className="m-4 mt-2 flex-1 min-h-[12rem] p-2 text-xs font-mono text-gray-800 border border-gray-200 rounded resize-none whitespace-pre"
+            />
+          </>
+        )}
+
+        {error && (
+          <div className="mx-4 mb-2 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={handleCopy}
+            disabled={!source || rowCount === 0}
+            className="px-3 py-1.5 text-sm text-gray-700 rounded border border-gray-200 hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            {copied ? 'Copied' : 'Copy'}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={!source || rowCount === 0}
+            className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { XLSXImportProgress } from '../src/utils/xlsxConverter';
+
+interface ImportProgressOverlayProps {
+  fileName: string;
+  progress: XLSXImportProgress;
+  error?: string; // Set once the import has failed
+  onCancel: () => void;
+  onClose: () => void;
+}
+
+// Share of the bar for reading and parsing the file; converting the sheets fills the rest
+const READ_SHARE = 5;
+const PARSE_SHARE = 25;
+
+function progressPercent(progress: XLSXImportProgress): number {
+  if (progress.stage === 'reading') return 0;
+  if (progress.stage === 'parsing') return READ_SHARE;
+  if (progress.sheetCount === 0) return 100;
+  const sheetShare = progress.rowCount > 0 ? Math.min(1, progress.rowsDone / progress.rowCount) : 0;
+  const converted = (progress.sheetsDone + sheetShare) / progress.sheetCount;
+  return READ_SHARE + PARSE_SHARE + Math.min(1, converted) * (100 - READ_SHARE - PARSE_SHARE);
+}
+
+function describeProgress(progress: XLSXImportProgress): string {
+  if (progress.stage === 'reading') return 'Reading file…';
+  if (progress.stage === 'parsing') return 'Parsing workbook…';
+  if (progress.sheetsDone >= progress.sheetCount) return 'Finishing…';
+  const rows = progress.rowCount > 0
+    ? ` · ${progress.rowsDone.toLocaleString()} of ${progress.rowCount.toLocaleString()} rows`
+    : '';
+  return `Sheet ${progress.sheetsDone + 1} of ${progress.sheetCount}: ${progress.sheetName ?? ''}${rows}`;
+}
+
+/**
+ * Covers the grid while a file is imported, with how far it has got and a way to stop it.
+ * Every import path shares it, and it stays up with the reason when an import fails.
+ */
+export default function ImportProgressOverlay({ fileName, progress, error, onCancel, onClose }: ImportProgressOverlayProps) {
+  if (error) {
+    return (
+      <div className="absolute inset-0 z-50 flex items-center justify-center bg-white/70">
+        <div className="w-80 p-4 bg-white rounded-lg shadow-lg border border-red-200">
+          <div className="text-sm font-medium text-gray-800 truncate" title={fileName}>
+            Could not import {fileName}
+          </div>
+          <div className="mt-1 text-xs text-red-600 break-words">{error}</div>
+          <div className="mt-3 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-2 py-1 text-xs text-gray-700 rounded border border-gray-200 hover:bg-gray-100 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-white/70">
+      <div className="w-80 p-4 bg-white rounded-lg shadow-lg border border-gray-200">
+        <div className="text-sm font-medium text-gray-800 truncate" title={fileName}>
+          Importing {fileName}
+        </div>
+        <div className="mt-1 text-xs text-gray-500 truncate">{describeProgress(progress)}</div>
+        <div className="mt-2 h-1.5 bg-gray-100 rounded overflow-hidden">
+          <div
+            className="h-full bg-blue-600 transition-all"
+            style={{ width: `${progressPercent(progress)}%` }}
+          />
+        </div>
+        <div className="mt-3 flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-2 py-1 text-xs text-gray-700 rounded border border-gray-200 hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
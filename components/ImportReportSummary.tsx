@@ -0,0 +1,70 @@
+import { formatImportHeadline, formatSheetSummary, type ImportReport } from '../src/utils/fileImport';
+
+interface ImportReportSummaryProps {
+  report: ImportReport;
+}
+
+/**
+ * An import's report in the chat: what came across, sheet by sheet, and what didn't. The
+ * details fold away; they start open when something couldn't be imported.
+ */
+export default function ImportReportSummary({ report }: ImportReportSummaryProps) {
+  const issues = report.issues ?? [];
+
+  return (
+    <div className="text-sm leading-relaxed break-words">
+      <p>{formatImportHeadline(report)}</p>
+      {issues.length > 0 && (
+        <p className="mt-1 text-[#B45309]">
+          {issues.length === 1 ? '1 thing' : `${issues.length} things`} in the file couldn&apos;t be imported.
+        </p>
+      )}
+
+      <details className="mt-2" open={issues.length > 0}>
+        <summary className="cursor-pointer select-none text-xs text-[#0066CC] hover:underline">
+          Import details
+        </summary>
+
+        <div className="mt-2 space-y-3 text-xs">
+          <div>
+            <div className="font-semibold text-[#333333] mb-1">Imported</div>
+            <ul className="space-y-0.5">
+              {report.sheets.map((sheet, index) => (
+                <li key={index} className="flex gap-1">
+                  <span className="text-[#2E7D32]">✓</span>
+                  <span>
+                    <span className="font-medium">{sheet.name}</span>
+                    <span className="text-[#666666]">: {formatSheetSummary(sheet)}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {issues.length > 0 && (
+            <div>
+              <div className="font-semibold text-[#333333] mb-1">Not imported</div>
+              <ul className="space-y-1">
+                {issues.map((issue, index) => (
+                  <li key={index} className="flex gap-1">
+                    <span className="text-[#B45309]">!</span>
+                    <div className="min-w-0">
+                      <div>{issue.summary}</div>
+                      {issue.details && (
+                        <ul className="mt-0.5 ml-3 list-disc text-[#666666]">
+                          {issue.details.map((detail, detailIndex) => (
+                            <li key={detailIndex} className="break-words">{detail}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from 'react';
+import type { FWorksheet } from '@univerjs/sheets/facade';
+import {
+  DEFAULT_PAGE_SETUP,
+  PAPER_SIZES,
+  readPageSetup,
+  withPageSetup,
+  type PageMargins,
+  type PageSetup,
+  type PaperSize,
+} from '../src/utils/pageSetup';
+
+interface PageSetupDialogProps {
+  readOnly: boolean; // Another tab is editing the workbook, so the setup can't be saved with it
+  onSaved: () => void; // The setup was written to the sheet and needs storing with the workbook
+  onClose: () => void;
+}
+
+const RANGE_PATTERN = /^\$?[A-Za-z]{1,3}\$?\d+(:\$?[A-Za-z]{1,3}\$?\d+)?$/;
+
+const MARGIN_FIELDS: { key: keyof PageMargins; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+  { key: 'right', label: 'Right' },
+];
+
+function getActiveSheet(): FWorksheet | null {
+  return window.univerAPI?.getActiveWorkbook()?.getActiveSheet() ?? null;
+}
+
+/**
+ * Page setup for printing the active sheet or saving it as a PDF. The setup is kept with the
+ * sheet, so the next print starts from it.
+ */
+export default function PageSetupDialog({ readOnly, onSaved, onClose }: PageSetupDialogProps) {
+  const [setup, setSetup] = useState<PageSetup>(() => {
+    try {
+      return readPageSetup(getActiveSheet()?.getCustomMetadata());
+    } catch {
+      return DEFAULT_PAGE_SETUP;
+    }
+  });
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+
+  const update = (changes: Partial<PageSetup>) => {
+    setSetup(current => ({ ...current, ...changes }));
+    setError(null);
+  };
+
+  const fillFromSelection = () => {
+    const range = getActiveSheet()?.getActiveRange();
+    if (range) update({ printArea: range.getA1Notation() });
+  };
+
+  const render = async (mode: 'download' | 'print') => {
+    const workbook = window.univerAPI?.getActiveWorkbook();
+    const sheet = workbook?.getActiveSheet();
+    if (!workbook || !sheet) {
+      setError('Open a workbook to print it');
+      return;
+    }
+    const printArea = setup.printArea.trim();
+    if (printArea && !RANGE_PATTERN.test(printArea)) {
+      setError('Print area should be a range such as A1:H40');
+      return;
+    }
+
+    setIsRendering(true);
+    try {
+      // Custom metadata is set on the model directly, with no mutation to log, so the
+      // workbook is saved to keep it
+      if (!readOnly) {
+        sheet.setCustomMetadata(withPageSetup(sheet.getCustomMetadata(), { ...setup, printArea }));
+        onSaved();
+      }
+
+      const range = printArea ? sheet.getRange(printArea.replace(/\$/g, '').toUpperCase()) : sheet.getDataRange();
+      const snapshot = workbook.save();
+      const sheetName = sheet.getSheetName();
+      const source = {
+        sheet: snapshot.sheets[sheet.getSheetId()] ?? {},
+        styles: snapshot.styles,
+        range: range.getRange(),
+        displayValues: range.getDisplayValues(),
+      };
+
+      const { downloadSheetPDF, printSheetPDF } = await import('../src/utils/pdfExport');
+      if (mode === 'print') {
+        printSheetPDF(source, setup, sheetName);
+      } else {
+        downloadSheetPDF(source, setup, sheetName, `${sheetName.replace(/[\\/:*?"<>|]+/g, '_') || 'sheet'}.pdf`);
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error rendering PDF:', err);
+      setError(err instanceof Error ? err.message : 'Failed to render the PDF');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div className="w-[28rem] max-w-[95vw] max-h-[90vh] flex flex-col bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-700">Page setup</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4 text-xs text-gray-700">
+          {/* Paper */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              Orientation
+              <select
+                value={setup.orientation}
+                onChange={(e) => update({ orientation: e.target.value as PageSetup['orientation'] })}
+                className="border border-gray-200 rounded px-1 py-1 bg-white"
+              >
+                <option value="portrait">Portrait</option>
+                <option value="landscape">Landscape</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              Paper size
+              <select
+                value={setup.paperSize}
+                onChange={(e) => update({ paperSize: e.target.value as PaperSize })}
+                className="border border-gray-200 rounded px-1 py-1 bg-white"
+              >
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                  <option key={size} value={size}>{PAPER_SIZES[size].label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Margins */}
+          <div>
+            <div className="mb-1">Margins (inches)</div>
+            <div className="grid grid-cols-4 gap-2">
+              {MARGIN_FIELDS.map(field => (
+                <label key={field.key} className="flex flex-col gap-1 text-gray-500">
+                  {field.label}
+                  <input
+                    type="number"
+                    min={0}
+                    max={3}
+                    step={0.05}
+                    value={setup.margins[field.key]}
+                    onChange={(e) => update({ margins: { ...setup.margins, [field.key]: Math.max(0, Number(e.target.value) || 0) } })}
+                    className="border border-gray-200 rounded px-1 py-1 text-gray-800"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* What to print */}
+          <label className="flex flex-col gap-1">
+            Print area
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={setup.printArea}
+                onChange={(e) => update({ printArea: e.target.value })}
+                placeholder="Whole sheet"
+                className="flex-1 border border-gray-200 rounded px-2 py-1 font-mono text-gray-800"
+              />
+              <button
+                type="button"
+                onClick={fillFromSelection}
+                className="px-2 py-1 rounded border border-gray-200 hover:bg-gray-100 transition-colors"
+              >
+                Use selection
+              </button>
+            </div>
+          </label>
+          <label className="flex items-center gap-2">
+            Repeat the first
+            <input
+              type="number"
+              min={0}
+              max={20}
+              value={setup.repeatHeaderRows}
+              onChange={(e) => update({ repeatHeaderRows: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+              className="w-14 border border-gray-200 rounded px-1 py-1 text-gray-800"
+            />
+            rows of the print area on every page
+          </label>
+          <div className="flex gap-6">
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={setup.fitToWidth} onChange={(e) => update({ fitToWidth: e.target.checked })} />
+              Fit all columns on one page
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={setup.showGridlines} onChange={(e) => update({ showGridlines: e.target.checked })} />
+              Print gridlines
+            </label>
+          </div>
+
+          {/* Header and footer */}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex flex-col gap-1">
+              Header
+              <input
+                type="text"
+                value={setup.header}
+                onChange={(e) => update({ header: e.target.value })}
+                className="border border-gray-200 rounded px-2 py-1 text-gray-800"
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Footer
+              <input
+                type="text"
+                value={setup.footer}
+                onChange={(e) => update({ footer: e.target.value })}
+                className="border border-gray-200 rounded px-2 py-1 text-gray-800"
+              />
+            </label>
+          </div>
+          <p className="text-gray-400">
+            Use {'{page}'}, {'{pages}'}, {'{sheet}'} and {'{date}'} in the header and footer.
+          </p>
+          {readOnly && (
+            <p className="text-amber-700">
+              This workbook is open for editing in another tab, so this setup is used for this print only.
+            </p>
+          )}
+
+          {error && (
+            <div className="p-2 text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => render('print')}
+            disabled={isRendering}
+            className="px-3 py-1.5 text-sm text-gray-700 rounded border border-gray-200 hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            Print
+          </button>
+          <button
+            onClick={() => render('download')}
+            disabled={isRendering}
+            className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isRendering ? 'Rendering…' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
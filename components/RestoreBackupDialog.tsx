@@ -0,0 +1,163 @@
+import { useState, useRef } from 'react';
+import { readBackup, restoreBackup, type Backup, type RestoreMode } from '../src/utils/backup';
+import { STORES } from '../src/utils/indexeddb';
+
+interface RestoreBackupDialogProps {
+  onClose: () => void;
+}
+
+export default function RestoreBackupDialog({ onClose }: RestoreBackupDialogProps) {
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setBackup(null);
+    setFileName(file.name);
+    setIsWorking(true);
+    try {
+      setBackup(await readBackup(file));
+    } catch (err) {
+      console.error('Error reading backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to read backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Replace all chats and workbooks in this browser with the backup? This cannot be undone.')) {
+      return;
+    }
+
+    setError(null);
+    setIsWorking(true);
+    try {
+      // Flush pending edits so they are part of what gets merged or replaced
+      await window.saveWorkbookData?.();
+      await restoreBackup(backup, mode);
+      // Everything in memory is stale now - start over from the restored data
+      window.location.reload();
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+      setIsWorking(false);
+    }
+  };
+
+  const counts = backup?.manifest.stores;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={isWorking ? undefined : onClose}>
+      <div className="w-[28rem] bg-white rounded-lg shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-gray-700">Restore from backup</h2>
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="p-1 rounded hover:bg-gray-200 transition-colors disabled:opacity-50"
+            title="Close"
+          >
+            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm text-gray-700">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isWorking}
+              className="px-3 py-1.5 border border-gray-300 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              Choose backup file…
+            </button>
+            {fileName && <span className="ml-2 text-gray-500 truncate">{fileName}</span>}
+          </div>
+
+          {backup && counts && (
+            <div className="p-3 bg-gray-50 rounded border border-gray-200 space-y-1">
+              <div>Created {new Date(backup.manifest.createdAt).toLocaleString()}</div>
+              <div className="text-gray-500">
+                {counts[STORES.WORKBOOKS] || 0} workbooks · {counts[STORES.WORKBOOK_VERSIONS] || 0} versions · {counts[STORES.CHATS] || 0} chats · {counts[STORES.CHAT_HISTORY] || 0} messages
+              </div>
+            </div>
+          )}
+
+          {backup && (
+            <div className="space-y-2">
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-medium">Merge</span>
+                  <span className="block text-xs text-gray-500">
+                    Keep what&apos;s here and add the backup. Items that changed on both sides are restored as copies marked &quot;(restored)&quot;.
+                  </span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="font-medium">Replace</span>
+                  <span className="block text-xs text-gray-500">
+                    Delete all chats and workbooks in this browser and use the backup instead.
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            disabled={isWorking}
+            className="px-3 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRestore}
+            disabled={!backup || isWorking}
+            className="px-3 py-1.5 text-sm text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isWorking && backup ? 'Restoring…' : 'Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
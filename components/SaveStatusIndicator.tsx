@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { getSaveState, onSaveStateChange, type SaveState } from '../src/utils/saveStatus';
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// Header indicator for whether edits and chats have reached IndexedDB
+export default function SaveStatusIndicator() {
+  const [state, setState] = useState<SaveState>(getSaveState);
+
+  useEffect(() => onSaveStateChange(setState), []);
+
+  if (state.status === 'idle') return null;
+
+  if (state.status === 'failed') {
+    return (
+      <div className="flex items-center gap-2 text-sm text-red-700" title={state.error?.message}>
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        <span>{state.error?.kind === 'quota' ? 'Not saved - storage full' : 'Not saved'}</span>
+        {state.retry && (
+          <button
+            onClick={state.retry}
+            className="px-2 py-0.5 text-xs rounded border border-red-300 hover:bg-red-50 transition-colors"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-1 text-sm text-gray-500">
+      {state.status === 'saving' ? (
+        <>
+          <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
+            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth={4} />
+            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+          </svg>
+          Saving…
+        </>
+      ) : (
+        <>
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          </svg>
+          {state.savedAt ? `Saved at ${formatTime(state.savedAt)}` : 'Saved'}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,39 @@
-import { useEffect, useRef } from 'react';
-import { createUniver, LocaleType, UniverInstanceType, LogLevel, defaultTheme } from '@univerjs/presets';
-import { saveWorkbookData as saveWorkbookDataToIndexedDB, loadWorkbookData as loadWorkbookDataFromIndexedDB } from '../src/utils/indexeddb';
+import { useEffect, useRef, useState } from 'react';
+import { createUniver, LocaleType, UniverInstanceType, LogLevel, defaultTheme, CommandType } from '@univerjs/presets';
+import type { IDisposable, IWorkbookData } from '@univerjs/core';
+import {
+  saveWorkbookData as saveWorkbookDataToIndexedDB,
+  loadWorkbookData as loadWorkbookDataFromIndexedDB,
+  createWorkbook as createWorkbookRecord,
+  saveWorkbookVersion as saveWorkbookVersionToIndexedDB,
+  getWorkbook,
+  getWorkbookVersion,
+  appendWorkbookMutations,
+  getWorkbookMutations,
+  type WorkbookMeta,
+  type WorkbookVersionReason,
+} from '../src/utils/indexeddb';
+import { clearDiffOverlay } from '../src/utils/diffOverlay';
+import { isLegacyWorkbookData, convertLegacyWorkbookData } from '../src/utils/migrations';
+import { PersistenceError, toPersistenceError } from '../src/utils/persistenceError';
+import { reportSaving, reportSaved, reportSaveFailed, clearSaveState } from '../src/utils/saveStatus';
+import { acquireEditLock, broadcastSync, onSyncMessage, type SyncMessage } from '../src/utils/crossTab';
 import { useUserApiKeys } from '../src/hooks/useUserApiKeys';
-import { importXLSXToWorkbookData } from '../src/utils/xlsxConverter';
+import type { XLSXImportProgress } from '../src/utils/xlsxConverter';
+import type { DelimitedImportOptions } from '../src/utils/csvImport';
+import {
+  IMPORT_FILE_ACCEPT,
+  IMPORT_FILE_HINT,
+  buildImportReport,
+  importFileToWorkbookData,
+  isDelimitedFile,
+  isImportableFile,
+  reportImport,
+} from '../src/utils/fileImport';
+import ImportProgressOverlay from './ImportProgressOverlay';
+import DelimitedImportDialog from './DelimitedImportDialog';
+import ExportRangeDialog from './ExportRangeDialog';
+import PageSetupDialog from './PageSetupDialog';
 import { UniverSheetsCorePreset } from '@univerjs/presets/preset-sheets-core';
 import UniverPresetSheetsCoreEnUS from '@univerjs/presets/preset-sheets-core/locales/en-US';
 import { UniverSheetsAdvancedPreset } from '@univerjs/presets/preset-sheets-advanced';
@@ -78,15 +109,58 @@ const merge = <T extends Record<string, any>>(target: T, ...sources: any[]): T =
   return result;
 };
 
-interface SpreadsheetProps { }
+// How often an 'interval' version is kept while the workbook is being edited
+const VERSION_INTERVAL_MS = 5 * 60 * 1000;
 
-export default function Spreadsheet({ }: SpreadsheetProps) {
+// Mutations are written to the log in one transaction this long after the last one
+const MUTATION_FLUSH_DELAY_MS = 300;
+// The log is folded into a fresh snapshot after this much idle time, or once it gets this long
+const COMPACTION_IDLE_MS = 30 * 1000;
+const COMPACTION_MAX_MUTATIONS = 500;
+
+interface SpreadsheetProps {
+  workbookId: string | null;
+  onWorkbookCreated?: (workbook: WorkbookMeta) => void;
+  onReadOnlyChange?: (readOnly: boolean) => void;
+}
+
+export default function Spreadsheet({ workbookId, onWorkbookCreated, onReadOnlyChange }: SpreadsheetProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const univerInstanceRef = useRef<{ univerAPI: any; univer: any } | null>(null);
+  const univerInstanceRef = useRef<{
+    univerAPI: any;
+    univer: any;
+    openWorkbook?: (targetWorkbookId: string) => Promise<void>;
+    mutationListener?: IDisposable;
+  } | null>(null);
   const keyDownHandlerRef = useRef<((e: KeyboardEvent) => void) | null>(null);
   const isLoadingDataRef = useRef<boolean>(true); // Track if data is still loading
+  const loadedWorkbookIdRef = useRef<string | null>(null); // Catalog id of the workbook currently in Univer
+  const isDirtyRef = useRef<boolean>(false); // Changed since the last stored snapshot
+  const isVersionDirtyRef = useRef<boolean>(false); // Changed since the last history version
+  const isReadOnlyRef = useRef<boolean>(false); // Another tab is editing this workbook
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const [importProgress, setImportProgress] = useState<{ fileName: string; progress: XLSXImportProgress; error?: string } | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showPageSetup, setShowPageSetup] = useState(false);
+  // A CSV/TSV file waiting for its settings in the import dialog
+  const [delimitedImport, setDelimitedImport] = useState<{ file: File; resolve: (options: DelimitedImportOptions | null) => void } | null>(null);
+  const delimitedResolveRef = useRef<((options: DelimitedImportOptions | null) => void) | null>(null);
+  const importAbortRef = useRef<AbortController | null>(null); // Cancels the import in progress
+  const importFileRef = useRef<((file: File) => Promise<unknown>) | null>(null);
+  const onWorkbookCreatedRef = useRef(onWorkbookCreated);
+  const onReadOnlyChangeRef = useRef(onReadOnlyChange);
   const { univerMcpKey } = useUserApiKeys();
 
+  // Keep the latest callbacks available to handlers registered once on mount
+  useEffect(() => {
+    onWorkbookCreatedRef.current = onWorkbookCreated;
+  }, [onWorkbookCreated]);
+
+  useEffect(() => {
+    onReadOnlyChangeRef.current = onReadOnlyChange;
+  }, [onReadOnlyChange]);
+
   // Register global keyboard handler early, before Univer initializes
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -284,7 +358,123 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
       ],
     });
 
-    // Function to save workbook data to IndexedDB using Univer's official save() method
+    // Mutation log state for the open workbook
+    let pendingMutations: { mutationId: string; params: Record<string, unknown> }[] = [];
+    let lastLoggedMutationId: number | null = null;
+    let loggedSinceSnapshot = 0;
+    let flushPromise: Promise<void> = Promise.resolve();
+    let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+    let compactionTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    // Cross-tab state: the edit lock for the open workbook, and mutations that must not be logged
+    // because they came from another tab or only toggle this tab's editability
+    let releaseEditLock: (() => void) | null = null;
+    let suppressMutationLog = false;
+    let queuedRemoteMutations: Extract<SyncMessage, { type: 'workbook-mutations' }>[] = [];
+
+    // Set when the stored workbook couldn't be read; the empty stand-in must never be saved over it
+    let loadFailed = false;
+
+    // Write buffered mutations to the log; batches are chained so they land in order
+    const flushMutations = () => {
+      if (flushTimeout) {
+        clearTimeout(flushTimeout);
+        flushTimeout = null;
+      }
+      const targetWorkbookId = loadedWorkbookIdRef.current;
+      const batch = pendingMutations;
+      pendingMutations = [];
+      if (!targetWorkbookId || batch.length === 0) return flushPromise;
+
+      flushPromise = flushPromise.then(async () => {
+        const lastId = await appendWorkbookMutations(targetWorkbookId, batch);
+        if (lastId !== null) {
+          lastLoggedMutationId = lastId;
+          // Keep read-only tabs showing the same workbook live
+          broadcastSync({ type: 'workbook-mutations', workbookId: targetWorkbookId, lastId, mutations: batch });
+        }
+        if (pendingMutations.length === 0) {
+          reportSaved('workbook');
+        }
+      }).catch((error) => {
+        // The workbook is still dirty, so the next snapshot picks these changes up
+        // and reports whether they made it to disk
+        console.error('❌ Error logging mutations, falling back to a snapshot:', error);
+        scheduleCompaction(0);
+      });
+      return flushPromise;
+    };
+
+    const scheduleCompaction = (delay = COMPACTION_IDLE_MS) => {
+      if (compactionTimeout) clearTimeout(compactionTimeout);
+      compactionTimeout = setTimeout(() => {
+        compactionTimeout = null;
+        saveWorkbookData().catch(console.error);
+      }, delay);
+    };
+
+    // Buffer a mutation the user (or AI) applied so it can be replayed on the next load
+    const recordMutation = (mutationId: string, params: unknown) => {
+      if (isReadOnlyRef.current || suppressMutationLog || loadFailed) return;
+      isDirtyRef.current = true;
+      isVersionDirtyRef.current = true;
+      reportSaving('workbook');
+
+      let serializedParams;
+      try {
+        serializedParams = JSON.parse(JSON.stringify(params ?? {}));
+      } catch (error) {
+        console.warn(`⚠️ Mutation ${mutationId} can't be logged, saving a snapshot instead:`, error);
+        scheduleCompaction(0);
+        return;
+      }
+
+      pendingMutations.push({ mutationId, params: serializedParams });
+      loggedSinceSnapshot++;
+
+      if (flushTimeout) clearTimeout(flushTimeout);
+      flushTimeout = setTimeout(() => {
+        flushMutations();
+      }, MUTATION_FLUSH_DELAY_MS);
+
+      if (loggedSinceSnapshot >= COMPACTION_MAX_MUTATIONS) {
+        if (!compactionTimeout) scheduleCompaction(0);
+      } else {
+        scheduleCompaction();
+      }
+    };
+
+    // Re-apply the logged mutations on top of the snapshot that was just loaded
+    const replayLoggedMutations = async (targetWorkbookId: string) => {
+      const mutations = await getWorkbookMutations(targetWorkbookId);
+      lastLoggedMutationId = mutations.length > 0 ? mutations[mutations.length - 1].id : null;
+      loggedSinceSnapshot = mutations.length;
+      if (mutations.length === 0) return;
+
+      const workbook = univerAPI.getActiveWorkbook();
+      if (!workbook) return;
+      const unitId = workbook.getId();
+
+      let applied = 0;
+      for (const mutation of mutations) {
+        try {
+          // Log entries belong to this workbook whatever unit id it was loaded under
+          const params = mutation.params?.unitId ? { ...mutation.params, unitId } : mutation.params;
+          univerAPI.syncExecuteCommand(mutation.mutationId, params, { onlyLocal: true });
+          applied++;
+        } catch (error) {
+          console.error(`❌ Could not replay mutation ${mutation.mutationId}:`, error);
+        }
+      }
+      console.log(`🔁 Replayed ${applied}/${mutations.length} logged mutations`);
+
+      // Fold the replayed log into a snapshot once the user is idle
+      isDirtyRef.current = true;
+      scheduleCompaction();
+    };
+
+    // Compact: store a full snapshot via Univer's official save() method and drop the log entries it covers.
+    // Only runs when something changed since the last snapshot.
     const saveWorkbookData = async () => {
       // Don't save while data is still loading
       if (isLoadingDataRef.current) {
@@ -297,6 +487,22 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
         return;
       }
 
+      const targetWorkbookId = loadedWorkbookIdRef.current;
+      if (!targetWorkbookId) {
+        console.log('⏸ Skipping save - no workbook selected');
+        return;
+      }
+
+      if (isReadOnlyRef.current) {
+        console.log('⏸ Skipping save - workbook is being edited in another tab');
+        return;
+      }
+
+      if (loadFailed) {
+        console.log('⏸ Skipping save - workbook failed to load');
+        return;
+      }
+
       const { univerAPI } = univerInstanceRef.current;
       const workbook = univerAPI.getActiveWorkbook();
 
@@ -305,8 +511,25 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
         return;
       }
 
+      if (!isDirtyRef.current) {
+        await flushMutations();
+        return;
+      }
+
+      if (compactionTimeout) {
+        clearTimeout(compactionTimeout);
+        compactionTimeout = null;
+      }
+
+      // Changes made while the snapshot is being written mark the workbook dirty again
+      isDirtyRef.current = false;
+      reportSaving('workbook');
       try {
+        // Snapshot and buffered batch are taken in the same tick, so the snapshot
+        // covers exactly the log entries up to that batch
         const workbookSnapshot = workbook.save();
+        await flushMutations();
+        const compactThroughId = lastLoggedMutationId ?? 0;
 
         // Ensure all sheets have at least 100,000 rows and 1,000 columns
         // This allows users to scroll to these limits. Univer's virtual scrolling handles rendering efficiently.
@@ -327,140 +550,355 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
           }
         }
 
-        console.log('💾 Saving workbook data to IndexedDB...');
-        await saveWorkbookDataToIndexedDB(workbookSnapshot);
-        console.log('✅ Workbook data saved successfully');
+        console.log('💾 Saving workbook snapshot to IndexedDB...');
+        await saveWorkbookDataToIndexedDB(targetWorkbookId, workbookSnapshot, compactThroughId);
+        loggedSinceSnapshot = 0;
+        console.log('✅ Workbook snapshot saved, mutation log compacted');
+        reportSaved('workbook');
       } catch (error) {
+        isDirtyRef.current = true;
         console.error('❌ Error saving workbook data:', error);
+        reportSaveFailed('workbook', error, () => {
+          saveWorkbookData().catch(console.error);
+        });
+      }
+    };
+
+    // Create a Univer workbook from a snapshot, padding every sheet for infinite scrolling
+    const createWorkbookFromData = (workbookData: IWorkbookData) => {
+      // Ensure all sheets have at least 100,000 rows and 1,000 columns when loading
+      const MIN_ROWS = 100000;
+      const MIN_COLS = 1000;
+      if (workbookData && workbookData.sheets) {
+        for (const sheetId in workbookData.sheets) {
+          const sheet = workbookData.sheets[sheetId];
+          if (sheet) {
+            // Set rowCount and columnCount to at least MIN_ROWS/MIN_COLS if not already set or if they're lower
+            if (!sheet.rowCount || sheet.rowCount < MIN_ROWS) {
+              sheet.rowCount = MIN_ROWS;
+            }
+            if (!sheet.columnCount || sheet.columnCount < MIN_COLS) {
+              sheet.columnCount = MIN_COLS;
+            }
+          }
+        }
+      }
+
+      // Use Univer's official createWorkbook() method to restore the complete workbook
+      const createdWorkbook = univerAPI.createWorkbook(workbookData);
+      console.log('✅ Workbook created from saved data:', createdWorkbook?.getId());
+
+      // Ensure all sheets have the correct row and column counts for infinite scrolling
+      // Use the FWorksheet API methods to set dimensions explicitly
+      const sheets = createdWorkbook.getSheets();
+      for (const sheet of sheets) {
+        try {
+          const sheetSnapshot = sheet.getSheet().getSnapshot();
+          const sheetRowCount = sheetSnapshot.rowCount || MIN_ROWS;
+          const sheetColCount = sheetSnapshot.columnCount || MIN_COLS;
+
+          // Use FWorksheet API to set dimensions (for infinite scrolling support)
+          const finalRowCount = Math.max(sheetRowCount, MIN_ROWS);
+          const finalColCount = Math.max(sheetColCount, MIN_COLS);
+
+          sheet.setRowCount(finalRowCount);
+          sheet.setColumnCount(finalColCount);
+
+          console.log(`📏 Set sheet "${sheet.getSheetName()}" dimensions: ${finalRowCount} rows, ${finalColCount} columns`);
+        } catch (sheetError) {
+          console.warn(`⚠️ Could not set dimensions for sheet:`, sheetError);
+        }
       }
+
+      return createdWorkbook;
     };
 
-    // Function to load workbook data from IndexedDB using Univer's official createWorkbook() method
-    const loadWorkbookData = async () => {
+    // Function to load workbook data from IndexedDB using Univer's official createWorkbook() method,
+    // then replay the mutations logged since that snapshot
+    const loadWorkbookData = async (targetWorkbookId: string) => {
+      let hasSnapshot = false;
+      loadFailed = false;
       try {
         if (typeof window === 'undefined') return;
 
-        const savedData = await loadWorkbookDataFromIndexedDB();
+        let savedData = await loadWorkbookDataFromIndexedDB(targetWorkbookId);
+        if (isLegacyWorkbookData(savedData)) {
+          // Migrations convert stored snapshots, but a restored backup can still carry the old format
+          console.log('🔧 Converting legacy workbook data to IWorkbookData');
+          const meta = await getWorkbook(targetWorkbookId);
+          savedData = convertLegacyWorkbookData(savedData, targetWorkbookId, meta?.name || 'My Workbook');
+          isDirtyRef.current = true;
+        }
+
         if (!savedData) {
           console.log('No saved data found, creating empty workbook');
           univer.createUnit(UniverInstanceType.UNIVER_SHEET, {});
-          // Mark loading as complete immediately since there's nothing to load
-          isLoadingDataRef.current = false;
-          return;
-        }
+        } else if (!savedData.sheets || !savedData.sheetOrder) {
+          throw new PersistenceError('corrupt', 'load workbook');
+        } else {
+          const workbookData: IWorkbookData = savedData;
+          console.log('Loading workbook data from IndexedDB:', {
+            workbookId: workbookData.id,
+            workbookName: workbookData.name,
+            sheetCount: workbookData.sheetOrder?.length || 0,
+            sheetNames: workbookData.sheetOrder || [],
+          });
 
-        // Check if savedData is in the old format (custom format) or new format (IWorkbookData)
-        // If it has sheets property and sheetOrder, it's IWorkbookData
-        // If it has sheet names as keys, it's the old format
-        let workbookData: any = savedData;
+          try {
+            createWorkbookFromData(workbookData);
+            hasSnapshot = true;
+          } catch (error) {
+            console.error('❌ Error creating workbook from saved data:', error);
+            throw new PersistenceError('corrupt', 'load workbook', error);
+          }
+        }
 
-        if (!savedData.sheets || !savedData.sheetOrder) {
-          // Old format detected - log warning but continue with empty workbook
-          console.warn('Old data format detected, creating empty workbook. Please re-save your data.');
+        if (hasSnapshot) {
+          await replayLoggedMutations(targetWorkbookId);
+        }
+        // What's shown now matches what's stored, which also clears an earlier load failure
+        clearSaveState('workbook');
+      } catch (error) {
+        console.error('Error loading workbook from IndexedDB:', error);
+        // Lock whatever could be shown (or an empty stand-in); saving it would overwrite what's stored
+        loadFailed = true;
+        if (!univerAPI.getActiveWorkbook()) {
           univer.createUnit(UniverInstanceType.UNIVER_SHEET, {});
-          isLoadingDataRef.current = false;
-          return;
         }
-
-        console.log('Loading workbook data from IndexedDB:', {
-          workbookId: workbookData.id,
-          workbookName: workbookData.name,
-          sheetCount: workbookData.sheetOrder?.length || 0,
-          sheetNames: workbookData.sheetOrder || [],
+        reportSaveFailed('workbook', toPersistenceError('load workbook', error), () => {
+          reloadWorkbook(targetWorkbookId).catch(console.error);
         });
+      } finally {
+        // Mark loading as complete even on error so we don't block saves forever
+        isLoadingDataRef.current = false;
+      }
 
-        // Ensure all sheets have at least 100,000 rows and 1,000 columns when loading
-        const MIN_ROWS = 100000;
-        const MIN_COLS = 1000;
-        if (workbookData && workbookData.sheets) {
-          for (const sheetId in workbookData.sheets) {
-            const sheet = workbookData.sheets[sheetId];
-            if (sheet) {
-              // Set rowCount and columnCount to at least MIN_ROWS/MIN_COLS if not already set or if they're lower
-              if (!(sheet as any).rowCount || (sheet as any).rowCount < MIN_ROWS) {
-                (sheet as any).rowCount = MIN_ROWS;
-              }
-              if (!(sheet as any).columnCount || (sheet as any).columnCount < MIN_COLS) {
-                (sheet as any).columnCount = MIN_COLS;
-              }
-            }
+      if (!hasSnapshot && !isReadOnlyRef.current && !loadFailed) {
+        // Logged mutations point at sheet ids, so a fresh workbook needs a snapshot to build on.
+        // It replaces any log entries that had nothing to apply to.
+        const workbook = univerAPI.getActiveWorkbook();
+        if (workbook) {
+          try {
+            await saveWorkbookDataToIndexedDB(targetWorkbookId, workbook.save());
+          } catch (error) {
+            // The next compaction writes it instead
+            console.error('❌ Error saving initial workbook snapshot:', error);
+            isDirtyRef.current = true;
           }
         }
+      }
+    };
 
-        // Use Univer's official createWorkbook() method to restore the complete workbook
-        try {
-          const createdWorkbook = univerAPI.createWorkbook(workbookData);
-          console.log('✅ Workbook created from saved data:', createdWorkbook?.getId());
-
-          // Ensure all sheets have the correct row and column counts for infinite scrolling
-          // Use the FWorksheet API methods to set dimensions explicitly
-          const MIN_ROWS = 100000;
-          const MIN_COLS = 1000;
-          const sheets = createdWorkbook.getSheets();
-          for (const sheet of sheets) {
-            try {
-              const sheetSnapshot = sheet.getSheet().getSnapshot();
-              const sheetRowCount = (sheetSnapshot as any).rowCount || MIN_ROWS;
-              const sheetColCount = (sheetSnapshot as any).columnCount || MIN_COLS;
-
-              // Use FWorksheet API to set dimensions (for infinite scrolling support)
-              const finalRowCount = Math.max(sheetRowCount, MIN_ROWS);
-              const finalColCount = Math.max(sheetColCount, MIN_COLS);
+    // Swap the workbook shown in Univer for another catalog entry
+    const openWorkbook = async (targetWorkbookId: string) => {
+      if (loadedWorkbookIdRef.current === targetWorkbookId) return;
 
-              sheet.setRowCount(finalRowCount);
-              sheet.setColumnCount(finalColCount);
+      // Persist the outgoing workbook before its unit is disposed
+      if (loadedWorkbookIdRef.current) {
+        await saveWorkbookData();
+      }
 
-              console.log(`📏 Set sheet "${sheet.getSheetName()}" dimensions: ${finalRowCount} rows, ${finalColCount} columns`);
-            } catch (sheetError) {
-              console.warn(`⚠️ Could not set dimensions for sheet:`, sheetError);
-            }
+      // Only one tab may write a workbook; the rest follow along read-only
+      releaseEditLock?.();
+      const canEdit = await new Promise<boolean>((resolve) => {
+        let decided = false;
+        releaseEditLock = acquireEditLock(`workbook_${targetWorkbookId}`, (isOwner) => {
+          if (!decided) {
+            decided = true;
+            resolve(isOwner);
+          } else if (isOwner && loadedWorkbookIdRef.current === targetWorkbookId) {
+            // The editing tab let go - reload its latest state and take over
+            console.log('✏️ Workbook is no longer open elsewhere, taking over editing');
+            setReadOnly(false);
+            reloadWorkbook(targetWorkbookId).catch(console.error);
           }
+        });
+      });
+      setReadOnly(!canEdit);
+
+      clearDiffOverlay(); // Highlights describe the outgoing workbook
+      isLoadingDataRef.current = true;
+      loadedWorkbookIdRef.current = targetWorkbookId;
+      isDirtyRef.current = false;
+      isVersionDirtyRef.current = false;
+      lastLoggedMutationId = null;
+      loggedSinceSnapshot = 0;
+
+      const currentWorkbook = univerAPI.getActiveWorkbook();
+      if (currentWorkbook) {
+        univerAPI.disposeUnit(currentWorkbook.getId());
+      }
+
+      await loadWorkbookData(targetWorkbookId);
+      finishCrossTabLoad();
+      console.log('📂 Opened workbook:', targetWorkbookId);
+    };
+
+    const setReadOnly = (readOnly: boolean) => {
+      isReadOnlyRef.current = readOnly;
+      setIsReadOnly(readOnly);
+      onReadOnlyChangeRef.current?.(readOnly);
+    };
 
-          // Mark loading as complete - safe to save now
-          isLoadingDataRef.current = false;
+    // Match Univer's editability to the edit lock, then catch up on mutations that arrived mid-load
+    const finishCrossTabLoad = () => {
+      const workbook = univerAPI.getActiveWorkbook();
+      if (workbook) {
+        suppressMutationLog = true;
+        try {
+          workbook.setEditable(!isReadOnlyRef.current && !loadFailed);
         } catch (error) {
-          console.error('❌ Error creating workbook from saved data:', error);
-          // Fallback to empty workbook
-          univer.createUnit(UniverInstanceType.UNIVER_SHEET, {});
-          // Mark loading as complete even on error so we don't block saves forever
-          isLoadingDataRef.current = false;
+          console.warn('⚠️ Could not change workbook editability:', error);
+        } finally {
+          suppressMutationLog = false;
         }
+      }
+
+      const queued = queuedRemoteMutations;
+      queuedRemoteMutations = [];
+      queued.forEach(applyRemoteMutations);
+    };
+
+    // Load the stored workbook again, e.g. after another tab replaced or finished editing it
+    const reloadWorkbook = async (targetWorkbookId: string) => {
+      clearDiffOverlay();
+      isLoadingDataRef.current = true;
+      const currentWorkbook = univerAPI.getActiveWorkbook();
+      if (currentWorkbook) {
+        univerAPI.disposeUnit(currentWorkbook.getId());
+      }
+      await loadWorkbookData(targetWorkbookId);
+      finishCrossTabLoad();
+    };
 
+    // Mirror a batch the editing tab logged, unless the log already had it when this tab loaded
+    const applyRemoteMutations = (message: Extract<SyncMessage, { type: 'workbook-mutations' }>) => {
+      if (message.workbookId !== loadedWorkbookIdRef.current) return;
+      if (lastLoggedMutationId !== null && message.lastId <= lastLoggedMutationId) return;
+
+      const workbook = univerAPI.getActiveWorkbook();
+      if (!workbook) return;
+      const unitId = workbook.getId();
+
+      suppressMutationLog = true;
+      try {
+        for (const mutation of message.mutations) {
+          const params = mutation.params?.unitId ? { ...mutation.params, unitId } : mutation.params;
+          univerAPI.syncExecuteCommand(mutation.mutationId, params, { onlyLocal: true });
+        }
+        lastLoggedMutationId = message.lastId;
       } catch (error) {
-        console.error('Error loading workbook from IndexedDB:', error);
-        // Create empty workbook as fallback
-        univer.createUnit(UniverInstanceType.UNIVER_SHEET, {});
-        // Mark loading as complete even on error so we don't block saves forever
-        isLoadingDataRef.current = false;
+        // Fall back to the stored state rather than showing a half-applied batch
+        console.error('❌ Error applying changes from another tab, reloading:', error);
+        reloadWorkbook(message.workbookId).catch(console.error);
+      } finally {
+        suppressMutationLog = false;
       }
     };
 
-    // Load saved data first
-    loadWorkbookData();
+    // Record a point-in-time snapshot of the open workbook in its version history
+    const recordWorkbookVersion = async (reason: WorkbookVersionReason, label?: string) => {
+      const targetWorkbookId = loadedWorkbookIdRef.current;
+      if (isLoadingDataRef.current || isReadOnlyRef.current || loadFailed || !targetWorkbookId) return null;
+
+      const workbook = univerAPI.getActiveWorkbook();
+      if (!workbook) return null;
+
+      try {
+        const snapshot = workbook.save();
+        isVersionDirtyRef.current = false;
+        const version = await saveWorkbookVersionToIndexedDB(targetWorkbookId, snapshot, reason, label);
+        console.log(`🕓 Recorded ${reason} version of workbook ${targetWorkbookId}`);
+        return version;
+      } catch (error) {
+        console.error('❌ Error recording workbook version:', error);
+        return null;
+      }
+    };
+
+    // Only keep an interval version when the workbook changed since the last one
+    const recordIntervalVersion = async () => {
+      if (!isVersionDirtyRef.current) return;
+      await recordWorkbookVersion('interval');
+    };
+
+    // Replace the open workbook's contents with a stored version
+    const restoreWorkbookVersion = async (versionId: number) => {
+      const targetWorkbookId = loadedWorkbookIdRef.current;
+      if (!targetWorkbookId) {
+        throw new Error('No workbook is open');
+      }
+      if (isReadOnlyRef.current) {
+        throw new Error('This workbook is being edited in another tab');
+      }
+
+      const version = await getWorkbookVersion(versionId);
+      if (!version || !version.data || version.workbookId !== targetWorkbookId) {
+        throw new Error('Version not found for this workbook');
+      }
+
+      // Keep the state being replaced restorable as well
+      await recordWorkbookVersion('restore', `Before restoring version from ${new Date(version.createdAt).toLocaleString()}`);
+
+      clearDiffOverlay();
+      isLoadingDataRef.current = true;
+      try {
+        // The restored snapshot replaces the log, so unwritten entries are dropped
+        pendingMutations = [];
+        await flushMutations();
+
+        const currentWorkbook = univerAPI.getActiveWorkbook();
+        if (currentWorkbook) {
+          univerAPI.disposeUnit(currentWorkbook.getId());
+        }
+        createWorkbookFromData(version.data);
+        await saveWorkbookDataToIndexedDB(targetWorkbookId, version.data);
+        isDirtyRef.current = false;
+        lastLoggedMutationId = null;
+        loggedSinceSnapshot = 0;
+        reportSaved('workbook');
+        broadcastSync({ type: 'workbook-replaced', workbookId: targetWorkbookId });
+        console.log('⏪ Restored workbook version:', versionId);
+      } finally {
+        isLoadingDataRef.current = false;
+      }
+    };
 
     // Store instance in ref to prevent double initialization
-    univerInstanceRef.current = { univerAPI, univer };
+    univerInstanceRef.current = { univerAPI, univer, openWorkbook };
 
     // Store API globally for MCP client connection
-    let autoSaveInterval: ReturnType<typeof setInterval> | null = null;
-    let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+    let versionInterval: ReturnType<typeof setInterval> | null = null;
     let beforeUnloadHandler: (() => void) | null = null;
+    let visibilityHandler: (() => void) | null = null;
+    let unsubscribeSync: (() => void) | null = null;
 
     if (typeof window !== 'undefined') {
       (window as any).univerAPI = univerAPI;
       // Expose save function globally so other components can trigger saves
       (window as any).saveWorkbookData = saveWorkbookData;
+      // Expose version history hooks so chat turns and the history panel can use them
+      window.saveWorkbookVersion = recordWorkbookVersion;
+      window.restoreWorkbookVersion = restoreWorkbookVersion;
+      // Expose a way to start a fresh workbook in the catalog and switch to it
+      (window as any).createWorkbook = async (name?: string) => {
+        const workbook = await createWorkbookRecord(name);
+        await openWorkbook(workbook.id);
+        onWorkbookCreatedRef.current?.(workbook);
+        return workbook;
+      };
       // Expose debug function to check IndexedDB
       (window as any).debugWorkbookData = async () => {
         try {
-          const saved = await loadWorkbookDataFromIndexedDB();
+          if (!loadedWorkbookIdRef.current) return null;
+          const saved = await loadWorkbookDataFromIndexedDB(loadedWorkbookIdRef.current);
           if (saved) {
             console.log('Saved workbook data:', {
-              sheetCount: Object.keys(saved).length,
-              sheets: Object.keys(saved).map(name => ({
-                name,
-                rowCount: saved[name].data?.length || 0,
-                colCount: saved[name].data?.[0]?.length || 0,
+              sheetCount: saved.sheetOrder?.length || 0,
+              sheets: (saved.sheetOrder || []).map(sheetId => ({
+                name: saved.sheets?.[sheetId]?.name,
+                rowCount: saved.sheets?.[sheetId]?.rowCount || 0,
+                colCount: saved.sheets?.[sheetId]?.columnCount || 0,
               })),
               fullData: saved,
             });
@@ -521,82 +959,52 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
         console.warn('⚠ Could not execute redo - no methods available');
       };
 
-      // Set up auto-save with debouncing
-      const debouncedSave = () => {
-        if (saveTimeout) clearTimeout(saveTimeout);
-        saveTimeout = setTimeout(async () => {
-          await saveWorkbookData();
-        }, 500); // Save 500ms after last change (reduced for faster saves)
-      };
-
-      // Immediate save function (no debounce)
-      const immediateSave = async () => {
-        if (saveTimeout) clearTimeout(saveTimeout);
-        await saveWorkbookData();
-      };
+      // Persist from the mutations Univer applies instead of polling snapshots.
+      // Local-only mutations (render state, selections) are never part of the document.
+      const mutationListener = univerAPI.onCommandExecuted((command, options) => {
+        if (command.type !== CommandType.MUTATION || options?.onlyLocal) return;
+        if (isLoadingDataRef.current || isReadOnlyRef.current || !loadedWorkbookIdRef.current) return;
 
-      // Listen for keyboard events that finalize cell edits
-      const handleCellEditFinish = (e: KeyboardEvent) => {
-        // Enter, Tab, Escape typically finalize cell edits in spreadsheets
-        if (e.key === 'Enter' || e.key === 'Tab' || e.key === 'Escape') {
-          // Save immediately when cell edit is finalized
-          immediateSave().catch(console.error);
-        }
-      };
-      window.addEventListener('keydown', handleCellEditFinish);
+        const workbook = univerAPI.getActiveWorkbook();
+        const unitId = (command.params as { unitId?: string } | undefined)?.unitId;
+        if (!workbook || (unitId && unitId !== workbook.getId())) return;
 
-      // Also save when user clicks outside the spreadsheet (blur)
-      const handleWindowBlur = () => {
-        immediateSave().catch(console.error);
-      };
-      window.addEventListener('blur', handleWindowBlur);
+        recordMutation(command.id, command.params);
+      });
+      univerInstanceRef.current.mutationListener = mutationListener;
 
-      // Store handlers for cleanup
-      (univerInstanceRef.current as any).cellEditFinishHandler = handleCellEditFinish;
-      (univerInstanceRef.current as any).windowBlurHandler = handleWindowBlur;
+      // Follow what the editing tab does while this tab is read-only
+      unsubscribeSync = onSyncMessage((message) => {
+        const targetWorkbookId = loadedWorkbookIdRef.current;
+        if (!isReadOnlyRef.current || !targetWorkbookId) return;
 
-      // Try to listen to Univer's command execution events if available
-      // Wait a bit for workbook to be ready
-      setTimeout(() => {
-        try {
-          const workbook = univerAPI.getActiveWorkbook();
-          // Use type assertion since getCommandService might not be in types but could exist at runtime
-          const commandService = (workbook as any)?.getCommandService?.();
-          if (commandService && typeof commandService.onCommandExecuted === 'function') {
-            // Listen for set range values command (cell edits)
-            const dispose = commandService.onCommandExecuted((commandInfo: any) => {
-              if (commandInfo?.id && (
-                commandInfo.id === 'sheet.command.set-range-values' ||
-                commandInfo.id === 'sheet.operation.set-range-values' ||
-                commandInfo.id.includes('set-range') ||
-                commandInfo.id.includes('set-value') ||
-                commandInfo.id.includes('set-range-values')
-              )) {
-                console.log('Cell edit detected via command event, triggering save');
-                debouncedSave();
-              }
-            });
-            // Store dispose function for cleanup (if available)
-            if (typeof dispose === 'function') {
-              if (!univerInstanceRef.current) univerInstanceRef.current = { univerAPI, univer };
-              (univerInstanceRef.current as any).commandDispose = dispose;
-            }
+        if (message.type === 'workbook-mutations' && message.workbookId === targetWorkbookId) {
+          if (isLoadingDataRef.current) {
+            queuedRemoteMutations.push(message);
+          } else {
+            applyRemoteMutations(message);
           }
-        } catch (e) {
-          console.log('Could not hook into Univer command events:', e);
+        } else if (message.type === 'workbook-replaced' && message.workbookId === targetWorkbookId) {
+          reloadWorkbook(targetWorkbookId).catch(console.error);
+        }
+      });
+
+      // Snapshot while the tab is in the background, where serialising can't stall typing
+      visibilityHandler = () => {
+        if (document.visibilityState === 'hidden') {
+          saveWorkbookData().catch(console.error);
         }
-      }, 1000); // Wait 1 second for workbook to be ready
+      };
+      document.addEventListener('visibilitychange', visibilityHandler);
 
-      // Listen for changes (polling as fallback)
-      // Save more frequently to catch changes quickly
-      autoSaveInterval = setInterval(() => {
-        debouncedSave();
-      }, 3000); // Auto-save every 3 seconds (reduced from 10)
+      // Periodically keep a version for the history panel
+      versionInterval = setInterval(() => {
+        recordIntervalVersion().catch(console.error);
+      }, VERSION_INTERVAL_MS);
 
-      // Also save when window is about to close
+      // Get buffered mutations into the log before the window closes
       beforeUnloadHandler = () => {
-        // Use synchronous version for beforeunload
-        saveWorkbookData().catch(console.error);
+        flushMutations().catch(console.error);
       };
       window.addEventListener('beforeunload', beforeUnloadHandler);
 
@@ -606,28 +1014,21 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
 
     // Clean up on unmount
     return () => {
-      if (autoSaveInterval) clearInterval(autoSaveInterval);
-      if (saveTimeout) clearTimeout(saveTimeout);
+      if (versionInterval) clearInterval(versionInterval);
+      if (compactionTimeout) clearTimeout(compactionTimeout);
       if (beforeUnloadHandler && typeof window !== 'undefined') {
         window.removeEventListener('beforeunload', beforeUnloadHandler);
       }
-      // Remove keyboard and blur event listeners
-      if (univerInstanceRef.current) {
-        const cellEditFinishHandler = (univerInstanceRef.current as any).cellEditFinishHandler;
-        const windowBlurHandler = (univerInstanceRef.current as any).windowBlurHandler;
-        if (cellEditFinishHandler) {
-          window.removeEventListener('keydown', cellEditFinishHandler);
-        }
-        if (windowBlurHandler) {
-          window.removeEventListener('blur', windowBlurHandler);
-        }
+      if (visibilityHandler) {
+        document.removeEventListener('visibilitychange', visibilityHandler);
       }
-      // Clean up command listener if it exists
-      if (univerInstanceRef.current && (univerInstanceRef.current as any).commandDispose) {
+      unsubscribeSync?.();
+      // Clean up mutation listener if it exists
+      if (univerInstanceRef.current?.mutationListener) {
         try {
-          (univerInstanceRef.current as any).commandDispose();
+          univerInstanceRef.current.mutationListener.dispose();
         } catch (e) {
-          console.warn('Error disposing command listener:', e);
+          console.warn('Error disposing mutation listener:', e);
         }
       }
       // Keyboard handler cleanup is in the separate useEffect above
@@ -635,7 +1036,16 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
 
       // Cleanup global functions and file input
       delete (window as any).exportWorkbookToXLSX;
+      delete (window as any).exportWorkbookToODS;
       delete (window as any).importXLSXFile;
+      delete (window as any).importWorkbookFile;
+      delete window.openExportDialog;
+      delete window.openPageSetup;
+      importFileRef.current = null;
+      importAbortRef.current?.abort();
+      delete (window as any).createWorkbook;
+      delete window.saveWorkbookVersion;
+      delete window.restoreWorkbookVersion;
       if (univerInstanceRef.current && (univerInstanceRef.current as any).fileInput) {
         ((univerInstanceRef.current as any).fileInput as HTMLInputElement).remove();
       }
@@ -644,6 +1054,8 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
         univerInstanceRef.current.univerAPI.dispose();
         univerInstanceRef.current = null;
       }
+      loadedWorkbookIdRef.current = null;
+      releaseEditLock?.();
     };
 
     console.log('Univer MCP configured with sessionId:', sessionId);
@@ -668,94 +1080,146 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
       }
     };
 
-    // Add file input for importing XLSX files
-    const fileInput = document.createElement('input');
-    fileInput.type = 'file';
-    fileInput.accept = '.xlsx,.xls';
-    fileInput.style.display = 'none';
-    fileInput.addEventListener('change', async (e) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (!file) return;
-
+    // Same for OpenDocument, for LibreOffice users
+    (window as any).exportWorkbookToODS = async (filename?: string) => {
       try {
-        // Import XLSX file
-        const workbookData = await importXLSXToWorkbookData(file);
-
-        // Check if it's the old data format (for backwards compatibility)
-        if (!workbookData.sheets || !workbookData.sheetOrder) {
-          console.warn('Invalid workbook data format');
-          return;
+        const workbookSnapshot = univerAPI.getActiveWorkbook()?.save();
+        if (!workbookSnapshot) {
+          throw new Error('No workbook available');
         }
+        const { exportWorkbookToODS } = await import('../src/utils/xlsxConverter');
+        await exportWorkbookToODS(workbookSnapshot, filename || 'workbook.ods');
+      } catch (error) {
+        console.error('Error exporting workbook:', error);
+        throw error;
+      }
+    };
 
-        // Ensure all sheets have at least 100,000 rows and 1,000 columns
-        // The XLSX import already sets these, but we ensure they're at least MIN_ROWS/MIN_COLS
-        const MIN_ROWS = 100000;
-        const MIN_COLS = 1000;
-        if (workbookData && workbookData.sheets) {
-          for (const sheetId in workbookData.sheets) {
-            const sheet = workbookData.sheets[sheetId];
-            if (sheet) {
-              // Set rowCount and columnCount to at least MIN_ROWS/MIN_COLS if not already set or if they're lower
-              if (!(sheet as any).rowCount || (sheet as any).rowCount < MIN_ROWS) {
-                (sheet as any).rowCount = MIN_ROWS;
-              }
-              if (!(sheet as any).columnCount || (sheet as any).columnCount < MIN_COLS) {
-                (sheet as any).columnCount = MIN_COLS;
-              }
-            }
-          }
+    // Imports become a new workbook in the catalog instead of replacing the open one.
+    // Every upload comes through here: the chat's upload button, the Import menu and dropped files.
+    // The file is parsed in a worker while the grid shows progress and a cancel button.
+    const importWorkbookFile = async (file: File) => {
+      // CSV/TSV files are previewed first, so the delimiter, header and column types can be corrected
+      let delimited: DelimitedImportOptions | undefined;
+      if (isDelimitedFile(file.name)) {
+        let resolveOptions: (options: DelimitedImportOptions | null) => void = () => {};
+        const optionsPromise = new Promise<DelimitedImportOptions | null>(resolve => { resolveOptions = resolve; });
+        // A file dropped while the dialog is still open takes it over; the earlier one is cancelled
+        delimitedResolveRef.current?.(null);
+        delimitedResolveRef.current = resolveOptions;
+        setDelimitedImport({ file, resolve: resolveOptions });
+        const options = await optionsPromise;
+        if (delimitedResolveRef.current === resolveOptions) {
+          delimitedResolveRef.current = null;
+          setDelimitedImport(null);
         }
+        if (!options) throw new DOMException('Import cancelled', 'AbortError');
+        delimited = options;
+      }
 
-        // Set loading flag to prevent auto-save from overwriting
-        isLoadingDataRef.current = true;
+      const abortController = new AbortController();
+      importAbortRef.current?.abort();
+      importAbortRef.current = abortController;
+      setImportProgress({ fileName: file.name, progress: { stage: 'reading', sheetsDone: 0, sheetCount: 0, rowsDone: 0, rowCount: 0 } });
+      const startedAt = Date.now();
+      let failed = false;
 
-        // Create workbook from imported data
-        try {
-          const createdWorkbook = univerAPI.createWorkbook(workbookData);
-          console.log('✅ Workbook imported from XLSX:', createdWorkbook?.getId());
-
-          // Ensure all sheets have the correct row and column counts for infinite scrolling
-          // Use the FWorksheet API methods to set dimensions explicitly
-          const MIN_ROWS = 100000;
-          const MIN_COLS = 1000;
-          const sheets = createdWorkbook.getSheets();
-          for (const sheet of sheets) {
-            try {
-              const sheetSnapshot = sheet.getSheet().getSnapshot();
-              const sheetRowCount = (sheetSnapshot as any).rowCount || MIN_ROWS;
-              const sheetColCount = (sheetSnapshot as any).columnCount || MIN_COLS;
+      try {
+        const { workbookData, issues } = await importFileToWorkbookData(file, {
+          delimited,
+          signal: abortController.signal,
+          onProgress: progress => setImportProgress({ fileName: file.name, progress }),
+        });
+        if (!workbookData.sheets || !workbookData.sheetOrder) {
+          throw new Error('Invalid workbook data format');
+        }
 
-              // Use FWorksheet API to set dimensions (for infinite scrolling support)
-              const finalRowCount = Math.max(sheetRowCount, MIN_ROWS);
-              const finalColCount = Math.max(sheetColCount, MIN_COLS);
+        const workbook = await createWorkbookRecord(workbookData.name || file.name, workbookData);
+        console.log('✅ Imported workbook saved to IndexedDB:', workbook.id);
+        await saveWorkbookVersionToIndexedDB(workbook.id, workbookData, 'import', file.name);
 
-              sheet.setRowCount(finalRowCount);
-              sheet.setColumnCount(finalColCount);
+        await openWorkbook(workbook.id);
+        onWorkbookCreatedRef.current?.(workbook);
+        reportImport(buildImportReport(file, workbook.id, workbookData, issues, Date.now() - startedAt));
+        return { workbook, workbookData };
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          failed = true;
+          console.error('Error importing file:', error);
+          // The overlay stays up with the error until it's dismissed
+          setImportProgress(current => current && {
+            ...current,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+        throw error;
+      } finally {
+        if (importAbortRef.current === abortController) {
+          importAbortRef.current = null;
+          if (!failed) setImportProgress(null);
+        }
+      }
+    };
+    (window as any).importWorkbookFile = importWorkbookFile;
+    importFileRef.current = importWorkbookFile;
 
-              console.log(`📏 Set imported sheet "${sheet.getSheetName()}" dimensions: ${finalRowCount} rows, ${finalColCount} columns`);
-            } catch (sheetError) {
-              console.warn(`⚠️ Could not set dimensions for imported sheet:`, sheetError);
-            }
-          }
+    // Add file input for importing Excel, OpenDocument and CSV files
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = IMPORT_FILE_ACCEPT;
+    fileInput.style.display = 'none';
+    fileInput.addEventListener('change', async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
 
-          // Save imported data to IndexedDB
-          await saveWorkbookDataToIndexedDB(workbookData);
-          console.log('✅ Imported workbook saved to IndexedDB');
-        } catch (error) {
-          console.error('❌ Error creating workbook from imported data:', error);
-          throw error;
-        } finally {
-          isLoadingDataRef.current = false;
-        }
-      } catch (error) {
-        console.error('Error importing XLSX file:', error);
-        alert(`Failed to import file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      try {
+        await importWorkbookFile(file);
+      } catch {
+        // Shown in the import overlay
       } finally {
         // Reset file input
         fileInput.value = '';
       }
     });
 
+    // Import from the spreadsheet's own toolbar too
+    try {
+      univerAPI.createMenu({
+        id: 'sheetgrid.import-file',
+        title: 'Import',
+        tooltip: 'Open an Excel, ODS or CSV file as a new workbook',
+        action: () => fileInput.click(),
+      }).appendTo('ribbon.start.others');
+    } catch (error) {
+      console.warn('⚠ Could not add the Import menu item:', error);
+    }
+
+    // Sheet or selection excerpts as CSV, JSON, Markdown or HTML
+    try {
+      univerAPI.createMenu({
+        id: 'sheetgrid.export-range',
+        title: 'Export',
+        tooltip: 'Copy or download the sheet or selection as CSV, JSON, Markdown or HTML',
+        action: () => setShowExportDialog(true),
+      }).appendTo('ribbon.start.others');
+    } catch (error) {
+      console.warn('⚠ Could not add the Export menu item:', error);
+    }
+    window.openExportDialog = () => setShowExportDialog(true);
+
+    // Printing and PDFs go through the page setup dialog
+    try {
+      univerAPI.createMenu({
+        id: 'sheetgrid.print',
+        title: 'Print',
+        tooltip: 'Print the sheet or save it as a PDF',
+        action: () => setShowPageSetup(true),
+      }).appendTo('ribbon.start.others');
+    } catch (error) {
+      console.warn('⚠ Could not add the Print menu item:', error);
+    }
+    window.openPageSetup = () => setShowPageSetup(true);
+
     // Expose import function globally
     (window as any).importXLSXFile = () => {
       fileInput.click();
@@ -765,5 +1229,93 @@ export default function Spreadsheet({ }: SpreadsheetProps) {
     (univerInstanceRef.current as any).fileInput = fileInput;
   }, []);
 
-  return <div ref={containerRef} className="h-full w-full" />;
+  // Load whichever workbook is selected in the catalog
+  useEffect(() => {
+    if (!workbookId || !univerInstanceRef.current) return;
+    univerInstanceRef.current.openWorkbook?.(workbookId).catch((error: unknown) => {
+      console.error('Error opening workbook:', error);
+    });
+  }, [workbookId]);
+
+  // Files dropped anywhere on the spreadsheet are imported like uploads
+  const hasDraggedFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e) || isReadOnly) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    // Leaving for a child element isn't leaving the spreadsheet
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFile(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (!isImportableFile(file.name)) {
+      alert(IMPORT_FILE_HINT);
+      return;
+    }
+    importFileRef.current?.(file).catch(() => {
+      // Shown in the import overlay
+    });
+  };
+
+  return (
+    <div
+      className="relative flex flex-col h-full w-full"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {isReadOnly && (
+        <div className="flex items-center gap-2 px-4 py-1.5 text-xs text-amber-800 bg-amber-50 border-b border-amber-200 flex-shrink-0">
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+          </svg>
+          This workbook is open in another tab. Changes made there appear here live; close that tab or switch it to another workbook to edit here.
+        </div>
+      )}
+      <div ref={containerRef} className="flex-1 min-h-0 w-full" />
+      {isDraggingFile && (
+        <div className="absolute inset-2 z-40 flex items-center justify-center rounded-lg border-2 border-dashed border-blue-400 bg-blue-50/80 pointer-events-none">
+          <span className="text-sm font-medium text-blue-700">Drop to open as a new workbook</span>
+        </div>
+      )}
+      {delimitedImport && (
+        <DelimitedImportDialog
+          file={delimitedImport.file}
+          onImport={options => delimitedImport.resolve(options)}
+          onCancel={() => delimitedImport.resolve(null)}
+        />
+      )}
+      {showExportDialog && <ExportRangeDialog onClose={() => setShowExportDialog(false)} />}
+      {showPageSetup && (
+        <PageSetupDialog
+          readOnly={isReadOnly}
+          onSaved={() => {
+            isDirtyRef.current = true;
+            window.saveWorkbookData?.().catch(console.error);
+          }}
+          onClose={() => setShowPageSetup(false)}
+        />
+      )}
+      {importProgress && (
+        <ImportProgressOverlay
+          fileName={importProgress.fileName}
+          progress={importProgress.progress}
+          error={importProgress.error}
+          onCancel={() => importAbortRef.current?.abort()}
+          onClose={() => setImportProgress(null)}
+        />
+      )}
+    </div>
+  );
 }
@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  getWorkbookStorageUsage,
+  clearWorkbookVersions,
+  type WorkbookStorageUsage,
+} from '../src/utils/indexeddb';
+import {
+  getStorageEstimate,
+  onQuotaExceeded,
+  QUOTA_WARNING_RATIO,
+  type StorageEstimate,
+} from '../src/utils/storage';
+
+// How often usage is re-checked while the app is open
+const ESTIMATE_INTERVAL_MS = 60 * 1000;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+/**
+ * Header warning shown when browser storage is nearly full, or a save already failed
+ * because it is. Opens a per-workbook breakdown of what is taking up the space.
+ */
+export default function StorageStatus() {
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [quotaExceeded, setQuotaExceeded] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const [usage, setUsage] = useState<WorkbookStorageUsage[] | null>(null);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  // State is only set once the estimate arrives, never synchronously from the effect below
+  const refreshEstimate = useCallback(() => getStorageEstimate().then(setEstimate), []);
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      setUsage(await getWorkbookStorageUsage());
+    } catch (error) {
+      console.error('Error measuring storage:', error);
+      setUsage([]);
+    }
+    await refreshEstimate();
+  }, [refreshEstimate]);
+
+  useEffect(() => {
+    refreshEstimate();
+    const interval = setInterval(refreshEstimate, ESTIMATE_INTERVAL_MS);
+    const unsubscribe = onQuotaExceeded(() => {
+      setQuotaExceeded(true);
+      refreshEstimate();
+    });
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [refreshEstimate]);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const ratio = estimate && estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+  const isNearQuota = ratio >= QUOTA_WARNING_RATIO;
+  if (!quotaExceeded && !isNearQuota) return null;
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      refreshUsage();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleClearVersions = async (entry: WorkbookStorageUsage) => {
+    if (!window.confirm(`Delete all ${entry.versionCount} saved versions of "${entry.name}"? The workbook itself is kept.`)) {
+      return;
+    }
+    try {
+      await clearWorkbookVersions(entry.workbookId);
+      setQuotaExceeded(false);
+      await refreshUsage();
+    } catch (error) {
+      console.error('Error clearing versions:', error);
+    }
+  };
+
+  const percent = Math.round(ratio * 100);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={handleToggle}
+        className={`flex items-center gap-1 px-2 py-1 text-sm rounded transition-colors ${
+          quotaExceeded ? 'bg-red-100 text-red-800 hover:bg-red-200' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+        }`}
+        title="Browser storage is almost full"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+        </svg>
+        {quotaExceeded ? 'Storage full' : `Storage ${percent}%`}
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 right-0 top-full mt-1 w-96 bg-white border border-gray-200 rounded-md shadow-lg">
+          <div className="px-3 py-2 border-b border-gray-200">
+            <h2 className="text-sm font-semibold text-gray-700">Browser storage</h2>
+            {estimate && (
+              <>
+                <div className="mt-2 h-2 bg-gray-100 rounded overflow-hidden">
+                  <div
+                    className={`h-full ${quotaExceeded || percent >= 95 ? 'bg-red-500' : 'bg-amber-500'}`}
+                    style={{ width: `${Math.min(100, percent)}%` }}
+                  />
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {formatSize(estimate.usage)} of {formatSize(estimate.quota)} used
+                  {!estimate.persisted && ' · may be cleared by the browser under pressure'}
+                </div>
+              </>
+            )}
+            {quotaExceeded && (
+              <div className="mt-2 p-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded">
+                Recent changes could not be saved. Free up space below, then keep editing to save again.
+              </div>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto py-1">
+            {usage === null ? (
+              <div className="p-4 text-center text-sm text-gray-500">Measuring…</div>
+            ) : usage.length === 0 ? (
+              <div className="p-4 text-center text-sm text-gray-500">No workbooks stored</div>
+            ) : (
+              usage.map((entry) => (
+                <div key={entry.workbookId} className="px-3 py-2 mx-1 rounded hover:bg-gray-50">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="text-sm text-gray-700 truncate">{entry.name}</div>
+                    <div className="text-sm text-gray-700 flex-shrink-0">{formatSize(entry.totalBytes)}</div>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                    <span>
+                      Sheet {formatSize(entry.snapshotBytes)} · {entry.versionCount} versions {formatSize(entry.versionBytes)}
+                      {entry.mutationBytes > 0 && ` · edit log ${formatSize(entry.mutationBytes)}`}
+                    </span>
+                    {entry.versionCount > 0 && (
+                      <button
+                        onClick={() => handleClearVersions(entry)}
+                        className="text-red-600 hover:underline flex-shrink-0"
+                      >
+                        Clear history
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="px-3 py-2 border-t border-gray-200 text-xs text-gray-500">
+            Deleting workbooks you no longer need or clearing their history frees the most space.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { IWorkbookData } from '@univerjs/core';
+import {
+  getWorkbookVersions,
+  getWorkbookVersion,
+  deleteWorkbookVersion,
+  VERSION_RETENTION,
+  type WorkbookVersion,
+  type WorkbookVersionReason,
+} from '../src/utils/indexeddb';
+import { diffWorkbookSnapshots, type CellChange, type WorkbookDiff } from '../src/utils/workbookDiff';
+import { showDiffOverlay, clearDiffOverlay } from '../src/utils/diffOverlay';
+
+interface VersionHistoryPanelProps {
+  workbookId: string | null;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<WorkbookVersionReason, { text: string; className: string }> = {
+  'ai-turn': { text: 'AI turn', className: 'bg-purple-100 text-purple-700' },
+  import: { text: 'Import', className: 'bg-green-100 text-green-700' },
+  interval: { text: 'Auto', className: 'bg-gray-100 text-gray-600' },
+  manual: { text: 'Manual', className: 'bg-blue-100 text-blue-700' },
+  restore: { text: 'Restore', className: 'bg-amber-100 text-amber-700' },
+};
+
+// Changes listed per sheet before the preview is truncated
+const MAX_PREVIEW_CHANGES = 50;
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function columnName(column: number): string {
+  let name = '';
+  let n = column + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+function formatCellValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '∅';
+  return String(value);
+}
+
+// Formulas read better than their cached values when they're what changed
+function formatCellSide(cell: CellChange['before']): string {
+  if (!cell) return '∅';
+  return cell.f || formatCellValue(cell.v);
+}
+
+const CHANGE_COLORS: Record<CellChange['type'], string> = {
+  added: 'text-green-700',
+  removed: 'text-red-600',
+  modified: 'text-amber-700',
+};
+
+type CompareTarget = 'current' | 'next';
+
+export default function VersionHistoryPanel({ workbookId, onClose }: VersionHistoryPanelProps) {
+  const [versions, setVersions] = useState<WorkbookVersion[]>([]);
+  const [selectedVersionId, setSelectedVersionId] = useState<number | null>(null);
+  const [diff, setDiff] = useState<WorkbookDiff | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [compareTarget, setCompareTarget] = useState<CompareTarget>('current');
+  const [isHighlighting, setIsHighlighting] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // A different workbook starts with nothing selected (adjusted while rendering, not in an effect)
+  const [shownWorkbookId, setShownWorkbookId] = useState(workbookId);
+  if (shownWorkbookId !== workbookId) {
+    setShownWorkbookId(workbookId);
+    setVersions([]);
+    setSelectedVersionId(null);
+    setDiff(null);
+  }
+
+  // State is only set once the versions arrive, so this can run straight from the effect below
+  const loadVersions = useCallback(async () => {
+    if (!workbookId) return;
+    await getWorkbookVersions(workbookId).then(
+      (loaded) => {
+        setVersions(loaded);
+        setLoadError(null);
+      },
+      (error) => {
+        console.error('Error loading versions:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load versions');
+      }
+    );
+  }, [workbookId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  // Grid highlights belong to the open panel and the selected diff
+  useEffect(() => {
+    if (isHighlighting && diff && window.univerAPI) {
+      showDiffOverlay(window.univerAPI, diff);
+    } else {
+      clearDiffOverlay();
+    }
+  }, [isHighlighting, diff]);
+
+  useEffect(() => clearDiffOverlay, []);
+
+  // Compare the selected version with the current workbook, or with the version saved after it
+  const loadDiff = async (versionId: number, target: CompareTarget) => {
+    setDiff(null);
+    setIsLoadingPreview(true);
+    try {
+      const version = await getWorkbookVersion(versionId);
+      const index = versions.findIndex(v => v.id === versionId);
+      const nextVersionId = index > 0 ? versions[index - 1].id : null;
+
+      let after: IWorkbookData | null = null;
+      if (target === 'next' && nextVersionId !== null) {
+        after = (await getWorkbookVersion(nextVersionId))?.data ?? null;
+      } else {
+        after = window.univerAPI?.getActiveWorkbook()?.save() ?? null;
+      }
+
+      if (version?.data && after) {
+        setDiff(diffWorkbookSnapshots(version.data, after));
+      }
+    } catch (error) {
+      console.error('Error loading version preview:', error);
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const handleSelectVersion = async (versionId: number) => {
+    setSelectedVersionId(versionId);
+    await loadDiff(versionId, compareTarget);
+  };
+
+  const handleCompareTargetChange = async (target: CompareTarget) => {
+    setCompareTarget(target);
+    if (selectedVersionId !== null) {
+      await loadDiff(selectedVersionId, target);
+    }
+  };
+
+  const handleSaveVersion = async () => {
+    const label = window.prompt('Name this version (optional):');
+    if (label === null) return; // Cancelled
+    if (window.saveWorkbookVersion) {
+      await window.saveWorkbookVersion('manual', label.trim() || undefined);
+      await loadVersions();
+    }
+  };
+
+  const handleRestore = async (version: WorkbookVersion) => {
+    const when = new Date(version.createdAt).toLocaleString();
+    if (!window.confirm(`Restore the workbook to the version from ${when}? The current state will be kept in history.`)) {
+      return;
+    }
+    setIsRestoring(true);
+    try {
+      setIsHighlighting(false);
+      if (!window.restoreWorkbookVersion) throw new Error('No workbook is open');
+      await window.restoreWorkbookVersion(version.id);
+      setSelectedVersionId(null);
+      setDiff(null);
+      await loadVersions();
+    } catch (error) {
+      console.error('Error restoring version:', error);
+      window.alert('Could not restore this version.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleDelete = async (version: WorkbookVersion, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!window.confirm('Delete this version?')) return;
+    try {
+      await deleteWorkbookVersion(version.id);
+      if (selectedVersionId === version.id) {
+        setSelectedVersionId(null);
+        setDiff(null);
+      }
+      await loadVersions();
+    } catch (error) {
+      console.error('Error deleting version:', error);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-gray-700">Version History</h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleSaveVersion}
+            disabled={!workbookId}
+            className="px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+            title="Save the current state as a version"
+          >
+            Save version
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded hover:bg-gray-200 transition-colors"
+            title="Close"
+          >
+            <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Version list */}
+      <div className="flex-1 overflow-y-auto py-1">
+        {loadError ? (
+          <div className="p-4 text-center text-sm text-red-600">
+            {loadError}
+            <button onClick={loadVersions} className="block mx-auto mt-2 text-xs text-blue-600 hover:underline">
+              Try again
+            </button>
+          </div>
+        ) : versions.length === 0 ? (
+          <div className="p-4 text-center text-sm text-gray-500">
+            No versions yet. Versions are kept for each AI turn, each import and every few minutes of editing.
+          </div>
+        ) : (
+          versions.map((version) => {
+            const reason = REASON_LABELS[version.reason];
+            const isSelected = selectedVersionId === version.id;
+            return (
+              <div key={version.id} className="mx-1">
+                <div
+                  onClick={() => handleSelectVersion(version.id)}
+                  className={`px-3 py-2 rounded cursor-pointer group transition-colors ${
+                    isSelected ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-1.5 py-0.5 text-[10px] font-medium rounded ${reason.className}`}>
+                          {reason.text}
+                        </span>
+                        <span className="text-sm">{new Date(version.createdAt).toLocaleString()}</span>
+                      </div>
+                      {version.label && (
+                        <div className="text-xs text-gray-500 truncate mt-0.5" title={version.label}>
+                          {version.label}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-400">{formatSize(version.size)}</div>
+                    </div>
+                    <button
+                      onClick={(e) => handleDelete(version, e)}
+                      className="p-1 hover:bg-red-100 rounded text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Delete version"
+                    >
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+
+                {/* Preview: what changed between this version and now */}
+                {isSelected && (
+                  <div className="px-3 py-2 mb-1 border-l-2 border-blue-200 ml-2 text-xs text-gray-600">
+                    {isLoadingPreview ? (
+                      <div>Loading preview…</div>
+                    ) : diff ? (
+                      <>
+                        <div className="flex items-center justify-between mb-1">
+                          <select
+                            value={compareTarget}
+                            onChange={(e) => handleCompareTargetChange(e.target.value as CompareTarget)}
+                            className="text-xs border border-gray-200 rounded px-1 py-0.5 bg-white"
+                          >
+                            <option value="current">Compared with current</option>
+                            <option value="next">Compared with next version</option>
+                          </select>
+                          <label className="flex items-center gap-1 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={isHighlighting}
+                              onChange={(e) => setIsHighlighting(e.target.checked)}
+                            />
+                            Highlight in grid
+                          </label>
+                        </div>
+                        <div className="mb-1 font-medium text-gray-700">
+                          {diff.sheets.every(sheet => sheet.status === 'unchanged')
+                            ? 'No differences'
+                            : `${diff.totalCellChanges} cell${diff.totalCellChanges === 1 ? '' : 's'} changed`
+                              + (diff.totalMergeChanges > 0 ? `, ${diff.totalMergeChanges} merge${diff.totalMergeChanges === 1 ? '' : 's'} changed` : '')
+                              + (diff.sheetsReordered ? ', sheets reordered' : '')}
+                        </div>
+                        {diff.sheets.filter(sheet => sheet.status !== 'unchanged').map((sheet) => (
+                          <div key={sheet.sheetId} className="mb-2">
+                            <div className="font-medium">
+                              {sheet.name}
+                              {sheet.status === 'added' && ' (added)'}
+                              {sheet.status === 'removed' && ' (removed)'}
+                              {sheet.renamedFrom && ` (renamed from ${sheet.renamedFrom})`}
+                              {sheet.movedFrom !== null && sheet.movedTo !== null && ` (moved ${sheet.movedFrom + 1} → ${sheet.movedTo + 1})`}
+                            </div>
+                            {sheet.mergeChanges.map((merge) => (
+                              <div key={`${merge.type}:${merge.range.startRow}:${merge.range.startColumn}`} className={CHANGE_COLORS[merge.type]}>
+                                Merge {merge.type}: {columnName(merge.range.startColumn)}{merge.range.startRow + 1}:{columnName(merge.range.endColumn)}{merge.range.endRow + 1}
+                              </div>
+                            ))}
+                            <table className="w-full mt-0.5">
+                              <tbody>
+                                {sheet.cellChanges.slice(0, MAX_PREVIEW_CHANGES).map((change) => (
+                                  <tr key={`${change.row}:${change.column}`} className="align-top">
+                                    <td className={`pr-2 font-mono ${CHANGE_COLORS[change.type]}`}>{columnName(change.column)}{change.row + 1}</td>
+                                    <td className="pr-2 text-red-600 line-through break-all">{formatCellSide(change.before)}</td>
+                                    <td className="pr-2 text-green-700 break-all">{formatCellSide(change.after)}</td>
+                                    <td className="text-gray-400 whitespace-nowrap">{change.kinds.join(', ')}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            {sheet.cellChanges.length > MAX_PREVIEW_CHANGES && (
+                              <div className="text-gray-400">…and {sheet.cellChanges.length - MAX_PREVIEW_CHANGES} more</div>
+                            )}
+                          </div>
+                        ))}
+                      </>
+                    ) : (
+                      <div>Preview unavailable</div>
+                    )}
+                    <button
+                      onClick={() => handleRestore(version)}
+                      disabled={isRestoring}
+                      className="mt-1 px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {isRestoring ? 'Restoring…' : 'Restore this version'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {/* Retention note */}
+      <div className="px-3 py-2 border-t border-gray-200 text-[11px] text-gray-400">
+        Keeps the latest {VERSION_RETENTION.maxVersionsPerWorkbook} versions from the last {VERSION_RETENTION.maxAgeDays} days.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useRef, useEffect } from 'react';
+import type { WorkbookMeta } from '../src/utils/indexeddb';
+
+interface WorkbookSwitcherProps {
+  workbooks: WorkbookMeta[];
+  activeWorkbookId: string | null;
+  onSelectWorkbook: (workbookId: string) => void;
+  onCreateWorkbook: () => void;
+  onRenameWorkbook: (workbookId: string, name: string) => void;
+  onDuplicateWorkbook: (workbookId: string) => void;
+  onDeleteWorkbook: (workbookId: string) => void;
+  onBackup: () => void;
+  onRestore: () => void;
+  onOpen?: () => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatModified(updatedAt: string): string {
+  const date = new Date(updatedAt);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+}
+
+export default function WorkbookSwitcher({
+  workbooks,
+  activeWorkbookId,
+  onSelectWorkbook,
+  onCreateWorkbook,
+  onRenameWorkbook,
+  onDuplicateWorkbook,
+  onDeleteWorkbook,
+  onBackup,
+  onRestore,
+  onOpen,
+}: WorkbookSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingWorkbookId, setEditingWorkbookId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const dropdownRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const activeWorkbook = workbooks.find(workbook => workbook.id === activeWorkbookId);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setEditingWorkbookId(null);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen && onOpen) {
+      onOpen(); // Refresh sizes and timestamps before showing the list
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleStartEdit = (workbook: WorkbookMeta, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingWorkbookId(workbook.id);
+    setEditingName(workbook.name);
+    setTimeout(() => inputRef.current?.focus(), 0);
+  };
+
+  const handleSaveEdit = (workbookId: string) => {
+    const name = editingName.trim();
+    if (name) {
+      onRenameWorkbook(workbookId, name);
+    }
+    setEditingWorkbookId(null);
+    setEditingName('');
+  };
+
+  const handleCancelEdit = () => {
+    setEditingWorkbookId(null);
+    setEditingName('');
+  };
+
+  const handleDelete = (workbook: WorkbookMeta, e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (window.confirm(`Are you sure you want to delete "${workbook.name}"?`)) {
+      onDeleteWorkbook(workbook.id);
+    }
+  };
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={handleToggle}
+        className="flex items-center gap-1 px-2 py-1 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+        title="Switch workbook"
+      >
+        <span className="truncate max-w-[240px]">{activeWorkbook?.name || 'Untitled Workbook'}</span>
+        <svg
+          className={`w-3 h-3 transition-transform ${isOpen ? 'transform rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+          strokeWidth={2}
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-50 left-0 top-full mt-1 w-96 bg-white border border-gray-200 rounded-md shadow-lg">
+          <div className="px-3 py-2 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-gray-700">Workbooks</h2>
+            <button
+              onClick={() => {
+                onCreateWorkbook();
+                setIsOpen(false);
+              }}
+              className="p-1.5 rounded hover:bg-gray-200 transition-colors"
+              title="New Workbook"
+            >
+              <svg className="w-4 h-4 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="max-h-80 overflow-y-auto py-1">
+            {workbooks.length === 0 ? (
+              <div className="p-4 text-center text-sm text-gray-500">
+                No workbooks yet
+              </div>
+            ) : (
+              workbooks.map((workbook) => (
+                <div
+                  key={workbook.id}
+                  onClick={() => {
+                    if (editingWorkbookId === workbook.id) return;
+                    onSelectWorkbook(workbook.id);
+                    setIsOpen(false);
+                  }}
+                  className={`px-3 py-2 mx-1 rounded cursor-pointer group transition-colors ${
+                    activeWorkbookId === workbook.id
+                      ? 'bg-blue-100 text-blue-900'
+                      : 'hover:bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {editingWorkbookId === workbook.id ? (
+                    <input
+                      ref={inputRef}
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={() => handleSaveEdit(workbook.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          handleSaveEdit(workbook.id);
+                        } else if (e.key === 'Escape') {
+                          handleCancelEdit();
+                        }
+                      }}
+                      className="w-full px-1 py-0.5 text-sm bg-white border border-blue-300 rounded"
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm truncate">{workbook.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {formatSize(workbook.size)} · Modified {formatModified(workbook.updatedAt)}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button
+                          onClick={(e) => handleStartEdit(workbook, e)}
+                          className="p-1 hover:bg-gray-200 rounded"
+                          title="Rename"
+                        >
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onDuplicateWorkbook(workbook.id);
+                          }}
+                          className="p-1 hover:bg-gray-200 rounded"
+                          title="Duplicate"
+                        >
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => handleDelete(workbook, e)}
+                          className="p-1 hover:bg-red-100 rounded text-red-600"
+                          title="Delete"
+                        >
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="px-3 py-2 border-t border-gray-200 flex items-center gap-2">
+            <button
+              onClick={() => {
+                onBackup();
+                setIsOpen(false);
+              }}
+              className="flex-1 px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100 transition-colors"
+              title="Download all chats, workbooks and history as a zip"
+            >
+              Back up all data
+            </button>
+            <button
+              onClick={() => {
+                onRestore();
+                setIsOpen(false);
+              }}
+              className="flex-1 px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100 transition-colors"
+              title="Restore chats and workbooks from a backup zip"
+            >
+              Restore from backup…
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+// Opens a fixture database at every old schema version, fills it with records shaped the way
+// that version stored them, upgrades it to the latest version and checks what came out.
+// Runs in Node against an in-memory IndexedDB: pnpm check:migrations
+
+import 'fake-indexeddb/auto';
+import assert from 'node:assert/strict';
+import type { IWorkbookData } from '@univerjs/core';
+import { LATEST_DB_VERSION, openDatabase } from '../src/utils/migrations';
+
+// The snapshot format used before workbooks were stored as IWorkbookData
+const LEGACY_SNAPSHOT = {
+  Sheet1: [
+    ['Item', 'Cost'],
+    ['Rent', 1200],
+    ['Total', '=SUM(B2)'],
+  ],
+};
+
+const WORKBOOK_ID = 'workbook-1';
+const CHAT_ID = 'chat-1';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function putRecords(db: IDBDatabase, storeName: string, records: object[]): Promise<void> {
+  const transaction = db.transaction(storeName, 'readwrite');
+  for (const record of records) {
+    transaction.objectStore(storeName).put(record);
+  }
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function getAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return requestResult(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+}
+
+// Records as the app wrote them at the given schema version
+async function seed(db: IDBDatabase, version: number): Promise<void> {
+  const now = new Date().toISOString();
+
+  if (version < 3) {
+    await putRecords(db, 'workbook_data', [{ id: 'current', data: LEGACY_SNAPSHOT, savedAt: now }]);
+  } else {
+    await putRecords(db, 'workbooks', [{ id: WORKBOOK_ID, name: 'Budget', size: 100, createdAt: now, updatedAt: now }]);
+    await putRecords(db, 'workbook_data', [{ id: WORKBOOK_ID, data: LEGACY_SNAPSHOT, savedAt: now }]);
+  }
+
+  if (version === 1) {
+    await putRecords(db, 'chat_history', [{ role: 'user', content: 'What do I spend on rent?', timestamp: now }]);
+  } else {
+    await putRecords(db, 'chats', [{
+      id: CHAT_ID,
+      title: 'Rent',
+      createdAt: now,
+      updatedAt: now,
+      ...(version >= 4 ? { workbookId: WORKBOOK_ID } : {}),
+    }]);
+    await putRecords(db, 'chat_history', [{ chatId: CHAT_ID, role: 'user', content: 'What do I spend on rent?', timestamp: now }]);
+  }
+
+  if (version >= 5) {
+    await putRecords(db, 'workbook_versions', [{ workbookId: WORKBOOK_ID, data: LEGACY_SNAPSHOT, reason: 'manual', createdAt: now, size: 100 }]);
+  }
+}
+
+function assertConverted(data: unknown, workbookId: string): void {
+  const workbook = data as IWorkbookData;
+  assert.equal(workbook.id, workbookId);
+  assert.deepEqual(workbook.sheetOrder, ['sheet-1']);
+  const sheet = workbook.sheets['sheet-1'];
+  assert.equal(sheet?.name, 'Sheet1');
+  assert.equal(sheet?.rowCount, 3);
+  assert.equal(sheet?.columnCount, 2);
+  assert.deepEqual(sheet?.cellData?.[0]?.[0], { v: 'Item' });
+  assert.deepEqual(sheet?.cellData?.[1]?.[1], { v: 1200 });
+  assert.deepEqual(sheet?.cellData?.[2]?.[1], { f: '=SUM(B2)' });
+}
+
+async function checkUpgradeFrom(version: number): Promise<void> {
+  const name = `sheetgrid-fixture-v${version}`;
+
+  if (version > 0) {
+    const old = await openDatabase(name, version);
+    await seed(old, version);
+    old.close();
+  }
+
+  const db = await openDatabase(name);
+  try {
+    assert.equal(db.version, LATEST_DB_VERSION);
+    for (const store of ['chat_history', 'chats', 'workbook_data', 'workbooks', 'workbook_versions', 'workbook_mutations']) {
+      assert.ok(db.objectStoreNames.contains(store), `missing store ${store}`);
+    }
+    if (version === 0) return;
+
+    const workbooks = await getAll<{ id: string; name: string }>(db, 'workbooks');
+    assert.equal(workbooks.length, 1);
+    const workbookId = workbooks[0].id;
+    if (version >= 3) assert.equal(workbookId, WORKBOOK_ID);
+
+    const snapshots = await getAll<{ id: string; data: unknown }>(db, 'workbook_data');
+    assert.deepEqual(snapshots.map(snapshot => snapshot.id), [workbookId]);
+    assertConverted(snapshots[0].data, workbookId);
+
+    if (version >= 2) {
+      const chats = await getAll<{ id: string; workbookId?: string }>(db, 'chats');
+      assert.deepEqual(chats.map(chat => [chat.id, chat.workbookId]), [[CHAT_ID, workbookId]]);
+    }
+
+    if (version >= 5) {
+      const versions = await getAll<{ workbookId: string; data: unknown }>(db, 'workbook_versions');
+      assert.equal(versions.length, 1);
+      assertConverted(versions[0].data, workbookId);
+    }
+  } finally {
+    db.close();
+  }
+}
+
+async function main(): Promise<void> {
+  let failures = 0;
+  for (let version = 0; version < LATEST_DB_VERSION; version++) {
+    try {
+      await checkUpgradeFrom(version);
+      console.log(`✓ v${version} -> v${LATEST_DB_VERSION}`);
+    } catch (error) {
+      failures++;
+      console.error(`✗ v${version} -> v${LATEST_DB_VERSION}`, error);
+    }
+  }
+  if (failures > 0) process.exit(1);
+}
+
+main();
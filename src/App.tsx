@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { Routes, Route, useLocation } from 'react-router-dom';
 import { useUser, useStackApp, StackHandler } from '@stackframe/react';
 import { stackClientApp } from './providers/StackAuthProvider';
@@ -8,7 +8,29 @@ import LandingPage from '@/components/LandingPage';
 import SignInPage from '@/components/SignInPage';
 import AuthButton from '@/components/AuthButton';
 import UserProfile from '@/components/UserProfile';
-import { getAllChats, createChat, deleteChat, type Chat } from './utils/indexeddb';
+import WorkbookSwitcher from '@/components/WorkbookSwitcher';
+import VersionHistoryPanel from '@/components/VersionHistoryPanel';
+import DefinedNamesPanel from '@/components/DefinedNamesPanel';
+import RestoreBackupDialog from '@/components/RestoreBackupDialog';
+import StorageStatus from '@/components/StorageStatus';
+import SaveStatusIndicator from '@/components/SaveStatusIndicator';
+import {
+  getAllChats,
+  createChat,
+  updateChat,
+  deleteChat,
+  type Chat,
+  getAllWorkbooks,
+  createWorkbook,
+  updateWorkbook,
+  duplicateWorkbook,
+  deleteWorkbook,
+  type WorkbookMeta,
+} from './utils/indexeddb';
+import { onSyncMessage } from './utils/crossTab';
+import { downloadBackup } from './utils/backup';
+import { requestPersistentStorage } from './utils/storage';
+import { toPersistenceError, type PersistenceError } from './utils/persistenceError';
 
 function HandlerRoutes() {
   const location = useLocation();
@@ -37,6 +59,13 @@ function App() {
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [activeChatTitle, setActiveChatTitle] = useState<string>('New Chat');
   const [allChats, setAllChats] = useState<Chat[]>([]);
+  const [activeWorkbookId, setActiveWorkbookId] = useState<string | null>(null);
+  const [allWorkbooks, setAllWorkbooks] = useState<WorkbookMeta[]>([]);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showDefinedNames, setShowDefinedNames] = useState(false);
+  const [isWorkbookReadOnly, setIsWorkbookReadOnly] = useState(false);
+  const [showRestoreBackup, setShowRestoreBackup] = useState(false);
+  const [initError, setInitError] = useState<PersistenceError | null>(null); // Saved data couldn't be opened
   const isResizingRef = useRef(false);
 
   // Save chat width to localStorage whenever it changes
@@ -46,6 +75,13 @@ function App() {
     }
   }, [chatWidth]);
 
+  // Remember the open workbook across reloads
+  useEffect(() => {
+    if (typeof window !== 'undefined' && activeWorkbookId) {
+      localStorage.setItem('activeWorkbookId', activeWorkbookId);
+    }
+  }, [activeWorkbookId]);
+
   // Handle resize
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
@@ -74,11 +110,18 @@ function App() {
   }, []);
 
   // Load all chats and initialize
-  const loadAllChats = async () => {
+  const loadAllChats = useCallback(async () => {
     const chats = await getAllChats();
     setAllChats(chats);
     return chats;
-  };
+  }, []);
+
+  // Load the workbook catalog
+  const loadAllWorkbooks = useCallback(async () => {
+    const workbooks = await getAllWorkbooks();
+    setAllWorkbooks(workbooks);
+    return workbooks;
+  }, []);
 
   // Disable swipe back/forward navigation gestures
   useEffect(() => {
@@ -157,49 +200,110 @@ function App() {
     };
   }, []);
 
-  // Load or create initial chat - prioritize loading from IndexedDB
+  // Show the most recent chat about a workbook, starting one if it has none
+  const openLatestChatForWorkbook = useCallback(async (workbookId: string) => {
+    const chats = await loadAllChats();
+    // Chats are sorted by updatedAt descending, so the first match is the latest
+    const latestChat = chats.find(c => c.workbookId === workbookId);
+
+    if (latestChat) {
+      setActiveChatId(latestChat.id);
+      setActiveChatTitle(latestChat.title);
+      console.log('Loaded existing chat from IndexedDB:', latestChat.title);
+    } else {
+      console.log('No existing chats for workbook, creating new chat');
+      const newChat = await createChat(undefined, workbookId);
+      setActiveChatId(newChat.id);
+      setActiveChatTitle(newChat.title);
+      await loadAllChats(); // Reload to include new chat
+    }
+  }, [loadAllChats]);
+
+  // Switch the open workbook and bring up a chat about it
+  const selectWorkbook = useCallback(async (workbookId: string) => {
+    setActiveWorkbookId(workbookId);
+    await openLatestChatForWorkbook(workbookId);
+  }, [openLatestChatForWorkbook]);
+
+  // Open the last used workbook (or create one if the catalog is empty) and its latest chat
   useEffect(() => {
-    const initializeChat = async () => {
+    const initialize = async () => {
       try {
-        // Always try to load existing chats from IndexedDB first
-        const chats = await loadAllChats();
-        
-        if (chats.length > 0) {
-          // Load most recently updated chat (chats are sorted by updatedAt descending)
-          const latestChat = chats[0];
-          setActiveChatId(latestChat.id);
-          setActiveChatTitle(latestChat.title);
-          console.log('Loaded existing chat from IndexedDB:', latestChat.title);
+        // Everything lives in IndexedDB - ask the browser not to evict it
+        requestPersistentStorage();
+
+        const workbooks = await loadAllWorkbooks();
+        const savedWorkbookId = localStorage.getItem('activeWorkbookId');
+        const savedWorkbook = workbooks.find(w => w.id === savedWorkbookId);
+
+        let workbookId: string;
+        if (savedWorkbook) {
+          workbookId = savedWorkbook.id;
+        } else if (workbooks.length > 0) {
+          // Fall back to the most recently modified workbook
+          workbookId = workbooks[0].id;
         } else {
-          // Only create a new chat if absolutely no chats exist
-          console.log('No existing chats found, creating new chat');
-          const newChat = await createChat();
-          setActiveChatId(newChat.id);
-          setActiveChatTitle(newChat.title);
-          await loadAllChats(); // Reload to include new chat
+          console.log('No existing workbooks found, creating new workbook');
+          const newWorkbook = await createWorkbook();
+          workbookId = newWorkbook.id;
+          await loadAllWorkbooks();
         }
+
+        await selectWorkbook(workbookId);
       } catch (error) {
-        console.error('Error initializing chat:', error);
+        console.error('Error initializing workbook and chat:', error);
         // On error, don't create a new chat - let user see the error state
+        setInitError(toPersistenceError('open saved data', error));
       }
     };
-    initializeChat();
-  }, []);
+    initialize();
+  }, [loadAllWorkbooks, selectWorkbook]);
+
+  // Keep the catalog and chat list in step with changes made in other tabs
+  useEffect(() => {
+    return onSyncMessage(async (message) => {
+      try {
+        if (message.type === 'data-restored') {
+          // Another tab restored a backup - nothing held in memory here can be trusted
+          window.location.reload();
+        } else if (message.type === 'workbooks-changed') {
+          const workbooks = await loadAllWorkbooks();
+          // The open workbook was deleted elsewhere - move on to another one
+          if (activeWorkbookId && !workbooks.some(w => w.id === activeWorkbookId) && workbooks.length > 0) {
+            await selectWorkbook(workbooks[0].id);
+          }
+        } else if (message.type === 'chats-changed') {
+          const chats = await loadAllChats();
+          const activeChat = chats.find(c => c.id === activeChatId);
+          if (activeChat) {
+            setActiveChatTitle(activeChat.title);
+          } else if (activeChatId && activeWorkbookId) {
+            await openLatestChatForWorkbook(activeWorkbookId);
+          }
+        }
+      } catch (error) {
+        console.error('Error applying changes from another tab:', error);
+      }
+    });
+  }, [activeWorkbookId, activeChatId, loadAllChats, loadAllWorkbooks, openLatestChatForWorkbook, selectWorkbook]);
 
   // Update chat title and reload chats when switching chats
   useEffect(() => {
     const loadChatTitle = async () => {
       if (activeChatId) {
-        await loadAllChats(); // Refresh chat list
-        const chats = await getAllChats();
-        const chat = chats.find(c => c.id === activeChatId);
-        if (chat) {
-          setActiveChatTitle(chat.title);
+        try {
+          const chats = await loadAllChats(); // Refresh chat list
+          const chat = chats.find(c => c.id === activeChatId);
+          if (chat) {
+            setActiveChatTitle(chat.title);
+          }
+        } catch (error) {
+          console.error('Error loading chat title:', error);
         }
       }
     };
     loadChatTitle();
-  }, [activeChatId]);
+  }, [activeChatId, loadAllChats]);
 
   // Note: handleChatCreated is defined but not currently used - keeping for future use
   // TypeScript configuration allows unused functions
@@ -210,7 +314,7 @@ function App() {
 
   const handleCreateNewChat = async () => {
     try {
-      const newChat = await createChat();
+      const newChat = await createChat(undefined, activeWorkbookId || undefined);
       setActiveChatId(newChat.id);
       setActiveChatTitle(newChat.title);
       await loadAllChats(); // Refresh chat list
@@ -221,6 +325,18 @@ function App() {
 
   const handleSelectChat = async (chatId: string) => {
     setActiveChatId(chatId);
+
+    // Opening a chat opens the workbook it was about
+    const chat = allChats.find(c => c.id === chatId);
+    if (chat?.workbookId && allWorkbooks.some(w => w.id === chat.workbookId)) {
+      if (chat.workbookId !== activeWorkbookId) {
+        setActiveWorkbookId(chat.workbookId);
+      }
+    } else if (chat && activeWorkbookId) {
+      // Chats from before workbooks existed, or whose workbook was deleted, adopt the workbook they're opened with
+      await updateChat(chat.id, { workbookId: activeWorkbookId });
+    }
+
     await loadAllChats(); // Refresh to get latest titles
   };
 
@@ -229,18 +345,22 @@ function App() {
       await deleteChat(chatId);
       await loadAllChats(); // Refresh chat list
       
-      // If we deleted the active chat, switch to another one
+      // If we deleted the active chat, switch to another one about the same workbook
       if (activeChatId === chatId) {
-        const updatedChats = await getAllChats();
-        if (updatedChats.length > 0) {
-          setActiveChatId(updatedChats[0].id);
-          setActiveChatTitle(updatedChats[0].title);
+        if (activeWorkbookId) {
+          await openLatestChatForWorkbook(activeWorkbookId);
         } else {
-          // No chats left, create a new one
-          const newChat = await createChat();
-          setActiveChatId(newChat.id);
-          setActiveChatTitle(newChat.title);
-          await loadAllChats();
+          const updatedChats = await getAllChats();
+          if (updatedChats.length > 0) {
+            setActiveChatId(updatedChats[0].id);
+            setActiveChatTitle(updatedChats[0].title);
+          } else {
+            // No chats left, create a new one
+            const newChat = await createChat();
+            setActiveChatId(newChat.id);
+            setActiveChatTitle(newChat.title);
+            await loadAllChats();
+          }
         }
       }
     } catch (error) {
@@ -248,6 +368,84 @@ function App() {
     }
   };
 
+  const handleCreateWorkbook = async () => {
+    try {
+      const newWorkbook = await createWorkbook();
+      await loadAllWorkbooks();
+      await selectWorkbook(newWorkbook.id);
+    } catch (error) {
+      console.error('Error creating workbook:', error);
+    }
+  };
+
+  // Called when the spreadsheet itself adds a workbook (e.g. an imported file)
+  const handleWorkbookCreated = async (workbook: WorkbookMeta) => {
+    try {
+      await loadAllWorkbooks();
+      await selectWorkbook(workbook.id);
+    } catch (error) {
+      console.error('Error opening new workbook:', error);
+    }
+  };
+
+  const handleRenameWorkbook = async (workbookId: string, name: string) => {
+    try {
+      await updateWorkbook(workbookId, { name });
+      await loadAllWorkbooks();
+    } catch (error) {
+      console.error('Error renaming workbook:', error);
+      alert('Failed to rename workbook. Please try again.');
+    }
+  };
+
+  const handleDuplicateWorkbook = async (workbookId: string) => {
+    try {
+      // Flush pending edits so the copy matches what's on screen
+      if (workbookId === activeWorkbookId) {
+        await window.saveWorkbookData?.();
+      }
+      const copy = await duplicateWorkbook(workbookId);
+      await loadAllWorkbooks();
+      await selectWorkbook(copy.id);
+    } catch (error) {
+      console.error('Error duplicating workbook:', error);
+      alert('Failed to duplicate workbook. Please try again.');
+    }
+  };
+
+  const handleDeleteWorkbook = async (workbookId: string) => {
+    try {
+      await deleteWorkbook(workbookId);
+      const workbooks = await loadAllWorkbooks();
+      await loadAllChats(); // Its chats are no longer bound to it
+
+      // If we deleted the open workbook, switch to another one
+      if (activeWorkbookId === workbookId) {
+        if (workbooks.length > 0) {
+          await selectWorkbook(workbooks[0].id);
+        } else {
+          const newWorkbook = await createWorkbook();
+          await loadAllWorkbooks();
+          await selectWorkbook(newWorkbook.id);
+        }
+      }
+    } catch (error) {
+      console.error('Error deleting workbook:', error);
+      alert('Failed to delete workbook. Please try again.');
+    }
+  };
+
+  const handleBackup = async () => {
+    try {
+      // Flush the open workbook's pending edits so the backup has them
+      await window.saveWorkbookData?.();
+      await downloadBackup();
+    } catch (error) {
+      console.error('Error creating backup:', error);
+      alert('Failed to create backup. Please try again.');
+    }
+  };
+
   const handleResizeStart = () => {
     isResizingRef.current = true;
     document.body.style.cursor = 'col-resize';
@@ -314,19 +512,96 @@ function App() {
             </div>
             <span className="font-semibold text-gray-900">SheetGrid</span>
           </div>
+          <div className="h-5 w-px bg-gray-200" />
+          <WorkbookSwitcher
+            workbooks={allWorkbooks}
+            activeWorkbookId={activeWorkbookId}
+            onSelectWorkbook={selectWorkbook}
+            onCreateWorkbook={handleCreateWorkbook}
+            onRenameWorkbook={handleRenameWorkbook}
+            onDuplicateWorkbook={handleDuplicateWorkbook}
+            onDeleteWorkbook={handleDeleteWorkbook}
+            onBackup={handleBackup}
+            onRestore={() => setShowRestoreBackup(true)}
+            onOpen={loadAllWorkbooks}
+          />
         </div>
         <div className="flex items-center gap-3">
+          <SaveStatusIndicator />
+          <StorageStatus />
+          <button
+            onClick={() => setShowDefinedNames(!showDefinedNames)}
+            className={`flex items-center gap-1 px-2 py-1 text-sm rounded transition-colors ${
+              showDefinedNames ? 'bg-blue-100 text-blue-900' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            title="Named ranges"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+            Names
+          </button>
+          <button
+            onClick={() => setShowVersionHistory(!showVersionHistory)}
+            className={`flex items-center gap-1 px-2 py-1 text-sm rounded transition-colors ${
+              showVersionHistory ? 'bg-blue-100 text-blue-900' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            title="Version history"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            History
+          </button>
           <AuthButton />
         </div>
       </div>
 
+      {initError && (
+        <div className="flex items-center justify-between gap-3 px-4 py-2 text-sm text-red-800 bg-red-50 border-b border-red-200 flex-shrink-0">
+          <span>
+            {initError.message}. Your saved workbooks and chats can&apos;t be shown until it opens.
+          </span>
+          <button
+            onClick={() => window.location.reload()}
+            className="px-2 py-1 text-sm rounded border border-red-300 hover:bg-red-100 transition-colors flex-shrink-0"
+          >
+            Reload
+          </button>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex flex-1 overflow-hidden">
         {/* Left Panel - Spreadsheet */}
         <div className="flex-1 overflow-hidden">
-          <Spreadsheet />
+          <Spreadsheet
+            workbookId={activeWorkbookId}
+            onWorkbookCreated={handleWorkbookCreated}
+            onReadOnlyChange={setIsWorkbookReadOnly}
+          />
         </div>
 
+        {/* Named Ranges */}
+        {showDefinedNames && (
+          <div className="w-80 border-l border-gray-200 flex-shrink-0">
+            <DefinedNamesPanel
+              workbookId={activeWorkbookId}
+              onClose={() => setShowDefinedNames(false)}
+            />
+          </div>
+        )}
+
+        {/* Version History */}
+        {showVersionHistory && (
+          <div className="w-80 border-l border-gray-200 flex-shrink-0">
+            <VersionHistoryPanel
+              workbookId={activeWorkbookId}
+              onClose={() => setShowVersionHistory(false)}
+            />
+          </div>
+        )}
+
         {/* Right Panel - AI Chat */}
         {chatVisible && (
           <>
@@ -355,12 +630,19 @@ function App() {
                   onSelectChat={handleSelectChat}
                   onDeleteChat={handleDeleteChat}
                   allChats={allChats}
+                  activeWorkbookId={activeWorkbookId}
+                  workbooks={allWorkbooks}
+                  isWorkbookReadOnly={isWorkbookReadOnly}
                 />
               )}
             </div>
           </>
         )}
       </div>
+
+      {showRestoreBackup && (
+        <RestoreBackupDialog onClose={() => setShowRestoreBackup(false)} />
+      )}
     </div>
   );
 }
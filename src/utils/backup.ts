@@ -0,0 +1,334 @@
+// Full local backup and restore of everything in sheetgrid_db as a single zip archive
+
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import type { IWorkbookData } from '@univerjs/core';
+import { initDB, STORES, generateWorkbookId, type Chat, type WorkbookMeta, type WorkbookMutation, type WorkbookVersion } from './indexeddb';
+import { broadcastSync } from './crossTab';
+import { unpackSnapshot, type StoredSnapshot } from './compression';
+
+const BACKUP_FORMAT = 'sheetgrid-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  dbVersion: number;
+  createdAt: string;
+  stores: Record<string, number>; // Record count per object store
+}
+
+// A record from any object store; the stores this file knows are read through `recordsOf`
+export type StoredRecord = Record<string, unknown>;
+
+export interface Backup {
+  manifest: BackupManifest;
+  stores: Record<string, StoredRecord[]>;
+}
+
+// Records of the stores merging looks into, with snapshots expanded to plain `data`
+interface WorkbookDataRecord {
+  id: string;
+  data?: IWorkbookData;
+}
+
+interface ChatMessageRecord {
+  id?: number;
+  chatId: string;
+}
+
+// 'replace' wipes local data first; 'merge' keeps it and adds what the backup has on top
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  workbooksAdded: number;
+  workbooksRenamed: number; // Same id as a different local workbook - restored as a copy
+  workbooksSkipped: number; // Already present and unchanged
+  chatsAdded: number;
+  chatsRenamed: number;
+  chatsSkipped: number;
+  records: number; // Total records written
+}
+
+function storeFileName(storeName: string): string {
+  return `stores/${storeName}.json`;
+}
+
+function readAllRecords(db: IDBDatabase, storeName: string): Promise<StoredRecord[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Snapshots are stored gzipped; the archive is compressed as a whole, so keep them as readable JSON
+async function expandSnapshot(record: StoredRecord): Promise<StoredRecord> {
+  if (!record?.compressedData) return record;
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { compressedData, encoding, ...rest } = record;
+  return { ...rest, data: await unpackSnapshot(record as StoredSnapshot) };
+}
+
+// Every store is exported, so stores added later are covered without changes here
+export async function createBackup(): Promise<Blob> {
+  const db = await initDB();
+  const zip = new JSZip();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    dbVersion: db.version,
+    createdAt: new Date().toISOString(),
+    stores: {},
+  };
+
+  for (const storeName of Array.from(db.objectStoreNames)) {
+    const records = await Promise.all((await readAllRecords(db, storeName)).map(expandSnapshot));
+    manifest.stores[storeName] = records.length;
+    zip.file(storeFileName(storeName), JSON.stringify(records));
+  }
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+export async function downloadBackup(): Promise<void> {
+  const blob = await createBackup();
+  const date = new Date().toISOString().slice(0, 10);
+  saveAs(blob, `sheetgrid-backup-${date}.zip`);
+}
+
+export async function readBackup(file: Blob): Promise<Backup> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a SheetGrid backup (not a zip archive)');
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error('This file is not a SheetGrid backup (manifest.json is missing)');
+  }
+
+  const manifest: BackupManifest = JSON.parse(await manifestFile.async('string'));
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a SheetGrid backup');
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error('This backup was made by a newer version of SheetGrid');
+  }
+
+  const stores: Record<string, StoredRecord[]> = {};
+  for (const storeName of Object.keys(manifest.stores)) {
+    const storeFile = zip.file(storeFileName(storeName));
+    if (!storeFile) {
+      throw new Error(`Backup is incomplete: ${storeName} is missing`);
+    }
+    stores[storeName] = JSON.parse(await storeFile.async('string'));
+  }
+
+  return { manifest, stores };
+}
+
+function putRecord(store: IDBObjectStore, record: object): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = store.put(record);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Drop the key of an auto-increment record so the store assigns a fresh one
+function withoutId<T extends { id?: unknown }>(record: T): Omit<T, 'id'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { id, ...rest } = record;
+  return rest;
+}
+
+function emptySummary(mode: RestoreMode): RestoreSummary {
+  return {
+    mode,
+    workbooksAdded: 0,
+    workbooksRenamed: 0,
+    workbooksSkipped: 0,
+    chatsAdded: 0,
+    chatsRenamed: 0,
+    chatsSkipped: 0,
+    records: 0,
+  };
+}
+
+async function replaceAll(transaction: IDBTransaction, backup: Backup, storeNames: string[]): Promise<RestoreSummary> {
+  const summary = emptySummary('replace');
+
+  for (const storeName of storeNames) {
+    const store = transaction.objectStore(storeName);
+    await new Promise<void>((resolve, reject) => {
+      const request = store.clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    // Keys are kept as-is, including auto-increment ones, so the log order survives
+    for (const record of backup.stores[storeName] || []) {
+      await putRecord(store, record);
+      summary.records++;
+    }
+  }
+
+  summary.workbooksAdded = backup.stores[STORES.WORKBOOKS]?.length || 0;
+  summary.chatsAdded = backup.stores[STORES.CHATS]?.length || 0;
+  return summary;
+}
+
+// A known store's records in the backup, as the type the app writes them with
+function recordsOf<T>(backup: Backup, storeName: string): T[] {
+  return (backup.stores[storeName] || []) as unknown as T[];
+}
+
+async function mergeAll(transaction: IDBTransaction, backup: Backup, storeNames: string[]): Promise<RestoreSummary> {
+  const summary = emptySummary('merge');
+  const getAll = <T = StoredRecord>(storeName: string) => new Promise<T[]>((resolve, reject) => {
+    const request = transaction.objectStore(storeName).getAll();
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject(request.error);
+  });
+  const put = async (storeName: string, record: object) => {
+    await putRecord(transaction.objectStore(storeName), record);
+    summary.records++;
+  };
+
+  // Where each backed-up workbook/chat lands locally; null means it's already here unchanged
+  const workbookIds = new Map<string, string | null>();
+  const chatIds = new Map<string, string | null>();
+
+  const localWorkbooks = new Map((await getAll<WorkbookMeta>(STORES.WORKBOOKS)).map(workbook => [workbook.id, workbook]));
+  const renamedWorkbooks = new Map<string, string>(); // New id -> new name
+  for (const workbook of recordsOf<WorkbookMeta>(backup, STORES.WORKBOOKS)) {
+    const local = localWorkbooks.get(workbook.id);
+    if (!local) {
+      workbookIds.set(workbook.id, workbook.id);
+      await put(STORES.WORKBOOKS, workbook);
+      summary.workbooksAdded++;
+    } else if (local.updatedAt === workbook.updatedAt) {
+      workbookIds.set(workbook.id, null);
+      summary.workbooksSkipped++;
+    } else {
+      // Same id, different content - keep both rather than overwrite local work
+      const newId = generateWorkbookId();
+      const name = `${workbook.name} (restored)`;
+      workbookIds.set(workbook.id, newId);
+      renamedWorkbooks.set(newId, name);
+      await put(STORES.WORKBOOKS, { ...workbook, id: newId, name });
+      summary.workbooksRenamed++;
+    }
+  }
+
+  for (const record of recordsOf<WorkbookDataRecord>(backup, STORES.WORKBOOK_DATA)) {
+    const targetId = workbookIds.get(record.id);
+    if (!targetId) continue;
+    const name = renamedWorkbooks.get(targetId);
+    await put(STORES.WORKBOOK_DATA, {
+      ...record,
+      id: targetId,
+      data: name && record.data ? { ...record.data, name } : record.data,
+    });
+  }
+
+  for (const version of recordsOf<WorkbookVersion>(backup, STORES.WORKBOOK_VERSIONS)) {
+    const targetId = workbookIds.get(version.workbookId);
+    if (!targetId) continue;
+    await put(STORES.WORKBOOK_VERSIONS, { ...withoutId(version), workbookId: targetId });
+  }
+
+  // Appended in their original order so replay stays correct
+  const mutations = [...recordsOf<WorkbookMutation>(backup, STORES.WORKBOOK_MUTATIONS)].sort((a, b) => a.id - b.id);
+  for (const mutation of mutations) {
+    const targetId = workbookIds.get(mutation.workbookId);
+    if (!targetId) continue;
+    await put(STORES.WORKBOOK_MUTATIONS, { ...withoutId(mutation), workbookId: targetId });
+  }
+
+  const localChats = new Map((await getAll<Chat>(STORES.CHATS)).map(chat => [chat.id, chat]));
+  for (const chat of recordsOf<Chat>(backup, STORES.CHATS)) {
+    const local = localChats.get(chat.id);
+    // Follow the workbook if it was restored under a new id
+    const workbookId = chat.workbookId ? (workbookIds.get(chat.workbookId) || chat.workbookId) : undefined;
+    if (!local) {
+      chatIds.set(chat.id, chat.id);
+      await put(STORES.CHATS, { ...chat, workbookId });
+      summary.chatsAdded++;
+    } else if (local.updatedAt === chat.updatedAt) {
+      chatIds.set(chat.id, null);
+      summary.chatsSkipped++;
+    } else {
+      const newId = `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      chatIds.set(chat.id, newId);
+      await put(STORES.CHATS, { ...chat, id: newId, workbookId, title: `${chat.title} (restored)` });
+      summary.chatsRenamed++;
+    }
+  }
+
+  for (const message of recordsOf<ChatMessageRecord>(backup, STORES.CHAT_HISTORY)) {
+    const targetId = chatIds.get(message.chatId);
+    if (!targetId) continue;
+    await put(STORES.CHAT_HISTORY, { ...withoutId(message), chatId: targetId });
+  }
+
+  // Stores this code doesn't know about yet: add records whose keys are free
+  const knownStores = new Set<string>(Object.values(STORES));
+  for (const storeName of storeNames.filter(name => !knownStores.has(name))) {
+    const localKeys = new Set((await getAll(storeName)).map(record => JSON.stringify(record.id)));
+    for (const record of backup.stores[storeName] || []) {
+      if (!localKeys.has(JSON.stringify(record.id))) {
+        await put(storeName, record);
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Write a backup into IndexedDB in a single transaction, so a failure leaves local data untouched.
+ * Other tabs are told to reload afterwards; the caller should reload this one too.
+ */
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<RestoreSummary> {
+  const db = await initDB();
+  if (backup.manifest.dbVersion > db.version) {
+    throw new Error('This backup was made by a newer version of SheetGrid');
+  }
+
+  const storeNames = Object.keys(backup.stores).filter(storeName => db.objectStoreNames.contains(storeName));
+  const skippedStores = Object.keys(backup.stores).filter(storeName => !db.objectStoreNames.contains(storeName));
+  if (skippedStores.length > 0) {
+    console.warn('Backup contains stores this version does not have, skipping:', skippedStores);
+  }
+
+  // Replace clears every local store, not just the ones in the backup
+  const transactionStores = mode === 'replace' ? Array.from(db.objectStoreNames) : storeNames;
+  const transaction = db.transaction(transactionStores, 'readwrite');
+  const completed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Restore was aborted'));
+  });
+
+  let summary: RestoreSummary;
+  try {
+    summary = mode === 'replace'
+      ? await replaceAll(transaction, backup, transactionStores)
+      : await mergeAll(transaction, backup, storeNames);
+  } catch (error) {
+    transaction.abort();
+    await completed.catch(() => {});
+    throw error;
+  }
+  await completed;
+
+  broadcastSync({ type: 'data-restored' });
+  return summary;
+}
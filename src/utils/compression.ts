@@ -0,0 +1,65 @@
+// Gzip compression for stored workbook snapshots, which are large and highly repetitive JSON
+
+import type { IWorkbookData } from '@univerjs/core';
+
+// Fields a snapshot occupies on its record: plain `data`, or gzipped JSON in `compressedData`
+export interface StoredSnapshot {
+  data?: IWorkbookData;
+  compressedData?: ArrayBuffer;
+  encoding?: 'gzip';
+}
+
+function supportsCompression(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+}
+
+async function compressJSON(value: unknown): Promise<ArrayBuffer> {
+  const stream = new Blob([JSON.stringify(value)]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+}
+
+async function decompressJSON<T>(bytes: ArrayBuffer): Promise<T> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return JSON.parse(await new Response(stream).text());
+}
+
+// Approximate stored size of a snapshot (UTF-16 length of its JSON is close enough for display)
+export function estimateDataSize(data: unknown): number {
+  if (data === undefined || data === null) return 0;
+  try {
+    return JSON.stringify(data).length;
+  } catch {
+    return 0;
+  }
+}
+
+// Bytes a stored snapshot takes up, compressed or not
+export function storedSnapshotSize(record: StoredSnapshot | null | undefined): number {
+  if (!record) return 0;
+  return record.compressedData ? record.compressedData.byteLength : estimateDataSize(record.data);
+}
+
+/**
+ * Turn a snapshot into the fields to store on its record. Compression runs before any
+ * IndexedDB transaction is opened - awaiting it inside one would let the transaction commit.
+ */
+export async function packSnapshot(data: IWorkbookData | null | undefined): Promise<StoredSnapshot> {
+  if (data === undefined || data === null || !supportsCompression()) {
+    return { data: data ?? undefined };
+  }
+  try {
+    return { data: undefined, compressedData: await compressJSON(data), encoding: 'gzip' };
+  } catch (error) {
+    console.warn('⚠️ Could not compress snapshot, storing it uncompressed:', error);
+    return { data };
+  }
+}
+
+// Read a snapshot back from a record written by packSnapshot (or by older versions that stored it plain)
+export async function unpackSnapshot(record: StoredSnapshot | null | undefined): Promise<IWorkbookData | null> {
+  if (!record) return null;
+  if (record.compressedData) {
+    return decompressJSON<IWorkbookData>(record.compressedData);
+  }
+  return record.data ?? null;
+}
@@ -0,0 +1,101 @@
+// Cross-tab coordination: one tab edits a workbook or chat at a time (Web Locks),
+// and every tab hears about changes the others persist (BroadcastChannel)
+
+const CHANNEL_NAME = 'sheetgrid_sync';
+const LOCK_PREFIX = 'sheetgrid_edit_';
+
+export type SyncMessage =
+  // Mutations the editing tab just appended to a workbook's log; lastId orders them against the log
+  | { type: 'workbook-mutations'; workbookId: string; lastId: number; mutations: { mutationId: string; params: Record<string, unknown> }[] }
+  // The stored snapshot was replaced wholesale (restore), so viewers must reload it
+  | { type: 'workbook-replaced'; workbookId: string }
+  // Workbooks were created, renamed, duplicated or deleted
+  | { type: 'workbooks-changed' }
+  // Chats were created, renamed, rebound or deleted
+  | { type: 'chats-changed' }
+  // The editing tab saved a chat's messages
+  | { type: 'chat-messages-saved'; chatId: string }
+  // A backup was restored into the database - everything in memory is stale
+  | { type: 'data-restored' };
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+// Tell every other tab about a change this tab persisted
+export function broadcastSync(message: SyncMessage): void {
+  try {
+    getChannel()?.postMessage(message);
+  } catch (error) {
+    console.error('Error broadcasting sync message:', error);
+  }
+}
+
+// Listen for changes persisted by other tabs; returns an unsubscribe function
+export function onSyncMessage(listener: (message: SyncMessage) => void): () => void {
+  const syncChannel = getChannel();
+  if (!syncChannel) return () => {};
+
+  const handler = (event: MessageEvent<SyncMessage>) => listener(event.data);
+  syncChannel.addEventListener('message', handler);
+  return () => syncChannel.removeEventListener('message', handler);
+}
+
+/**
+ * Try to become the editing tab for a resource such as `workbook_<id>` or `chat_<id>`.
+ * onChange(true) means this tab may write; onChange(false) means another tab holds the lock,
+ * in which case this tab waits in line and gets onChange(true) once that tab lets go.
+ * Returns a function that releases the lock (or leaves the queue).
+ */
+export function acquireEditLock(resource: string, onChange: (canEdit: boolean) => void): () => void {
+  // Without Web Locks there's nothing to coordinate with - behave like a single tab
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onChange(true);
+    return () => {};
+  }
+
+  const lockName = `${LOCK_PREFIX}${resource}`;
+  const abortController = new AbortController();
+  let released = false;
+  let release: () => void = () => {};
+  const held = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  navigator.locks.request(lockName, { ifAvailable: true }, async (lock) => {
+    if (released) return;
+    if (lock) {
+      onChange(true);
+      await held;
+      return;
+    }
+
+    onChange(false);
+    // Queue up so this tab takes over when the editing tab closes or moves on
+    try {
+      await navigator.locks.request(lockName, { signal: abortController.signal }, async () => {
+        if (released) return;
+        onChange(true);
+        await held;
+      });
+    } catch (error) {
+      if ((error as DOMException)?.name !== 'AbortError') {
+        console.error(`Error waiting for edit lock ${resource}:`, error);
+      }
+    }
+  }).catch((error) => {
+    console.error(`Error requesting edit lock ${resource}:`, error);
+  });
+
+  return () => {
+    released = true;
+    release();
+    abortController.abort();
+  };
+}
@@ -0,0 +1,400 @@
+// Delimited text (CSV, TSV, pipe- or semicolon-separated) to Univer workbook data. The file is
+// sniffed first (encoding, delimiter, header row and column types) so the import dialog can
+// show a preview and let the user override each guess before anything lands in a sheet.
+
+import type { ICellData, IWorkbookData, IWorksheetData } from '@univerjs/core';
+import { BooleanNumber, CellValueType, LocaleType } from '@univerjs/core';
+import { createStyleTable } from './xlsxStyles';
+import type { XLSXImportProgress } from './xlsxConverter';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type ColumnType = 'text' | 'number' | 'date' | 'boolean';
+
+// Day/month order for dates written with slashes or dots; ISO dates are always year first
+export type DateOrder = 'mdy' | 'dmy';
+
+export interface DelimitedImportOptions {
+  encoding: TextEncoding;
+  delimiter: string;
+  hasHeader: boolean;
+  dateOrder: DateOrder;
+  columnTypes: ColumnType[];
+}
+
+export interface DelimitedFileAnalysis extends DelimitedImportOptions {
+  previewRows: string[][]; // The first rows as text, header included
+  rowCount: number; // Rows in the whole file, header included
+}
+
+export const DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+  { value: '|', label: 'Pipe' },
+];
+
+export const DELIMITED_FILE_PATTERN = /\.(csv|tsv|tab|psv|txt)$/i;
+
+// Rows shown in the preview, and rows sampled to guess delimiter and column types
+const PREVIEW_ROWS = 20;
+const SAMPLE_ROWS = 200;
+
+// Rows converted between progress reports
+const PROGRESS_INTERVAL_ROWS = 5000;
+
+// Days between Excel's day zero (1899-12-30 in the 1900 system) and the Unix epoch
+const EXCEL_EPOCH_OFFSET_DAYS = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ---------------------------------------------------------------------------
+// Encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Guesses the encoding of a text file: a byte-order mark wins, then UTF-16 without a BOM
+ * (every other byte zero in ASCII text), then UTF-8 if the bytes are valid UTF-8, and
+ * Windows-1252, what Excel on Windows writes, otherwise.
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sampleLength = Math.min(bytes.length - (bytes.length % 2), 4096);
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let index = 0; index < sampleLength; index += 2) {
+    if (bytes[index] === 0) evenZeros++;
+    if (bytes[index + 1] === 0) oddZeros++;
+  }
+  const pairs = sampleLength / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.4 && evenZeros / pairs < 0.1) return 'utf-16le';
+  if (pairs > 0 && evenZeros / pairs > 0.4 && oddZeros / pairs < 0.1) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// TextDecoder drops the byte-order mark of the encoding it decodes
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Splits delimited text into rows of fields, following RFC 4180: fields may be quoted with
+ * double quotes, quoted fields may hold delimiters and line breaks, and "" is a literal quote.
+ * Stops after `maxRows` rows when given.
+ */
+export function parseDelimitedText(text: string, delimiter: string, maxRows = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let index = 0;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  while (index < text.length && rows.length < maxRows) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          field += '"';
+          index++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      field += char;
+    }
+    index++;
+  }
+  // The last line may not end in a line break
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    endRow();
+  }
+  return rows;
+}
+
+/**
+ * Picks the delimiter that splits the sample into the most consistent number of columns.
+ * `.tsv` and `.tab` files are tab-separated unless their content says otherwise.
+ */
+export function detectDelimiter(text: string, fileName: string): string {
+  const sample = text.slice(0, 64 * 1024);
+  let best = { delimiter: /\.(tsv|tab)$/i.test(fileName) ? '\t' : ',', score: 0 };
+
+  for (const { value: delimiter } of DELIMITERS) {
+    const rows = parseDelimitedText(sample, delimiter, SAMPLE_ROWS).filter(row => row.some(field => field !== ''));
+    if (rows.length === 0) continue;
+    const counts = new Map<number, number>();
+    rows.forEach(row => counts.set(row.length, (counts.get(row.length) || 0) + 1));
+    const [columns, rowsWithColumns] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    if (columns < 2) continue;
+    // Rows that agree on the column count matter most, then how many columns that gives
+    const score = (rowsWithColumns / rows.length) * 1000 + Math.min(columns, 100);
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+// ---------------------------------------------------------------------------
+// Values
+// ---------------------------------------------------------------------------
+
+const NUMBER_PATTERN = /^-?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?%?$/;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?Z?)?$/;
+const LOCAL_DATE_PATTERN = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4}|\d{2})(?: (\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false };
+
+// IDs, zip codes and phone numbers: digits with a leading zero lose it as numbers
+function hasLeadingZero(value: string): boolean {
+  return /^-?0\d/.test(value);
+}
+
+function parseNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === '' || !NUMBER_PATTERN.test(trimmed) || !/\d/.test(trimmed) || hasLeadingZero(trimmed)) return null;
+  const isPercent = trimmed.endsWith('%');
+  const number = Number(trimmed.replace(/,/g, '').replace(/%$/, ''));
+  if (!Number.isFinite(number)) return null;
+  return isPercent ? number / 100 : number;
+}
+
+function toSerial(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): number | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) return null;
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  const date = new Date(time);
+  // Rejects days past the end of the month, which Date.UTC would roll over
+  if (date.getUTCMonth() !== month - 1) return null;
+  return time / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+}
+
+/**
+ * Reads a date as an Excel serial number (days since 1899-12-30, time as the fraction),
+ * which is what spreadsheet cells hold for dates.
+ */
+function parseDate(value: string, dateOrder: DateOrder): { serial: number; hasTime: boolean } | null {
+  const trimmed = value.trim();
+  const iso = trimmed.match(ISO_DATE_PATTERN);
+  if (iso) {
+    const serial = toSerial(+iso[1], +iso[2], +iso[3], +(iso[4] || 0), +(iso[5] || 0), +(iso[6] || 0));
+    return serial === null ? null : { serial, hasTime: iso[4] !== undefined };
+  }
+  const local = trimmed.match(LOCAL_DATE_PATTERN);
+  if (local) {
+    const [first, second] = [+local[1], +local[2]];
+    const [month, day] = dateOrder === 'mdy' ? [first, second] : [second, first];
+    let year = +local[3];
+    if (local[3].length === 2) year += year < 30 ? 2000 : 1900;
+    const serial = toSerial(year, month, day, +(local[4] || 0), +(local[5] || 0), +(local[6] || 0));
+    return serial === null ? null : { serial, hasTime: local[4] !== undefined };
+  }
+  return null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const parsed = BOOLEAN_VALUES[value.trim().toLowerCase()];
+  return parsed === undefined ? null : parsed;
+}
+
+// Day first if any slash date can't be month first, e.g. 25/12/2024
+function detectDateOrder(rows: string[][]): DateOrder {
+  for (const row of rows) {
+    for (const value of row) {
+      const local = value.trim().match(LOCAL_DATE_PATTERN);
+      if (!local) continue;
+      if (+local[1] > 12 && +local[2] <= 12) return 'dmy';
+      if (+local[2] > 12 && +local[1] <= 12) return 'mdy';
+    }
+  }
+  return 'mdy';
+}
+
+/**
+ * Guesses each column's type from the sampled rows: the type every non-empty value in the
+ * column parses as. Columns with leading-zero numbers stay text so the zeros aren't lost.
+ */
+export function inferColumnTypes(rows: string[][], dateOrder: DateOrder): ColumnType[] {
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const types: ColumnType[] = [];
+  for (let column = 0; column < columnCount; column++) {
+    const values = rows.map(row => (row[column] ?? '').trim()).filter(value => value !== '');
+    if (values.length === 0) {
+      types.push('text');
+    } else if (values.every(value => parseBoolean(value) !== null)) {
+      types.push('boolean');
+    } else if (values.every(value => parseNumber(value) !== null)) {
+      types.push('number');
+    } else if (values.every(value => parseDate(value, dateOrder) !== null)) {
+      types.push('date');
+    } else {
+      types.push('text');
+    }
+  }
+  return types;
+}
+
+/**
+ * A header row is distinct text labels over data that isn't like them: a column of numbers,
+ * dates or booleans under a label, or, for text-only data, labels that never recur below.
+ */
+export function detectHeaderRow(rows: string[][], dateOrder: DateOrder): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  const labels = first.map(value => value.trim().toLowerCase());
+  if (labels.some(label => label === '' || parseNumber(label) !== null || parseDate(label, dateOrder) !== null)) {
+    return false;
+  }
+  if (new Set(labels).size !== labels.length) return false;
+  if (inferColumnTypes(rest, dateOrder).some(type => type !== 'text')) return true;
+  return rest.every(row => row.every((value, column) => value.trim().toLowerCase() !== labels[column]));
+}
+
+// ---------------------------------------------------------------------------
+// Analysis and conversion
+// ---------------------------------------------------------------------------
+
+function countRows(text: string): number {
+  let rows = 0;
+  for (let index = 0; index < text.length; index++) {
+    if (text[index] === '\n') rows++;
+  }
+  return text.length > 0 && !text.endsWith('\n') ? rows + 1 : rows;
+}
+
+/**
+ * Sniffs a delimited file for the import dialog. `overrides` re-runs the detection that
+ * depends on a choice the user changed, e.g. the column types after a different delimiter.
+ */
+export function analyzeDelimitedFile(
+  data: ArrayBuffer,
+  fileName: string,
+  overrides: Partial<Pick<DelimitedImportOptions, 'encoding' | 'delimiter' | 'hasHeader' | 'dateOrder'>> = {}
+): DelimitedFileAnalysis {
+  const bytes = new Uint8Array(data);
+  const encoding = overrides.encoding ?? detectEncoding(bytes);
+  const text = decodeText(bytes, encoding);
+  const delimiter = overrides.delimiter ?? detectDelimiter(text, fileName);
+  const sampleRows = parseDelimitedText(text, delimiter, SAMPLE_ROWS);
+  const dateOrder = overrides.dateOrder ?? detectDateOrder(sampleRows);
+  const hasHeader = overrides.hasHeader ?? detectHeaderRow(sampleRows, dateOrder);
+  const columnTypes = inferColumnTypes(hasHeader ? sampleRows.slice(1) : sampleRows, dateOrder);
+
+  return {
+    encoding,
+    delimiter,
+    hasHeader,
+    dateOrder,
+    columnTypes,
+    previewRows: sampleRows.slice(0, PREVIEW_ROWS),
+    rowCount: countRows(text),
+  };
+}
+
+function toCell(value: string, type: ColumnType, dateOrder: DateOrder, dateStyleId: (hasTime: boolean) => string): ICellData | null {
+  if (value === '') return null;
+  if (type === 'number') {
+    const number = parseNumber(value);
+    if (number !== null) return { v: number, t: CellValueType.NUMBER };
+  } else if (type === 'boolean') {
+    const boolean = parseBoolean(value);
+    if (boolean !== null) return { v: boolean, t: CellValueType.BOOLEAN };
+  } else if (type === 'date') {
+    const date = parseDate(value, dateOrder);
+    if (date) {
+      return { v: date.serial, t: CellValueType.NUMBER, s: dateStyleId(date.hasTime) };
+    }
+  }
+  // Text columns, and values that don't fit their column's type, are kept as written
+  return { v: value, t: CellValueType.STRING };
+}
+
+/**
+ * Converts a delimited file to a one-sheet Univer workbook with the chosen settings.
+ * A header row is bold and frozen.
+ */
+export function convertDelimitedToWorkbookData(
+  data: ArrayBuffer,
+  fileName: string,
+  options: DelimitedImportOptions,
+  onProgress?: (progress: XLSXImportProgress) => void
+): IWorkbookData {
+  onProgress?.({ stage: 'parsing', sheetsDone: 0, sheetCount: 0, rowsDone: 0, rowCount: 0 });
+  const rows = parseDelimitedText(decodeText(new Uint8Array(data), options.encoding), options.delimiter);
+
+  const name = fileName.replace(DELIMITED_FILE_PATTERN, '') || 'Sheet1';
+  const workbookData: IWorkbookData = {
+    id: `workbook-${Date.now()}`,
+    name,
+    appVersion: '0.10.8',
+    sheets: {},
+    sheetOrder: [],
+    locale: LocaleType.EN_US,
+    styles: {},
+  };
+  const registerStyle = createStyleTable(workbookData.styles);
+  const dateStyleId = (hasTime: boolean) => registerStyle({ n: { pattern: hasTime ? 'yyyy-mm-dd hh:mm:ss' : 'yyyy-mm-dd' } });
+
+  const sheetName = name.slice(0, 31);
+  const cellData: IWorksheetData['cellData'] = {};
+  let columnCount = 0;
+  rows.forEach((row, rowIndex) => {
+    if (rowIndex % PROGRESS_INTERVAL_ROWS === 0) {
+      onProgress?.({ stage: 'converting', sheetName, sheetsDone: 0, sheetCount: 1, rowsDone: rowIndex, rowCount: rows.length });
+    }
+    const isHeader = options.hasHeader && rowIndex === 0;
+    const rowData: Record<number, ICellData> = {};
+    row.forEach((value, column) => {
+      const cell = isHeader
+        ? (value === '' ? null : { v: value, t: CellValueType.STRING, s: registerStyle({ bl: BooleanNumber.TRUE }) })
+        : toCell(value, options.columnTypes[column] ?? 'text', options.dateOrder, dateStyleId);
+      if (cell) rowData[column] = cell;
+    });
+    if (Object.keys(rowData).length > 0) cellData[rowIndex] = rowData;
+    columnCount = Math.max(columnCount, row.length);
+  });
+  onProgress?.({ stage: 'converting', sheetsDone: 1, sheetCount: 1, rowsDone: 0, rowCount: 0 });
+
+  const sheetId = `sheet-${Date.now()}-0`;
+  workbookData.sheets[sheetId] = {
+    id: sheetId,
+    name: sheetName,
+    cellData,
+    rowCount: Math.max(rows.length + 100, 1000),
+    columnCount: Math.max(columnCount, 26),
+    showGridlines: 1,
+    rowData: {},
+    columnData: {},
+    mergeData: [],
+    ...(options.hasHeader && rows.length > 1 ? { freeze: { xSplit: 0, ySplit: 1, startRow: 1, startColumn: -1 } } : {}),
+  };
+  workbookData.sheetOrder.push(sheetId);
+
+  return workbookData;
+}
@@ -0,0 +1,80 @@
+import type { FUniver } from '@univerjs/presets';
+import type { IDisposable } from '@univerjs/core';
+import type { CellChangeType, WorkbookDiff } from './workbookDiff';
+
+/**
+ * Highlights the cells and merges of a WorkbookDiff in the open grid.
+ * Only one overlay is shown at a time; it follows the active sheet.
+ */
+
+const OVERLAY_COLORS: Record<CellChangeType, { stroke: string; fill: string }> = {
+  added: { stroke: '#16a34a', fill: 'rgba(22, 163, 74, 0.18)' },
+  removed: { stroke: '#dc2626', fill: 'rgba(220, 38, 38, 0.18)' },
+  modified: { stroke: '#d97706', fill: 'rgba(217, 119, 6, 0.18)' },
+};
+
+// Highlights are canvas shapes - cap them so a huge diff can't stall rendering
+const MAX_HIGHLIGHTS_PER_SHEET = 2000;
+
+let activeOverlay: IDisposable | null = null;
+
+export function clearDiffOverlay() {
+  activeOverlay?.dispose();
+  activeOverlay = null;
+}
+
+export function showDiffOverlay(univerAPI: FUniver, diff: WorkbookDiff) {
+  clearDiffOverlay();
+
+  const workbook = univerAPI.getActiveWorkbook();
+  if (!workbook) return;
+  const workbookId = workbook.getId();
+  let highlights: IDisposable[] = [];
+
+  const clearHighlights = () => {
+    highlights.forEach(highlight => highlight.dispose());
+    highlights = [];
+  };
+
+  const highlightActiveSheet = () => {
+    clearHighlights();
+    const sheet = workbook.getActiveSheet();
+    const sheetDiff = diff.sheets.find(s => s.sheetId === sheet.getSheetId());
+    if (!sheetDiff) return;
+
+    try {
+      for (const change of sheetDiff.cellChanges.slice(0, MAX_HIGHLIGHTS_PER_SHEET)) {
+        const colors = OVERLAY_COLORS[change.type];
+        highlights.push(
+          sheet.getRange(change.row, change.column, 1, 1).highlight({ ...colors, strokeWidth: 1 })
+        );
+      }
+      for (const merge of sheetDiff.mergeChanges) {
+        const { startRow, startColumn, endRow, endColumn } = merge.range;
+        highlights.push(
+          sheet
+            .getRange(startRow, startColumn, endRow - startRow + 1, endColumn - startColumn + 1)
+            .highlight({ ...OVERLAY_COLORS[merge.type], fill: 'rgba(0, 0, 0, 0)', strokeWidth: 2, strokeDash: 8 })
+        );
+      }
+    } catch (error) {
+      console.error('❌ Error highlighting diff:', error);
+    }
+  };
+
+  highlightActiveSheet();
+  const sheetListener = univerAPI.addEvent(univerAPI.Event.ActiveSheetChanged, (params: { workbook: { getId(): string } }) => {
+    if (params.workbook.getId() !== workbookId) {
+      clearDiffOverlay();
+      return;
+    }
+    highlightActiveSheet();
+  });
+
+  activeOverlay = {
+    dispose: () => {
+      sheetListener.dispose();
+      clearHighlights();
+    },
+  };
+}
@@ -0,0 +1,160 @@
+// The one way files become workbooks: the chat's upload button, the spreadsheet's Import menu
+// and files dropped on the grid all go through `importFileToWorkbookData`, and every finished
+// import is summed up in the same report.
+
+import type { IWorkbookData } from '@univerjs/core';
+import {
+  functionArray, functionCompatibility, functionCube, functionDatabase, functionDate, functionEngineering,
+  functionFinancial, functionInformation, functionLogical, functionLookup, functionMath, functionMeta,
+  functionStatistical, functionText, functionUniver, functionWeb,
+} from '@univerjs/engine-formula';
+import { importXLSXToWorkbookData, type XLSXImportOptions, type XLSXImportResult } from './xlsxConverter';
+import { DELIMITED_FILE_PATTERN } from './csvImport';
+import { findUnsupportedFunctions, type ImportIssue } from './importFidelity';
+
+export const IMPORT_FILE_HINT = 'Please choose an Excel (.xlsx, .xls), OpenDocument (.ods) or delimited text (.csv, .tsv) file';
+
+// For file inputs' `accept`
+export const IMPORT_FILE_ACCEPT = '.xlsx,.xls,.ods,.csv,.tsv,.tab,.psv,.txt';
+
+const WORKBOOK_FILE_PATTERN = /\.(xlsx|xls|ods)$/i;
+
+export function isImportableFile(fileName: string): boolean {
+  return WORKBOOK_FILE_PATTERN.test(fileName) || DELIMITED_FILE_PATTERN.test(fileName);
+}
+
+// Delimited text files need their settings confirmed in the import dialog first
+export function isDelimitedFile(fileName: string): boolean {
+  return DELIMITED_FILE_PATTERN.test(fileName);
+}
+
+// Every function Univer's formula engine calculates, built on first use
+let supportedFunctions: Set<string> | null = null;
+
+function isSupportedFunction(name: string): boolean {
+  if (!supportedFunctions) {
+    const functionMaps = [
+      functionArray, functionCompatibility, functionCube, functionDatabase, functionDate, functionEngineering,
+      functionFinancial, functionInformation, functionLogical, functionLookup, functionMath, functionMeta,
+      functionStatistical, functionText, functionUniver, functionWeb,
+    ];
+    // Each entry pairs the function's class with its name
+    supportedFunctions = new Set(functionMaps.flatMap(functionMap => functionMap.map(entry => String(entry[1]))));
+  }
+  return supportedFunctions.has(name);
+}
+
+/**
+ * Converts an uploaded file to Univer workbook data, off the main thread, with progress and cancel.
+ * Delimited text files need `options.delimited`, from the import dialog. Anything the file held
+ * that didn't come across is listed in the result's `issues`.
+ */
+export async function importFileToWorkbookData(file: File, options: XLSXImportOptions = {}): Promise<XLSXImportResult> {
+  if (!isImportableFile(file.name)) {
+    throw new Error(IMPORT_FILE_HINT);
+  }
+  if (isDelimitedFile(file.name) && !options.delimited) {
+    throw new Error('Choose how to read this file in the import dialog first');
+  }
+  const result = await importXLSXToWorkbookData(file, options);
+  const unsupportedFunctions = findUnsupportedFunctions(result.workbookData, isSupportedFunction);
+  return {
+    workbookData: result.workbookData,
+    issues: unsupportedFunctions ? [unsupportedFunctions, ...result.issues] : result.issues,
+  };
+}
+
+export interface ImportedSheetSummary {
+  name: string;
+  rowCount: number; // Rows and columns that hold data, not the grid's size
+  columnCount: number;
+  cellCount: number;
+  formulaCount: number;
+  mergeCount: number;
+}
+
+export interface ImportReport {
+  fileName: string;
+  fileSize: number;
+  durationMs: number;
+  workbookId: string;
+  sheets: ImportedSheetSummary[];
+  issues: ImportIssue[]; // What couldn't be imported
+}
+
+export function buildImportReport(file: File, workbookId: string, workbookData: IWorkbookData, issues: ImportIssue[], durationMs: number): ImportReport {
+  const sheets = workbookData.sheetOrder.map((sheetId) => {
+    const sheet = workbookData.sheets[sheetId];
+    const summary: ImportedSheetSummary = {
+      name: sheet?.name || sheetId,
+      rowCount: 0,
+      columnCount: 0,
+      cellCount: 0,
+      formulaCount: 0,
+      mergeCount: sheet?.mergeData?.length ?? 0,
+    };
+    const cellMatrix = sheet?.cellData || {};
+    for (const rowKey in cellMatrix) {
+      const rowData = cellMatrix[rowKey];
+      if (!rowData) continue;
+      for (const colKey in rowData) {
+        const cell = rowData[colKey];
+        if (!cell || (cell.v === undefined && !cell.f && !cell.p)) continue;
+        summary.cellCount++;
+        if (cell.f) summary.formulaCount++;
+        summary.rowCount = Math.max(summary.rowCount, parseInt(rowKey) + 1);
+        summary.columnCount = Math.max(summary.columnCount, parseInt(colKey) + 1);
+      }
+    }
+    return summary;
+  });
+
+  return { fileName: file.name, fileSize: file.size, durationMs, workbookId, sheets, issues };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count.toLocaleString()} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// One line per sheet, e.g. "1,204 rows × 12 columns, 9,310 cells, 48 formulas, 3 merged ranges"
+export function formatSheetSummary(sheet: ImportedSheetSummary): string {
+  return `${plural(sheet.rowCount, 'row')} × ${plural(sheet.columnCount, 'column')}, ${plural(sheet.cellCount, 'cell')}`
+    + (sheet.formulaCount > 0 ? `, ${plural(sheet.formulaCount, 'formula')}` : '')
+    + (sheet.mergeCount > 0 ? `, ${plural(sheet.mergeCount, 'merged range')}` : '');
+}
+
+// The first line of the report, e.g. 'Loaded "Budget.xlsx" (1.20 MB) as a new workbook with 3 sheets in 0.84s.'
+export function formatImportHeadline(report: ImportReport): string {
+  const fileSizeMB = (report.fileSize / (1024 * 1024)).toFixed(2);
+  const seconds = (report.durationMs / 1000).toFixed(2);
+  return `Loaded "${report.fileName}" (${fileSizeMB} MB) as a new workbook with ${plural(report.sheets.length, 'sheet')} in ${seconds}s.`;
+}
+
+// The report as text, kept as the chat message's content so the assistant can read it too
+export function formatImportReport(report: ImportReport): string {
+  const lines = [
+    formatImportHeadline(report),
+    ...report.sheets.map(sheet => `- ${sheet.name}: ${formatSheetSummary(sheet)}`),
+  ];
+  if (report.issues.length > 0) {
+    lines.push('', 'Not imported:');
+    for (const issue of report.issues) {
+      lines.push(`- ${issue.summary}${issue.details ? `: ${issue.details.join(', ')}` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+const listeners = new Set<(report: ImportReport) => void>();
+
+export function reportImport(report: ImportReport): void {
+  listeners.forEach(listener => listener(report));
+}
+
+// Listen for finished imports; returns an unsubscribe function
+export function onImportReport(listener: (report: ImportReport) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
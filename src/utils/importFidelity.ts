@@ -0,0 +1,214 @@
+// What an imported file held that the workbook can't: pivot tables, charts, macros, links to
+// other workbooks, formatting the importer drops and functions Univer doesn't calculate.
+// The file-level checks run in the import worker on the raw package; the function check runs
+// on the imported workbook data, where Univer's function list is at hand.
+
+import JSZip from 'jszip';
+import type { IWorkbookData } from '@univerjs/core';
+import { readPartText, type XLSXPackage } from './xlsxPackage';
+
+export type ImportIssueKind = 'functions' | 'pivotTables' | 'charts' | 'macros' | 'externalLinks' | 'styles' | 'other';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  summary: string; // One line, e.g. "2 pivot tables were imported as plain values"
+  details?: string[]; // Function names, linked files and the like
+}
+
+// How many details an issue lists before summing up the rest
+const MAX_DETAILS = 10;
+
+function plural(count: number, noun: string, pluralNoun = `${noun}s`): string {
+  return `${count.toLocaleString()} ${count === 1 ? noun : pluralNoun}`;
+}
+
+function listDetails(items: string[]): string[] {
+  return items.length > MAX_DETAILS
+    ? [...items.slice(0, MAX_DETAILS), `…and ${items.length - MAX_DETAILS} more`]
+    : items;
+}
+
+function countMatches(text: string | null, pattern: RegExp): number {
+  return text ? (text.match(pattern) || []).length : 0;
+}
+
+function countFiles(zip: JSZip, pattern: RegExp): number {
+  return Object.keys(zip.files).filter(path => pattern.test(path)).length;
+}
+
+async function inspectXLSXPackage(zip: JSZip): Promise<ImportIssue[]> {
+  const pkg: XLSXPackage = { zip, sheets: [], texts: new Map() };
+  const issues: ImportIssue[] = [];
+
+  const pivotTables = countFiles(zip, /^xl\/pivotTables\/pivotTable\d+\.xml$/);
+  if (pivotTables > 0) {
+    issues.push({ kind: 'pivotTables', summary: `${plural(pivotTables, 'pivot table')} came in as plain values and won't refresh` });
+  }
+
+  const charts = countFiles(zip, /^xl\/charts\/chart\d+\.xml$/);
+  const chartSheets = countFiles(zip, /^xl\/chartsheets\/sheet\d+\.xml$/);
+  if (charts > 0) {
+    issues.push({
+      kind: 'charts',
+      summary: `${plural(charts, 'chart')} ${charts === 1 ? 'was' : 'were'} not imported${chartSheets > 0 ? `, including ${plural(chartSheets, 'chart sheet')}` : ''}`,
+    });
+  }
+
+  if (zip.file('xl/vbaProject.bin')) {
+    issues.push({ kind: 'macros', summary: 'VBA macros were removed; nothing in the file runs here' });
+  }
+
+  const linkParts = Object.keys(zip.files).filter(path => /^xl\/externalLinks\/externalLink\d+\.xml$/.test(path));
+  if (linkParts.length > 0) {
+    const targets: string[] = [];
+    for (const path of linkParts) {
+      const rels = await readPartText(pkg, path.replace(/([^/]+)$/, '_rels/$1.rels'));
+      const target = rels?.match(/Target="([^"]+)"/)?.[1];
+      if (target) targets.push(decodeURIComponent(target.replace(/^file:\/\/\//, '')));
+    }
+    issues.push({
+      kind: 'externalLinks',
+      summary: `${plural(linkParts.length, 'link')} to other workbooks won't update; the values last read from them were kept`,
+      details: targets.length > 0 ? listDetails(targets) : undefined,
+    });
+  }
+
+  // Formatting the style importer leaves out
+  const styles = await readPartText(pkg, 'xl/styles.xml');
+  const styleDetails: string[] = [];
+  const gradientFills = countMatches(styles, /<gradientFill[\s>]/g);
+  const patternFills = countMatches(styles, /<patternFill[^>]*patternType="(?!none"|solid"|gray125")[^"]+"/g);
+  if (gradientFills + patternFills > 0) {
+    styleDetails.push(`${plural(gradientFills + patternFills, 'gradient or patterned fill style')} left out`);
+  }
+  const diagonalBorders = countMatches(styles, /<diagonal\s[^>]*style="(?!none")[^"]+"/g);
+  if (diagonalBorders > 0) {
+    styleDetails.push(`${plural(diagonalBorders, 'diagonal border')} left out`);
+  }
+  const sharedStrings = await readPartText(pkg, 'xl/sharedStrings.xml');
+  const richTexts = countMatches(sharedStrings, /<si>\s*<r>/g);
+  if (richTexts > 0) {
+    styleDetails.push(`${plural(richTexts, 'text')} with mixed formatting within a cell kept as plain text`);
+  }
+  if (styleDetails.length > 0) {
+    issues.push({ kind: 'styles', summary: 'Some formatting was simplified', details: styleDetails });
+  }
+
+  const otherDetails: string[] = [];
+  const tables = countFiles(zip, /^xl\/tables\/table\d+\.xml$/);
+  if (tables > 0) otherDetails.push(`${plural(tables, 'Excel table')} imported as plain ranges; structured references such as Table1[Amount] won't calculate`);
+  const slicers = countFiles(zip, /^xl\/slicers\/slicer\d+\.xml$/);
+  if (slicers > 0) otherDetails.push(`${plural(slicers, 'slicer')} left out`);
+  const connections = zip.file('xl/connections.xml');
+  if (connections) otherDetails.push('Data connections and queries left out');
+  if (otherDetails.length > 0) {
+    issues.push({ kind: 'other', summary: 'Some workbook features were left out', details: otherDetails });
+  }
+
+  return issues;
+}
+
+async function inspectODSPackage(zip: JSZip): Promise<ImportIssue[]> {
+  const issues: ImportIssue[] = [];
+  const content = await zip.file('content.xml')?.async('string') ?? null;
+
+  const pivotTables = countMatches(content, /<table:data-pilot-table[\s>]/g);
+  if (pivotTables > 0) {
+    issues.push({ kind: 'pivotTables', summary: `${plural(pivotTables, 'pivot table')} came in as plain values and won't refresh` });
+  }
+
+  const charts = Object.keys(zip.files).filter(path => /^Object \d+\/content\.xml$/.test(path)).length;
+  if (charts > 0) {
+    issues.push({ kind: 'charts', summary: `${plural(charts, 'chart or embedded object')} ${charts === 1 ? 'was' : 'were'} not imported` });
+  }
+
+  if (countFiles(zip, /^(Basic|Scripts)\//) > 0) {
+    issues.push({ kind: 'macros', summary: 'Macros were removed; nothing in the file runs here' });
+  }
+
+  const linkTargets = [...(content?.matchAll(/<table:table-source\s[^>]*xlink:href="([^"]+)"/g) ?? [])].map(match => decodeURIComponent(match[1]));
+  if (linkTargets.length > 0) {
+    issues.push({
+      kind: 'externalLinks',
+      summary: `${plural(linkTargets.length, 'link')} to other files won't update; the values last read from them were kept`,
+      details: listDetails([...new Set(linkTargets)]),
+    });
+  }
+
+  if (countMatches(content, /<style:style\s[^>]*style:family="table-cell"/g) > 0) {
+    issues.push({ kind: 'styles', summary: 'Cell formatting (fonts, fills, borders, number formats) isn\'t read from .ods files; values and layout were kept' });
+  }
+
+  return issues;
+}
+
+/**
+ * Looks through the imported file's package for what the workbook can't hold. XLSX and ODS
+ * files are zip packages; legacy .xls files aren't, so only a general note is given for them.
+ */
+export async function inspectImportedFile(data: ArrayBuffer, fileName: string): Promise<ImportIssue[]> {
+  if (!/\.(xlsx|xls|ods)$/i.test(fileName)) return [];
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return [{
+      kind: 'other',
+      summary: 'Legacy .xls files are read for values, formulas and layout only; charts, pivot tables, macros and most formatting aren\'t imported',
+    }];
+  }
+
+  try {
+    return zip.file('content.xml') ? await inspectODSPackage(zip) : await inspectXLSXPackage(zip);
+  } catch (error) {
+    console.warn('Could not check the file for unsupported features:', error);
+    return [];
+  }
+}
+
+// Function calls in a formula, outside of quoted text and sheet names; Excel's "future function"
+// prefixes (_xlfn.XLOOKUP) are dropped
+function formulaFunctions(formula: string): string[] {
+  const names: string[] = [];
+  formula.split(/("(?:[^"]|"")*"|'(?:[^']|'')*')/).forEach((part, index) => {
+    if (index % 2 === 1) return;
+    for (const match of part.matchAll(/([A-Za-z_][A-Za-z0-9_.]*)\s*\(/g)) {
+      names.push(match[1].toUpperCase().replace(/^_XLFN\.(_XLWS\.)?|^_XLWS\./, ''));
+    }
+  });
+  return names;
+}
+
+/**
+ * Lists the functions used in the workbook's formulas that `isSupported` doesn't know, with how
+ * many cells use each. Those cells keep the value they had when the file was saved until they're
+ * recalculated, when they show #NAME?.
+ */
+export function findUnsupportedFunctions(workbookData: IWorkbookData, isSupported: (name: string) => boolean): ImportIssue | null {
+  const cellCounts = new Map<string, number>();
+  for (const sheetId of workbookData.sheetOrder) {
+    const cellMatrix = workbookData.sheets[sheetId]?.cellData || {};
+    for (const rowKey in cellMatrix) {
+      const rowData = cellMatrix[rowKey];
+      if (!rowData) continue;
+      for (const colKey in rowData) {
+        const formula = rowData[colKey]?.f;
+        if (!formula) continue;
+        for (const name of new Set(formulaFunctions(formula))) {
+          if (!isSupported(name)) cellCounts.set(name, (cellCounts.get(name) ?? 0) + 1);
+        }
+      }
+    }
+  }
+  if (cellCounts.size === 0) return null;
+
+  const details = [...cellCounts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => `${name} (${plural(count, 'cell')})`);
+  return {
+    kind: 'functions',
+    summary: `${plural(cellCounts.size, 'function')} Univer doesn't support; those cells keep their saved values but show #NAME? once recalculated`,
+    details: listDetails(details),
+  };
+}
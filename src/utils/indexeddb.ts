@@ -1,11 +1,21 @@
 // IndexedDB utility for persisting chat history and workbook data
 
+import type { IWorkbookData } from '@univerjs/core';
+import { broadcastSync } from './crossTab';
+import { openDatabase, LATEST_DB_VERSION } from './migrations';
+import { packSnapshot, unpackSnapshot, storedSnapshotSize, estimateDataSize, type StoredSnapshot } from './compression';
+import { notifyIfQuotaExceeded } from './storage';
+import { PersistenceError, toPersistenceError } from './persistenceError';
+
 const DB_NAME = 'sheetgrid_db';
-const DB_VERSION = 2; // Increment version for schema changes
-const STORES = {
+const DB_VERSION = LATEST_DB_VERSION; // Add a migration in migrations.ts for schema or data changes
+export const STORES = {
   CHATS: 'chats',
   CHAT_HISTORY: 'chat_history',
   WORKBOOK_DATA: 'workbook_data',
+  WORKBOOKS: 'workbooks',
+  WORKBOOK_VERSIONS: 'workbook_versions',
+  WORKBOOK_MUTATIONS: 'workbook_mutations',
 };
 
 // Interface for database opener (not currently used but kept for type safety)
@@ -15,63 +25,25 @@ export interface DBOpener {
   db: IDBDatabase;
 }
 
-// Initialize database
+// Initialize database, running any migrations the stored version is missing
 export async function initDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => {
-      reject(new Error('Failed to open IndexedDB'));
-    };
-
-    request.onsuccess = () => {
-      resolve(request.result);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      const oldVersion = event.oldVersion;
-
-      // Create chats store for managing multiple chat sessions
-      if (!db.objectStoreNames.contains(STORES.CHATS)) {
-        const chatsStore = db.createObjectStore(STORES.CHATS, { keyPath: 'id' });
-        chatsStore.createIndex('updatedAt', 'updatedAt', { unique: false });
-      }
-
-      // Create chat history store
-      if (!db.objectStoreNames.contains(STORES.CHAT_HISTORY)) {
-        const chatStore = db.createObjectStore(STORES.CHAT_HISTORY, { keyPath: 'id', autoIncrement: true });
-        chatStore.createIndex('timestamp', 'timestamp', { unique: false });
-        chatStore.createIndex('chatId', 'chatId', { unique: false });
-      } else if (oldVersion < 2) {
-        // Migrate existing data: add chatId index
-        const transaction = (event.target as IDBOpenDBRequest).transaction;
-        const chatStore = transaction?.objectStore(STORES.CHAT_HISTORY);
-        if (chatStore && !chatStore.indexNames.contains('chatId')) {
-          chatStore.createIndex('chatId', 'chatId', { unique: false });
-        }
-      }
-
-      // Create workbook data store
-      if (!db.objectStoreNames.contains(STORES.WORKBOOK_DATA)) {
-        db.createObjectStore(STORES.WORKBOOK_DATA, { keyPath: 'id' });
-      }
-    };
-  });
+  return openDatabase(DB_NAME, DB_VERSION);
 }
 
 // Chat Management Operations
 export interface Chat {
   id: string;
   title: string;
+  workbookId?: string; // Workbook the conversation is about (missing on chats that predate the catalog)
   createdAt: string;
   updatedAt: string;
 }
 
-export async function createChat(title?: string): Promise<Chat> {
+export async function createChat(title?: string, workbookId?: string): Promise<Chat> {
   const chat: Chat = {
     id: `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     title: title || 'New Chat',
+    workbookId,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
@@ -86,11 +58,12 @@ export async function createChat(title?: string): Promise<Chat> {
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
-    
+
+    broadcastSync({ type: 'chats-changed' });
     return chat;
   } catch (error) {
     console.error('Error creating chat:', error);
-    throw error;
+    throw toPersistenceError('create chat', error);
   }
 }
 
@@ -113,7 +86,30 @@ export async function getAllChats(): Promise<Chat[]> {
     });
   } catch (error) {
     console.error('Error loading chats:', error);
-    return [];
+    throw toPersistenceError('load chats', error);
+  }
+}
+
+export async function getChatsForWorkbook(workbookId: string): Promise<Chat[]> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.CHATS], 'readonly');
+    const store = transaction.objectStore(STORES.CHATS);
+    const index = store.index('workbookId');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(workbookId);
+      request.onsuccess = () => {
+        const chats = request.result.sort((a: Chat, b: Chat) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+        resolve(chats);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error loading chats for workbook:', error);
+    throw toPersistenceError('load chats for workbook', error);
   }
 }
 
@@ -142,9 +138,11 @@ export async function updateChat(chatId: string, updates: Partial<Chat>): Promis
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
+
+    broadcastSync({ type: 'chats-changed' });
   } catch (error) {
     console.error('Error updating chat:', error);
-    throw error;
+    throw toPersistenceError('update chat', error);
   }
 }
 
@@ -178,9 +176,11 @@ export async function deleteChat(chatId: string): Promise<void> {
         request.onerror = () => reject(request.error);
       });
     }
+
+    broadcastSync({ type: 'chats-changed' });
   } catch (error) {
     console.error('Error deleting chat:', error);
-    throw error;
+    throw toPersistenceError('delete chat', error);
   }
 }
 
@@ -224,6 +224,8 @@ export async function saveAllChatMessages(chatId: string, messages: any[]): Prom
     await updateChat(chatId, {});
   } catch (error) {
     console.error('Error saving all chat messages:', error);
+    notifyIfQuotaExceeded(error);
+    throw toPersistenceError('save chat messages', error);
   }
 }
 
@@ -251,7 +253,7 @@ export async function loadChatMessages(chatId: string): Promise<any[]> {
     });
   } catch (error) {
     console.error('Error loading chat messages:', error);
-    return [];
+    throw toPersistenceError('load chat messages', error);
   }
 }
 
@@ -277,21 +279,297 @@ export async function clearChatHistory(chatId: string): Promise<void> {
     }
   } catch (error) {
     console.error('Error clearing chat history:', error);
+    throw toPersistenceError('clear chat history', error);
+  }
+}
+
+// Workbook Catalog Operations
+export interface WorkbookMeta {
+  id: string;
+  name: string;
+  size: number; // Bytes the stored (compressed) snapshot takes up
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A workbook's snapshot as kept in the workbook_data store, keyed by workbook id
+interface WorkbookDataRecord extends StoredSnapshot {
+  id: string;
+  savedAt: string;
+}
+
+export function generateWorkbookId(): string {
+  return `workbook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function createWorkbookMeta(name: string, size = 0): WorkbookMeta {
+  const now = new Date().toISOString();
+  return {
+    id: generateWorkbookId(),
+    name,
+    size,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export async function createWorkbook(name?: string, data?: IWorkbookData): Promise<WorkbookMeta> {
+  const workbookName = name || 'Untitled Workbook';
+  const snapshot = data ? await packSnapshot({ ...data, name: workbookName }) : null;
+  const meta = createWorkbookMeta(workbookName, storedSnapshotSize(snapshot));
+
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOKS, STORES.WORKBOOK_DATA], 'readwrite');
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+
+      transaction.objectStore(STORES.WORKBOOKS).add(meta);
+      if (snapshot) {
+        transaction.objectStore(STORES.WORKBOOK_DATA).put({
+          id: meta.id,
+          ...snapshot,
+          savedAt: meta.updatedAt,
+        });
+      }
+    });
+
+    broadcastSync({ type: 'workbooks-changed' });
+    return meta;
+  } catch (error) {
+    console.error('Error creating workbook:', error);
+    notifyIfQuotaExceeded(error);
+    throw toPersistenceError('create workbook', error);
+  }
+}
+
+export async function getAllWorkbooks(): Promise<WorkbookMeta[]> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOKS], 'readonly');
+    const store = transaction.objectStore(STORES.WORKBOOKS);
+    const index = store.index('updatedAt');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll();
+      request.onsuccess = () => {
+        const workbooks = request.result.sort((a: WorkbookMeta, b: WorkbookMeta) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        );
+        resolve(workbooks);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error loading workbooks:', error);
+    throw toPersistenceError('load workbooks', error);
   }
 }
 
-// Workbook Data Operations
-export async function saveWorkbookData(data: any): Promise<void> {
+export async function getWorkbook(workbookId: string): Promise<WorkbookMeta | null> {
   try {
     const db = await initDB();
-    const transaction = db.transaction([STORES.WORKBOOK_DATA], 'readwrite');
+    const transaction = db.transaction([STORES.WORKBOOKS], 'readonly');
+    const store = transaction.objectStore(STORES.WORKBOOKS);
+
+    return new Promise((resolve, reject) => {
+      const request = store.get(workbookId);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error loading workbook:', error);
+    throw toPersistenceError('load workbook', error);
+  }
+}
+
+export async function updateWorkbook(workbookId: string, updates: Partial<Omit<WorkbookMeta, 'id'>>): Promise<void> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOKS, STORES.WORKBOOK_DATA], 'readwrite');
+    const workbooksStore = transaction.objectStore(STORES.WORKBOOKS);
+    const dataStore = transaction.objectStore(STORES.WORKBOOK_DATA);
+
+    const workbook = await new Promise<WorkbookMeta>((resolve, reject) => {
+      const request = workbooksStore.get(workbookId);
+      request.onsuccess = () => {
+        if (request.result) {
+          resolve(request.result);
+        } else {
+          reject(new Error('Workbook not found'));
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const request = workbooksStore.put({ ...workbook, ...updates, updatedAt: new Date().toISOString() });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    // Keep the snapshot's own name in sync so exports use the catalog name
+    if (updates.name) {
+      const record = await new Promise<WorkbookDataRecord | undefined>((resolve, reject) => {
+        const request = dataStore.get(workbookId);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      if (record && record.data) {
+        await new Promise<void>((resolve, reject) => {
+          const request = dataStore.put({ ...record, data: { ...record.data, name: updates.name } });
+          request.onsuccess = () => resolve();
+          request.onerror = () => reject(request.error);
+        });
+      } else if (record && record.compressedData) {
+        await renameCompressedSnapshot(record, updates.name);
+      }
+    }
+
+    broadcastSync({ type: 'workbooks-changed' });
+  } catch (error) {
+    console.error('Error updating workbook:', error);
+    throw toPersistenceError('update workbook', error);
+  }
+}
+
+// Compressed snapshots can't be rewritten inside a transaction, so rename a copy and
+// write it back only if no newer save replaced the snapshot in the meantime
+async function renameCompressedSnapshot(record: WorkbookDataRecord, name: string): Promise<void> {
+  const data = await unpackSnapshot(record);
+  if (!data) return;
+  const snapshot = await packSnapshot({ ...data, name });
+
+  const db = await initDB();
+  const store = db.transaction([STORES.WORKBOOK_DATA], 'readwrite').objectStore(STORES.WORKBOOK_DATA);
+  const current = await new Promise<WorkbookDataRecord | undefined>((resolve, reject) => {
+    const request = store.get(record.id);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  if (!current || current.savedAt !== record.savedAt) return;
+
+  await new Promise<void>((resolve, reject) => {
+    const request = store.put({ ...current, ...snapshot });
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function duplicateWorkbook(workbookId: string, name?: string): Promise<WorkbookMeta> {
+  const source = await getWorkbook(workbookId);
+  if (!source) {
+    throw new PersistenceError('not-found', 'duplicate workbook');
+  }
+
+  const data = await loadWorkbookData(workbookId);
+  // Give the copy its own Univer unit id so both can never collide in memory
+  const copyData = data ? { ...data, id: `workbook-${Date.now()}` } : undefined;
+  const copy = await createWorkbook(name || `${source.name} (copy)`, copyData);
+
+  // Edits not yet compacted into the snapshot (e.g. made in another tab) come along too
+  const mutations = await getWorkbookMutations(workbookId);
+  if (mutations.length > 0) {
+    await appendWorkbookMutations(copy.id, mutations.map(({ mutationId, params }) => ({ mutationId, params })));
+  }
+
+  return copy;
+}
+
+export async function deleteWorkbook(workbookId: string): Promise<void> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction(
+      [STORES.WORKBOOKS, STORES.WORKBOOK_DATA, STORES.WORKBOOK_VERSIONS, STORES.WORKBOOK_MUTATIONS, STORES.CHATS],
+      'readwrite'
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+
+      transaction.objectStore(STORES.WORKBOOKS).delete(workbookId);
+      transaction.objectStore(STORES.WORKBOOK_DATA).delete(workbookId);
+
+      // Version history and the pending mutation log go with the workbook
+      for (const storeName of [STORES.WORKBOOK_VERSIONS, STORES.WORKBOOK_MUTATIONS]) {
+        const cursorRequest = transaction.objectStore(storeName).index('workbookId').openKeyCursor(workbookId);
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          transaction.objectStore(storeName).delete(cursor.primaryKey);
+          cursor.continue();
+        };
+      }
+
+      // Its chats are kept but unbound, so they adopt whichever workbook they're opened with next
+      const chatsRequest = transaction.objectStore(STORES.CHATS).index('workbookId').openCursor(workbookId);
+      chatsRequest.onsuccess = () => {
+        const cursor = chatsRequest.result;
+        if (!cursor) return;
+        cursor.update({ ...cursor.value, workbookId: undefined });
+        cursor.continue();
+      };
+    });
+
+    broadcastSync({ type: 'workbooks-changed' });
+    broadcastSync({ type: 'chats-changed' });
+  } catch (error) {
+    console.error('Error deleting workbook:', error);
+    throw toPersistenceError('delete workbook', error);
+  }
+}
+
+// Delete a workbook's logged mutations, optionally only those already folded into a snapshot
+function deleteLoggedMutations(store: IDBObjectStore, workbookId: string, throughId?: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = store.index('workbookId').openKeyCursor(workbookId);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      if (throughId === undefined || (cursor.primaryKey as number) <= throughId) {
+        store.delete(cursor.primaryKey);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Workbook Data Operations (scoped by workbookId)
+// Writing a snapshot compacts the mutation log: entries up to compactThroughId are already
+// part of the snapshot. Without it the snapshot replaces the whole log (imports, restores).
+export async function saveWorkbookData(workbookId: string, data: IWorkbookData, compactThroughId?: number): Promise<void> {
+  try {
+    const snapshot = await packSnapshot(data);
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_DATA, STORES.WORKBOOKS, STORES.WORKBOOK_MUTATIONS], 'readwrite');
     const store = transaction.objectStore(STORES.WORKBOOK_DATA);
-    
+    const workbooksStore = transaction.objectStore(STORES.WORKBOOKS);
+    const savedAt = new Date().toISOString();
+
+    // A workbook deleted while still open must not be resurrected by a late save
+    const meta = await new Promise<WorkbookMeta | undefined>((resolve, reject) => {
+      const request = workbooksStore.get(workbookId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!meta) {
+      throw new PersistenceError('not-found', 'save workbook');
+    }
+
     await new Promise<void>((resolve, reject) => {
       const request = store.put({
-        id: 'current',
-        data: data,
-        savedAt: new Date().toISOString(),
+        id: workbookId,
+        ...snapshot,
+        savedAt,
       });
       request.onsuccess = () => {
         console.log('Workbook data saved to IndexedDB');
@@ -299,49 +577,424 @@ export async function saveWorkbookData(data: any): Promise<void> {
       };
       request.onerror = () => reject(request.error);
     });
+
+    await deleteLoggedMutations(transaction.objectStore(STORES.WORKBOOK_MUTATIONS), workbookId, compactThroughId);
+
+    // Refresh the catalog entry's size and last-modified time
+    await new Promise<void>((resolve, reject) => {
+      const request = workbooksStore.put({ ...meta, size: storedSnapshotSize(snapshot), updatedAt: savedAt });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
   } catch (error) {
     console.error('Error saving workbook data:', error);
+    notifyIfQuotaExceeded(error);
+    throw toPersistenceError('save workbook', error);
   }
 }
 
-export async function loadWorkbookData(): Promise<any | null> {
+export async function loadWorkbookData(workbookId: string): Promise<IWorkbookData | null> {
   try {
     const db = await initDB();
     const transaction = db.transaction([STORES.WORKBOOK_DATA], 'readonly');
     const store = transaction.objectStore(STORES.WORKBOOK_DATA);
     
+    const record = await new Promise<WorkbookDataRecord | undefined>((resolve, reject) => {
+      const request = store.get(workbookId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    const data = await unpackSnapshot(record);
+    if (data) {
+      console.log('Workbook data loaded from IndexedDB');
+    }
+    return data;
+  } catch (error) {
+    console.error('Error loading workbook data:', error);
+    throw toPersistenceError('load workbook data', error);
+  }
+}
+
+export async function clearWorkbookData(workbookId: string): Promise<void> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_DATA, STORES.WORKBOOK_MUTATIONS], 'readwrite');
+    const store = transaction.objectStore(STORES.WORKBOOK_DATA);
+    
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(workbookId);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+    await deleteLoggedMutations(transaction.objectStore(STORES.WORKBOOK_MUTATIONS), workbookId);
+  } catch (error) {
+    console.error('Error clearing workbook data:', error);
+    throw toPersistenceError('clear workbook data', error);
+  }
+}
+
+// Workbook Mutation Log Operations
+// Univer mutations applied since the last snapshot, replayed in id order on load
+export interface WorkbookMutation {
+  id: number;
+  workbookId: string;
+  mutationId: string;
+  params: Record<string, unknown>;
+  createdAt: string;
+}
+
+// Append a batch of mutations; returns the id of the last one, or null if the workbook is gone
+export async function appendWorkbookMutations(
+  workbookId: string,
+  mutations: Pick<WorkbookMutation, 'mutationId' | 'params'>[]
+): Promise<number | null> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_MUTATIONS, STORES.WORKBOOKS], 'readwrite');
+    const store = transaction.objectStore(STORES.WORKBOOK_MUTATIONS);
+    const workbooksStore = transaction.objectStore(STORES.WORKBOOKS);
+    const createdAt = new Date().toISOString();
+
+    // Same rule as snapshots: a deleted workbook must not collect new log entries
+    const meta = await new Promise<WorkbookMeta | undefined>((resolve, reject) => {
+      const request = workbooksStore.get(workbookId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!meta) {
+      console.log('Skipping mutation log append - workbook no longer exists in catalog');
+      return null;
+    }
+
+    let lastId: number | null = null;
+    for (const mutation of mutations) {
+      lastId = await new Promise<number>((resolve, reject) => {
+        const request = store.add({ workbookId, createdAt, ...mutation });
+        request.onsuccess = () => resolve(request.result as number);
+        request.onerror = () => reject(request.error);
+      });
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const request = workbooksStore.put({ ...meta, updatedAt: createdAt });
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    return lastId;
+  } catch (error) {
+    console.error('Error appending workbook mutations:', error);
+    notifyIfQuotaExceeded(error);
+    throw toPersistenceError('save workbook edits', error);
+  }
+}
+
+export async function getWorkbookMutations(workbookId: string): Promise<WorkbookMutation[]> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_MUTATIONS], 'readonly');
+    const index = transaction.objectStore(STORES.WORKBOOK_MUTATIONS).index('workbookId');
+
+    return new Promise((resolve, reject) => {
+      const request = index.getAll(workbookId);
+      request.onsuccess = () => {
+        const mutations: WorkbookMutation[] = request.result || [];
+        resolve(mutations.sort((a, b) => a.id - b.id));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error loading workbook mutations:', error);
+    throw toPersistenceError('load workbook edits', error);
+  }
+}
+
+// Workbook Version History Operations
+export type WorkbookVersionReason = 'ai-turn' | 'import' | 'interval' | 'manual' | 'restore';
+
+export interface WorkbookVersion {
+  id: number;
+  workbookId: string;
+  reason: WorkbookVersionReason;
+  label?: string;
+  createdAt: string;
+  size: number; // Bytes the stored (compressed) snapshot takes up
+  data?: IWorkbookData; // Omitted when listing versions to keep the history panel light
+}
+
+// A version as kept in the workbook_versions store, its snapshot possibly compressed
+type WorkbookVersionRecord = Omit<WorkbookVersion, 'data'> & StoredSnapshot;
+
+// Retention limits so version history can't grow without bound
+export const VERSION_RETENTION = {
+  maxVersionsPerWorkbook: 30,
+  maxAgeDays: 30,
+};
+
+export async function saveWorkbookVersion(
+  workbookId: string,
+  data: IWorkbookData,
+  reason: WorkbookVersionReason,
+  label?: string
+): Promise<WorkbookVersion> {
+  try {
+    const snapshot = await packSnapshot(data);
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_VERSIONS], 'readwrite');
+    const store = transaction.objectStore(STORES.WORKBOOK_VERSIONS);
+    const version: Omit<WorkbookVersion, 'id'> = {
+      workbookId,
+      reason,
+      label,
+      createdAt: new Date().toISOString(),
+      size: storedSnapshotSize(snapshot),
+      data,
+    };
+
+    const id = await new Promise<number>((resolve, reject) => {
+      const request = store.add({ ...version, ...snapshot });
+      request.onsuccess = () => resolve(request.result as number);
+      request.onerror = () => reject(request.error);
+    });
+
+    // The version is saved either way - a failed cleanup is retried on the next save
+    await pruneWorkbookVersions(workbookId).catch(() => {});
+
+    return { ...version, id };
+  } catch (error) {
+    console.error('Error saving workbook version:', error);
+    notifyIfQuotaExceeded(error);
+    throw toPersistenceError('save workbook version', error);
+  }
+}
+
+export async function getWorkbookVersions(workbookId: string): Promise<WorkbookVersion[]> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_VERSIONS], 'readonly');
+    const store = transaction.objectStore(STORES.WORKBOOK_VERSIONS);
+    const workbookIdIndex = store.index('workbookId');
+
     return new Promise((resolve, reject) => {
-      const request = store.get('current');
+      const versions: WorkbookVersion[] = [];
+      const request = workbookIdIndex.openCursor(workbookId);
       request.onsuccess = () => {
-        const result = request.result;
-        if (result && result.data) {
-          console.log('Workbook data loaded from IndexedDB');
-          resolve(result.data);
+        const cursor = request.result;
+        if (cursor) {
+          // The cursor still reads each whole record; dropping the snapshot keeps the list small
+          // once built. Code that only needs ids and dates should read the indexes instead.
+          // eslint-disable-next-line @typescript-eslint/no-unused-vars
+          const { data, compressedData, encoding, ...meta } = cursor.value;
+          versions.push(meta);
+          cursor.continue();
         } else {
-          resolve(null);
+          versions.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+          resolve(versions);
         }
       };
       request.onerror = () => reject(request.error);
     });
   } catch (error) {
-    console.error('Error loading workbook data:', error);
-    return null;
+    console.error('Error loading workbook versions:', error);
+    throw toPersistenceError('load workbook versions', error);
   }
 }
 
-export async function clearWorkbookData(): Promise<void> {
+export async function getWorkbookVersion(versionId: number): Promise<WorkbookVersion | null> {
   try {
     const db = await initDB();
-    const transaction = db.transaction([STORES.WORKBOOK_DATA], 'readwrite');
-    const store = transaction.objectStore(STORES.WORKBOOK_DATA);
-    
+    const transaction = db.transaction([STORES.WORKBOOK_VERSIONS], 'readonly');
+    const store = transaction.objectStore(STORES.WORKBOOK_VERSIONS);
+
+    const record = await new Promise<WorkbookVersionRecord | undefined>((resolve, reject) => {
+      const request = store.get(versionId);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    if (!record) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { compressedData, encoding, ...version } = record;
+    return { ...version, data: (await unpackSnapshot(record)) ?? undefined };
+  } catch (error) {
+    console.error('Error loading workbook version:', error);
+    throw toPersistenceError('load workbook version', error);
+  }
+}
+
+export async function deleteWorkbookVersion(versionId: number): Promise<void> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_VERSIONS], 'readwrite');
+    const store = transaction.objectStore(STORES.WORKBOOK_VERSIONS);
+
     await new Promise<void>((resolve, reject) => {
-      const request = store.delete('current');
+      const request = store.delete(versionId);
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   } catch (error) {
-    console.error('Error clearing workbook data:', error);
+    console.error('Error deleting workbook version:', error);
+    throw toPersistenceError('delete workbook version', error);
+  }
+}
+
+// Walk an index's keys without loading the records they point to
+function readIndexKeys(index: IDBIndex, query?: IDBValidKey | IDBKeyRange): Promise<{ key: IDBValidKey; primaryKey: IDBValidKey }[]> {
+  return new Promise((resolve, reject) => {
+    const keys: { key: IDBValidKey; primaryKey: IDBValidKey }[] = [];
+    const request = index.openKeyCursor(query);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(keys);
+        return;
+      }
+      keys.push({ key: cursor.key, primaryKey: cursor.primaryKey });
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Drop versions beyond the retention limits, always keeping the newest one. Works from the
+// workbookId and createdAt indexes so no snapshot is read.
+export async function pruneWorkbookVersions(workbookId: string): Promise<void> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_VERSIONS], 'readwrite');
+    const store = transaction.objectStore(STORES.WORKBOOK_VERSIONS);
+    const cutoff = Date.now() - VERSION_RETENTION.maxAgeDays * 24 * 60 * 60 * 1000;
+
+    const versionIds = new Set((await readIndexKeys(store.index('workbookId'), workbookId)).map(entry => entry.primaryKey));
+    // createdAt holds ISO timestamps, so index order is oldest first
+    const versions = (await readIndexKeys(store.index('createdAt')))
+      .filter(entry => versionIds.has(entry.primaryKey))
+      .reverse();
+
+    const expired = versions.filter((version, index) =>
+      index > 0 && (
+        index >= VERSION_RETENTION.maxVersionsPerWorkbook ||
+        new Date(version.key as string).getTime() < cutoff
+      )
+    );
+
+    for (const version of expired) {
+      store.delete(version.primaryKey);
+    }
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+    if (expired.length > 0) {
+      console.log(`🧹 Pruned ${expired.length} old version(s) of workbook ${workbookId}`);
+    }
+  } catch (error) {
+    console.error('Error pruning workbook versions:', error);
+    throw toPersistenceError('prune workbook versions', error);
+  }
+}
+
+// Delete a workbook's whole version history, e.g. to free up storage
+export async function clearWorkbookVersions(workbookId: string): Promise<void> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction([STORES.WORKBOOK_VERSIONS], 'readwrite');
+    const index = transaction.objectStore(STORES.WORKBOOK_VERSIONS).index('workbookId');
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openKeyCursor(workbookId);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        transaction.objectStore(STORES.WORKBOOK_VERSIONS).delete(cursor.primaryKey);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  } catch (error) {
+    console.error('Error clearing workbook versions:', error);
+    throw toPersistenceError('clear workbook versions', error);
   }
 }
 
+// Storage Usage
+export interface WorkbookStorageUsage {
+  workbookId: string;
+  name: string;
+  snapshotBytes: number;
+  versionBytes: number;
+  versionCount: number;
+  mutationBytes: number; // Edits logged since the last snapshot
+  totalBytes: number;
+}
+
+// What each workbook stores, largest first - for finding what to delete when storage runs low
+export async function getWorkbookStorageUsage(): Promise<WorkbookStorageUsage[]> {
+  try {
+    const db = await initDB();
+    const transaction = db.transaction(
+      [STORES.WORKBOOKS, STORES.WORKBOOK_DATA, STORES.WORKBOOK_VERSIONS, STORES.WORKBOOK_MUTATIONS],
+      'readonly'
+    );
+
+    const workbooks = await new Promise<WorkbookMeta[]>((resolve, reject) => {
+      const request = transaction.objectStore(STORES.WORKBOOKS).getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+
+    const usage = new Map<string, WorkbookStorageUsage>(workbooks.map(workbook => [workbook.id, {
+      workbookId: workbook.id,
+      name: workbook.name,
+      snapshotBytes: 0,
+      versionBytes: 0,
+      versionCount: 0,
+      mutationBytes: 0,
+      totalBytes: 0,
+    }]));
+
+    // Walk a store with a cursor so only one record is held in memory at a time
+    const visit = <T>(storeName: string, onRecord: (record: T) => void) => new Promise<void>((resolve, reject) => {
+      const request = transaction.objectStore(storeName).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        onRecord(cursor.value);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    await visit<WorkbookDataRecord>(STORES.WORKBOOK_DATA, (record) => {
+      const entry = usage.get(record.id);
+      if (entry) entry.snapshotBytes += storedSnapshotSize(record);
+    });
+    await visit<WorkbookVersionRecord>(STORES.WORKBOOK_VERSIONS, (record) => {
+      const entry = usage.get(record.workbookId);
+      if (!entry) return;
+      entry.versionBytes += storedSnapshotSize(record);
+      entry.versionCount++;
+    });
+    await visit<WorkbookMutation>(STORES.WORKBOOK_MUTATIONS, (record) => {
+      const entry = usage.get(record.workbookId);
+      if (entry) entry.mutationBytes += estimateDataSize(record.params);
+    });
+
+    return Array.from(usage.values())
+      .map(entry => ({ ...entry, totalBytes: entry.snapshotBytes + entry.versionBytes + entry.mutationBytes }))
+      .sort((a, b) => b.totalBytes - a.totalBytes);
+  } catch (error) {
+    console.error('Error measuring workbook storage:', error);
+    throw toPersistenceError('measure workbook storage', error);
+  }
+}
@@ -0,0 +1,267 @@
+// Ordered IndexedDB migrations: each one moves the schema and the stored records up by one version
+
+import type { ICellData, IWorkbookData, IWorksheetData } from '@univerjs/core';
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction; // The versionchange transaction - every store is writable
+  oldVersion: number; // Version the database had before this upgrade started (0 when new)
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Store names are written out rather than taken from STORES so a migration
+  // keeps describing the schema as it was at its version
+  migrate: (context: MigrationContext) => void | Promise<void>;
+}
+
+// Record id used by the single-workbook layout before the workbook catalog existed
+const LEGACY_WORKBOOK_ID = 'current';
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Visit every record in a store, replacing it when update returns a new value
+async function updateRecords<T>(store: IDBObjectStore, update: (record: T) => T | undefined): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      const updated = update(cursor.value);
+      if (updated !== undefined) {
+        cursor.update(updated);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * True for the snapshot format used before workbooks were stored as Univer's IWorkbookData:
+ * a plain object of sheet name -> rows of cell values
+ */
+export function isLegacyWorkbookData(data: unknown): data is Record<string, unknown[][]> {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+  if ('sheets' in data || 'sheetOrder' in data) return false;
+  const values = Object.values(data);
+  return values.length > 0 && values.every(rows => Array.isArray(rows) && rows.every(row => Array.isArray(row)));
+}
+
+function legacyCell(value: unknown): ICellData | null {
+  if (value === undefined || value === null || value === '') return null;
+  // Some builds kept cell objects instead of bare values
+  if (typeof value === 'object') {
+    return 'v' in value || 'f' in value ? value as ICellData : { v: JSON.stringify(value) };
+  }
+  if (typeof value === 'string' && value.startsWith('=') && value.length > 1) {
+    return { f: value };
+  }
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+    ? { v: value }
+    : { v: String(value) };
+}
+
+// Convert a legacy { sheetName: any[][] } snapshot into IWorkbookData, keeping every value
+export function convertLegacyWorkbookData(data: Record<string, unknown[][]>, workbookId: string, name: string): IWorkbookData {
+  const sheetOrder: string[] = [];
+  const sheets: Record<string, Partial<IWorksheetData>> = {};
+
+  Object.entries(data).forEach(([sheetName, rows], index) => {
+    const sheetId = `sheet-${index + 1}`;
+    const cellData: Record<number, Record<number, ICellData>> = {};
+    let columnCount = 0;
+
+    rows.forEach((row, rowIndex) => {
+      row.forEach((value, columnIndex) => {
+        const cell = legacyCell(value);
+        if (!cell) return;
+        (cellData[rowIndex] ||= {})[columnIndex] = cell;
+      });
+      columnCount = Math.max(columnCount, row.length);
+    });
+
+    sheetOrder.push(sheetId);
+    sheets[sheetId] = {
+      id: sheetId,
+      name: sheetName,
+      rowCount: rows.length,
+      columnCount,
+      cellData,
+    };
+  });
+
+  return {
+    id: workbookId,
+    name,
+    appVersion: '',
+    locale: 'enUS',
+    styles: {},
+    sheetOrder,
+    sheets,
+  } as unknown as IWorkbookData;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Chat history and workbook data stores',
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains('chat_history')) {
+        const chatStore = db.createObjectStore('chat_history', { keyPath: 'id', autoIncrement: true });
+        chatStore.createIndex('timestamp', 'timestamp', { unique: false });
+      }
+      if (!db.objectStoreNames.contains('workbook_data')) {
+        db.createObjectStore('workbook_data', { keyPath: 'id' });
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Multiple chat sessions',
+    migrate: ({ db, transaction }) => {
+      if (!db.objectStoreNames.contains('chats')) {
+        const chatsStore = db.createObjectStore('chats', { keyPath: 'id' });
+        chatsStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+      const chatStore = transaction.objectStore('chat_history');
+      if (!chatStore.indexNames.contains('chatId')) {
+        chatStore.createIndex('chatId', 'chatId', { unique: false });
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'Workbook catalog; the single "current" workbook becomes its first entry',
+    migrate: async ({ db, transaction }) => {
+      if (db.objectStoreNames.contains('workbooks')) return;
+      const workbooksStore = db.createObjectStore('workbooks', { keyPath: 'id' });
+      workbooksStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+
+      const dataStore = transaction.objectStore('workbook_data');
+      const legacy = await requestResult(dataStore.get(LEGACY_WORKBOOK_ID));
+      if (!legacy || !legacy.data) return;
+
+      const now = new Date().toISOString();
+      const id = `workbook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      await requestResult(workbooksStore.add({
+        id,
+        name: legacy.data.name || 'My Workbook',
+        size: JSON.stringify(legacy.data).length,
+        createdAt: now,
+        updatedAt: legacy.savedAt || now,
+      }));
+      await requestResult(dataStore.put({ ...legacy, id }));
+      await requestResult(dataStore.delete(LEGACY_WORKBOOK_ID));
+    },
+  },
+  {
+    version: 4,
+    description: 'Chats are bound to a workbook',
+    migrate: async ({ transaction }) => {
+      const chatsStore = transaction.objectStore('chats');
+      if (!chatsStore.indexNames.contains('workbookId')) {
+        chatsStore.createIndex('workbookId', 'workbookId', { unique: false });
+      }
+
+      // Chats from before the catalog were all about the single workbook - bind them to it
+      const workbooks = await requestResult(transaction.objectStore('workbooks').getAll());
+      if (workbooks.length !== 1) return;
+      await updateRecords<{ workbookId?: string }>(chatsStore, chat => (chat.workbookId ? undefined : { ...chat, workbookId: workbooks[0].id }));
+    },
+  },
+  {
+    version: 5,
+    description: 'Workbook version history',
+    migrate: ({ db }) => {
+      if (db.objectStoreNames.contains('workbook_versions')) return;
+      const versionsStore = db.createObjectStore('workbook_versions', { keyPath: 'id', autoIncrement: true });
+      versionsStore.createIndex('workbookId', 'workbookId', { unique: false });
+      versionsStore.createIndex('createdAt', 'createdAt', { unique: false });
+    },
+  },
+  {
+    version: 6,
+    description: 'Append-only mutation log replayed on top of each snapshot',
+    migrate: ({ db }) => {
+      if (db.objectStoreNames.contains('workbook_mutations')) return;
+      const mutationsStore = db.createObjectStore('workbook_mutations', { keyPath: 'id', autoIncrement: true });
+      mutationsStore.createIndex('workbookId', 'workbookId', { unique: false });
+    },
+  },
+  {
+    version: 7,
+    description: 'Convert legacy { sheetName: any[][] } snapshots into IWorkbookData',
+    migrate: async ({ transaction }) => {
+      const workbooks = await requestResult(transaction.objectStore('workbooks').getAll());
+      const names = new Map<string, string>(workbooks.map((workbook: { id: string; name: string }) => [workbook.id, workbook.name]));
+
+      const convert = (record: { id: string | number; workbookId?: string; data?: unknown }) => {
+        if (!isLegacyWorkbookData(record.data)) return undefined;
+        const workbookId = record.workbookId ?? String(record.id);
+        const name = names.get(workbookId) || 'My Workbook';
+        return { ...record, data: convertLegacyWorkbookData(record.data, workbookId, name) };
+      };
+      await updateRecords(transaction.objectStore('workbook_data'), convert);
+      await updateRecords(transaction.objectStore('workbook_versions'), convert);
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Apply, in order, every migration above oldVersion up to and including targetVersion
+export async function runMigrations(context: MigrationContext, targetVersion: number = LATEST_DB_VERSION): Promise<void> {
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= context.oldVersion || migration.version > targetVersion) continue;
+    console.log(`🔧 Migrating database to v${migration.version}: ${migration.description}`);
+    await migration.migrate(context);
+  }
+}
+
+/**
+ * Open (creating or upgrading as needed) a database at the given version.
+ * Takes the name and version so fixture databases can be migrated step by step.
+ */
+export function openDatabase(name: string, version: number = LATEST_DB_VERSION): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    let migrationError: unknown = null;
+
+    request.onerror = () => {
+      reject(migrationError instanceof Error ? migrationError : new Error('Failed to open IndexedDB'));
+    };
+
+    request.onblocked = () => {
+      console.warn('⚠️ Database upgrade is waiting for other SheetGrid tabs to close');
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version of the app in another tab upgrade the database
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction;
+      if (!transaction) return;
+
+      // A failed migration aborts the whole upgrade, leaving the old data untouched
+      runMigrations({ db: request.result, transaction, oldVersion: event.oldVersion }, version).catch((error) => {
+        console.error('❌ Database migration failed:', error);
+        migrationError = error;
+        transaction.abort();
+      });
+    };
+  });
+}
@@ -0,0 +1,88 @@
+// Column widths and hidden columns from an OpenDocument spreadsheet's content.xml. SheetJS reads
+// .ods values, formulas and merges but not the column styles, so they're read from the package here.
+
+import JSZip from 'jszip';
+
+export interface ODSColumn {
+  width?: number; // Pixels
+  hidden?: boolean;
+}
+
+const PIXELS_PER_UNIT: Record<string, number> = {
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+};
+
+// Largest column count a sheet's repeated trailing columns are expanded to
+const MAX_COLUMNS = 16384;
+
+// ODF lengths such as "2.258cm", "0.889in" or "64pt", in pixels at 96 DPI
+function lengthToPixels(length: string): number | undefined {
+  const match = /^([\d.]+)(px|pt|pc|in|cm|mm)$/.exec(length.trim());
+  if (!match) return undefined;
+  return Math.round(parseFloat(match[1]) * PIXELS_PER_UNIT[match[2]]);
+}
+
+function readAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:.-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads each sheet's columns from an .ods file, keyed by sheet name. Only the start tags are
+ * scanned, so large sheets aren't parsed into a document tree a second time.
+ */
+export async function readODSColumns(data: ArrayBuffer): Promise<Map<string, ODSColumn[]>> {
+  const sheets = new Map<string, ODSColumn[]>();
+  const zip = await JSZip.loadAsync(data);
+  const content = await zip.file('content.xml')?.async('string');
+  if (!content) return sheets;
+
+  // Column styles, e.g. <style:style style:name="co1" style:family="table-column"> with a column-width
+  const columnWidths = new Map<string, number>();
+  for (const match of content.matchAll(/<style:style\s([^>]*)>([\s\S]*?)<\/style:style>/g)) {
+    const style = readAttributes(match[1]);
+    if (style['style:family'] !== 'table-column') continue;
+    const properties = /<style:table-column-properties\s([^>]*?)\/?>/.exec(match[2]);
+    const width = properties ? readAttributes(properties[1])['style:column-width'] : undefined;
+    const pixels = width ? lengthToPixels(width) : undefined;
+    if (pixels !== undefined) columnWidths.set(style['style:name'], pixels);
+  }
+
+  // Walk the tables' column declarations in document order
+  let columns: ODSColumn[] | null = null;
+  for (const match of content.matchAll(/<table:table(-column)?(?:\s([^>]*?))?\/?>/g)) {
+    const attributes = readAttributes(match[2] || '');
+    if (!match[1]) {
+      columns = [];
+      sheets.set(decodeXml(attributes['table:name'] || ''), columns);
+      continue;
+    }
+    if (!columns) continue;
+
+    const width = columnWidths.get(attributes['table:style-name']);
+    const hidden = attributes['table:visibility'] === 'collapse';
+    const repeat = Math.min(parseInt(attributes['table:number-columns-repeated'] || '1', 10) || 1, MAX_COLUMNS - columns.length);
+    for (let i = 0; i < repeat; i++) {
+      columns.push({ ...(width !== undefined ? { width } : {}), ...(hidden ? { hidden } : {}) });
+    }
+  }
+
+  return sheets;
+}
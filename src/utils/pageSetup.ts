@@ -0,0 +1,80 @@
+// How a sheet is laid out on paper when printed or saved as PDF. Each sheet keeps its own setup
+// in its `custom` data, so it travels with the workbook like the rest of the sheet's settings.
+
+import type { CustomData } from '@univerjs/core';
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+export type PaperSize = 'letter' | 'legal' | 'tabloid' | 'a3' | 'a4' | 'a5';
+
+export interface PageMargins {
+  top: number; // Inches, as in Excel's page setup
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PageSetup {
+  orientation: PageOrientation;
+  paperSize: PaperSize;
+  margins: PageMargins;
+  fitToWidth: boolean; // Shrink the columns to fit one page across
+  repeatHeaderRows: number; // Rows at the top of the print area printed again on every page
+  printArea: string; // A1 range such as "A1:H40"; empty prints everything in the sheet
+  showGridlines: boolean;
+  header: string; // {page}, {pages}, {sheet} and {date} are filled in per page
+  footer: string;
+}
+
+// Portrait width and height in points
+export const PAPER_SIZES: Record<PaperSize, { label: string; width: number; height: number }> = {
+  letter: { label: 'Letter (8.5 × 11 in)', width: 612, height: 792 },
+  legal: { label: 'Legal (8.5 × 14 in)', width: 612, height: 1008 },
+  tabloid: { label: 'Tabloid (11 × 17 in)', width: 792, height: 1224 },
+  a3: { label: 'A3 (297 × 420 mm)', width: 841.89, height: 1190.55 },
+  a4: { label: 'A4 (210 × 297 mm)', width: 595.28, height: 841.89 },
+  a5: { label: 'A5 (148 × 210 mm)', width: 419.53, height: 595.28 },
+};
+
+// Excel's "Normal" margins
+export const DEFAULT_PAGE_SETUP: PageSetup = {
+  orientation: 'portrait',
+  paperSize: 'letter',
+  margins: { top: 0.75, right: 0.7, bottom: 0.75, left: 0.7 },
+  fitToWidth: false,
+  repeatHeaderRows: 0,
+  printArea: '',
+  showGridlines: false,
+  header: '{sheet}',
+  footer: 'Page {page} of {pages}',
+};
+
+const PAGE_SETUP_KEY = 'pageSetup';
+
+/**
+ * Reads a sheet's saved page setup from its custom data (`FWorksheet.getCustomMetadata()`),
+ * filling anything missing from the defaults.
+ */
+export function readPageSetup(custom: CustomData): PageSetup {
+  const saved = custom?.[PAGE_SETUP_KEY] as Partial<PageSetup> | undefined;
+  if (!saved || typeof saved !== 'object') return DEFAULT_PAGE_SETUP;
+  return {
+    ...DEFAULT_PAGE_SETUP,
+    ...saved,
+    margins: { ...DEFAULT_PAGE_SETUP.margins, ...saved.margins },
+  };
+}
+
+// The sheet's custom data with the page setup stored in it, for `FWorksheet.setCustomMetadata()`
+export function withPageSetup(custom: CustomData, setup: PageSetup): Record<string, unknown> {
+  return { ...custom, [PAGE_SETUP_KEY]: setup };
+}
+
+// Fills in a header or footer's placeholders
+export function formatPageText(template: string, values: { page: number; pages: number; sheet: string; date: string }): string {
+  return template
+    .replace(/\{page\}/gi, String(values.page))
+    .replace(/\{pages\}/gi, String(values.pages))
+    .replace(/\{sheet\}/gi, values.sheet)
+    .replace(/\{date\}/gi, values.date);
+}
@@ -0,0 +1,388 @@
+// Renders a sheet range to a paginated PDF in the browser, following a PageSetup: cell fills,
+// fonts, alignment, wrapping, borders and merges come from Univer's sheet data, and the text
+// is the formatted text the grid shows. jsPDF's built-in fonts only cover Latin characters.
+
+import { jsPDF } from 'jspdf';
+import type { IRange, IStyleData, IWorkbookData, IWorksheetData, Nullable } from '@univerjs/core';
+import { BooleanNumber, BorderStyleTypes, CellValueType, HorizontalAlign, VerticalAlign, WrapStrategy } from '@univerjs/core';
+import { resolveCellStyle, toXLSXColor } from './xlsxStyles';
+import { formatPageText, PAPER_SIZES, type PageSetup } from './pageSetup';
+
+export interface PrintSource {
+  sheet: Partial<IWorksheetData>; // The sheet as `workbook.save()` returns it
+  styles: IWorkbookData['styles'];
+  range: IRange; // The cells to print
+  displayValues: string[][]; // `range`'s formatted text, as FRange.getDisplayValues() returns it
+}
+
+// Univer's defaults when a sheet doesn't set its own
+const DEFAULT_COLUMN_WIDTH = 88;
+const DEFAULT_ROW_HEIGHT = 24;
+const DEFAULT_FONT_SIZE = 11;
+
+const POINTS_PER_PIXEL = 0.75;
+const POINTS_PER_INCH = 72;
+const HEADER_FOOTER_OFFSET = 0.3 * POINTS_PER_INCH; // From the paper's edge, as Excel's default
+const CELL_PADDING = 2;
+const GRIDLINE_COLOR = '#D0D0D0';
+// Rounding slack, so columns scaled to exactly the page width still fit on it
+const LAYOUT_TOLERANCE = 0.01;
+
+// How long the print tab's blob URL is kept if the tab never reports that it loaded
+const PRINT_URL_LIFETIME_MS = 60 * 1000;
+
+// A page is a run of rows (repeated header rows first, on later pages) by a run of columns
+interface PageLayout {
+  rows: number[];
+  columns: number[];
+}
+
+function toPDFColor(color: Nullable<string>): string | null {
+  const hex = toXLSXColor(color);
+  return hex ? `#${hex}` : null;
+}
+
+// jsPDF only has its three standard families; anything else prints as Helvetica
+function fontFamily(name: Nullable<string>): string {
+  const lower = (name || '').toLowerCase();
+  if (/times|serif|georgia|cambria|garamond/.test(lower) && !lower.includes('sans')) return 'times';
+  if (/courier|mono|consolas/.test(lower)) return 'courier';
+  return 'helvetica';
+}
+
+function fontStyle(style: IStyleData | null): string {
+  const bold = style?.bl === BooleanNumber.TRUE;
+  const italic = style?.it === BooleanNumber.TRUE;
+  if (bold && italic) return 'bolditalic';
+  if (bold) return 'bold';
+  if (italic) return 'italic';
+  return 'normal';
+}
+
+function borderWidth(style: BorderStyleTypes): number {
+  switch (style) {
+    case BorderStyleTypes.MEDIUM:
+    case BorderStyleTypes.MEDIUM_DASHED:
+    case BorderStyleTypes.MEDIUM_DASH_DOT:
+    case BorderStyleTypes.MEDIUM_DASH_DOT_DOT:
+    case BorderStyleTypes.SLANT_DASH_DOT:
+      return 1;
+    case BorderStyleTypes.THICK:
+    case BorderStyleTypes.DOUBLE:
+      return 1.5;
+    case BorderStyleTypes.HAIR:
+      return 0.25;
+    default:
+      return 0.5;
+  }
+}
+
+function borderDash(style: BorderStyleTypes): number[] {
+  switch (style) {
+    case BorderStyleTypes.DOTTED:
+    case BorderStyleTypes.HAIR:
+      return [1, 1];
+    case BorderStyleTypes.DASHED:
+    case BorderStyleTypes.MEDIUM_DASHED:
+      return [3, 2];
+    case BorderStyleTypes.DASH_DOT:
+    case BorderStyleTypes.DASH_DOT_DOT:
+    case BorderStyleTypes.MEDIUM_DASH_DOT:
+    case BorderStyleTypes.MEDIUM_DASH_DOT_DOT:
+    case BorderStyleTypes.SLANT_DASH_DOT:
+      return [3, 1, 1, 1];
+    default:
+      return [];
+  }
+}
+
+function isNumericCell(cell: Nullable<{ v?: unknown; t?: unknown }>): boolean {
+  if (!cell) return false;
+  const type: unknown = cell.t;
+  return type === CellValueType.NUMBER || type === 'n' || ((type === undefined || type === null) && typeof cell.v === 'number');
+}
+
+/**
+ * Splits the range into pages: across the columns first (each band as wide as fits, or one
+ * band when fitting to width), then down the rows, repeating the header rows on every page
+ * after the first. Pages are ordered down, then over, as Excel prints them.
+ */
+function layoutPages(
+  rows: number[],
+  columns: number[],
+  rowHeight: (row: number) => number,
+  columnWidth: (column: number) => number,
+  pageWidth: number,
+  pageHeight: number,
+  headerRowCount: number
+): PageLayout[] {
+  const bands: number[][] = [];
+  let band: number[] = [];
+  let bandWidth = 0;
+  for (const column of columns) {
+    const width = columnWidth(column);
+    if (band.length > 0 && bandWidth + width > pageWidth + LAYOUT_TOLERANCE) {
+      bands.push(band);
+      band = [];
+      bandWidth = 0;
+    }
+    band.push(column);
+    bandWidth += width;
+  }
+  if (band.length > 0) bands.push(band);
+
+  const headerRows = rows.slice(0, headerRowCount);
+  const headerHeight = headerRows.reduce((sum, row) => sum + rowHeight(row), 0);
+  // Header rows that fill most of the page aren't repeated, or nothing else would fit
+  const repeatHeader = headerRows.length > 0 && headerHeight < pageHeight / 2;
+
+  const rowPages: number[][] = [];
+  let page: number[] = [];
+  let pageUsed = 0;
+  for (const row of rows) {
+    const height = rowHeight(row);
+    if (page.length > 0 && pageUsed + height > pageHeight + LAYOUT_TOLERANCE && !(repeatHeader && page.length === headerRows.length && rowPages.length > 0)) {
+      rowPages.push(page);
+      page = repeatHeader ? [...headerRows] : [];
+      pageUsed = repeatHeader ? headerHeight : 0;
+    }
+    page.push(row);
+    pageUsed += height;
+  }
+  if (page.length > 0) rowPages.push(page);
+
+  return bands.flatMap(bandColumns => rowPages.map(pageRows => ({ rows: pageRows, columns: bandColumns })));
+}
+
+/**
+ * Renders the cells in `source.range` to a PDF document laid out by `setup`. The document is
+ * returned for the caller to save or print.
+ */
+export function renderSheetToPDF(source: PrintSource, setup: PageSetup, sheetName: string): jsPDF {
+  const { sheet, styles, range, displayValues } = source;
+  const paper = PAPER_SIZES[setup.paperSize];
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: [paper.width, paper.height],
+    orientation: setup.orientation,
+  });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margins = {
+    top: setup.margins.top * POINTS_PER_INCH,
+    right: setup.margins.right * POINTS_PER_INCH,
+    bottom: setup.margins.bottom * POINTS_PER_INCH,
+    left: setup.margins.left * POINTS_PER_INCH,
+  };
+  const printableWidth = Math.max(pageWidth - margins.left - margins.right, 36);
+  const printableHeight = Math.max(pageHeight - margins.top - margins.bottom, 36);
+
+  // Hidden rows and columns aren't printed
+  const rows: number[] = [];
+  for (let row = range.startRow; row <= range.endRow; row++) {
+    if (sheet.rowData?.[row]?.hd !== BooleanNumber.TRUE) rows.push(row);
+  }
+  const columns: number[] = [];
+  for (let column = range.startColumn; column <= range.endColumn; column++) {
+    if (sheet.columnData?.[column]?.hd !== BooleanNumber.TRUE) columns.push(column);
+  }
+
+  const totalWidth = columns.reduce((sum, column) => sum + (sheet.columnData?.[column]?.w ?? sheet.defaultColumnWidth ?? DEFAULT_COLUMN_WIDTH), 0) * POINTS_PER_PIXEL;
+  const scale = setup.fitToWidth && totalWidth > printableWidth ? printableWidth / totalWidth : 1;
+  const columnWidth = (column: number) => (sheet.columnData?.[column]?.w ?? sheet.defaultColumnWidth ?? DEFAULT_COLUMN_WIDTH) * POINTS_PER_PIXEL * scale;
+  const rowHeight = (row: number) => (sheet.rowData?.[row]?.h ?? sheet.defaultRowHeight ?? DEFAULT_ROW_HEIGHT) * POINTS_PER_PIXEL * scale;
+
+  const pages = layoutPages(rows, columns, rowHeight, columnWidth, printableWidth, printableHeight, Math.min(setup.repeatHeaderRows, rows.length));
+
+  // Merged cells print as one cell from their top-left corner; the cells they cover are skipped
+  const merges = (sheet.mergeData || []).filter(merge =>
+    merge.startRow <= range.endRow && merge.endRow >= range.startRow
+    && merge.startColumn <= range.endColumn && merge.endColumn >= range.startColumn);
+  const mergeAt = new Map<string, IRange>();
+  for (const merge of merges) {
+    for (let row = merge.startRow; row <= merge.endRow; row++) {
+      for (let column = merge.startColumn; column <= merge.endColumn; column++) {
+        mergeAt.set(`${row}:${column}`, merge);
+      }
+    }
+  }
+
+  const date = new Date().toLocaleDateString();
+  pages.forEach((page, pageIndex) => {
+    if (pageIndex > 0) doc.addPage([paper.width, paper.height], setup.orientation);
+
+    const rowTop = new Map<number, number>();
+    let y = margins.top;
+    for (const row of page.rows) {
+      rowTop.set(row, y);
+      y += rowHeight(row);
+    }
+    const columnLeft = new Map<number, number>();
+    let x = margins.left;
+    for (const column of page.columns) {
+      columnLeft.set(column, x);
+      x += columnWidth(column);
+    }
+
+    // One box per cell, or per merge as far as it's on this page
+    interface CellBox { row: number; column: number; x: number; y: number; width: number; height: number }
+    const boxes: CellBox[] = [];
+    const drawnMerges = new Set<IRange>();
+    for (const row of page.rows) {
+      for (const column of page.columns) {
+        const merge = mergeAt.get(`${row}:${column}`);
+        if (merge) {
+          if (drawnMerges.has(merge)) continue;
+          drawnMerges.add(merge);
+          const mergeRows = page.rows.filter(r => r >= merge.startRow && r <= merge.endRow && r >= row);
+          const mergeColumns = page.columns.filter(c => c >= merge.startColumn && c <= merge.endColumn && c >= column);
+          const lastRow = mergeRows[mergeRows.length - 1];
+          const lastColumn = mergeColumns[mergeColumns.length - 1];
+          boxes.push({
+            row: merge.startRow,
+            column: merge.startColumn,
+            x: columnLeft.get(column)!,
+            y: rowTop.get(row)!,
+            width: columnLeft.get(lastColumn)! + columnWidth(lastColumn) - columnLeft.get(column)!,
+            height: rowTop.get(lastRow)! + rowHeight(lastRow) - rowTop.get(row)!,
+          });
+        } else {
+          boxes.push({ row, column, x: columnLeft.get(column)!, y: rowTop.get(row)!, width: columnWidth(column), height: rowHeight(row) });
+        }
+      }
+    }
+
+    const cellAt = (box: CellBox) => sheet.cellData?.[box.row]?.[box.column];
+    const styleAt = (box: CellBox) => resolveCellStyle(styles, cellAt(box)?.s);
+
+    // Fills, then gridlines, then text, then borders on top
+    for (const box of boxes) {
+      const fill = toPDFColor(styleAt(box)?.bg?.rgb);
+      if (fill) {
+        doc.setFillColor(fill);
+        doc.rect(box.x, box.y, box.width, box.height, 'F');
+      }
+    }
+
+    if (setup.showGridlines) {
+      doc.setDrawColor(GRIDLINE_COLOR);
+      doc.setLineWidth(0.25);
+      for (const box of boxes) {
+        doc.rect(box.x, box.y, box.width, box.height, 'S');
+      }
+    }
+
+    for (const box of boxes) {
+      const inRange = box.row >= range.startRow && box.row <= range.endRow && box.column >= range.startColumn && box.column <= range.endColumn;
+      const text = inRange ? displayValues[box.row - range.startRow]?.[box.column - range.startColumn] ?? '' : '';
+      if (!text) continue;
+
+      const style = styleAt(box);
+      const fontSize = (style?.fs ?? DEFAULT_FONT_SIZE) * scale;
+      doc.setFont(fontFamily(style?.ff), fontStyle(style));
+      doc.setFontSize(fontSize);
+      doc.setTextColor(toPDFColor(style?.cl?.rgb) ?? '#000000');
+
+      const padding = CELL_PADDING * scale;
+      const innerWidth = Math.max(box.width - padding * 2, 1);
+      const lines: string[] = style?.tb === WrapStrategy.WRAP ? doc.splitTextToSize(text, innerWidth) : [text.replace(/\r?\n/g, ' ')];
+      const lineHeight = fontSize * 1.15;
+      const textHeight = lines.length * lineHeight;
+
+      const horizontal = style?.ht
+        ?? (isNumericCell(cellAt(box)) ? HorizontalAlign.RIGHT : HorizontalAlign.LEFT);
+      const align = horizontal === HorizontalAlign.CENTER ? 'center' : horizontal === HorizontalAlign.RIGHT ? 'right' : 'left';
+      const textX = align === 'center' ? box.x + box.width / 2 : align === 'right' ? box.x + box.width - padding : box.x + padding;
+      const vertical = style?.vt ?? VerticalAlign.BOTTOM;
+      const top = vertical === VerticalAlign.TOP
+        ? box.y + padding
+        : vertical === VerticalAlign.MIDDLE
+          ? box.y + (box.height - textHeight) / 2
+          : box.y + box.height - padding - textHeight;
+
+      // Text that doesn't fit is cut off at the cell's edges
+      doc.saveGraphicsState();
+      doc.rect(box.x, box.y, box.width, box.height, null);
+      doc.clip();
+      doc.discardPath();
+      lines.forEach((line, index) => {
+        const baseline = top + index * lineHeight + fontSize;
+        doc.text(line, textX, baseline, { align });
+        const decorations = [
+          style?.ul?.s === BooleanNumber.TRUE ? baseline + fontSize * 0.1 : null,
+          style?.st?.s === BooleanNumber.TRUE ? baseline - fontSize * 0.3 : null,
+        ];
+        const lineWidth = doc.getTextWidth(line);
+        const left = align === 'center' ? textX - lineWidth / 2 : align === 'right' ? textX - lineWidth : textX;
+        for (const decorationY of decorations) {
+          if (decorationY === null) continue;
+          doc.setDrawColor(toPDFColor(style?.cl?.rgb) ?? '#000000');
+          doc.setLineWidth(Math.max(fontSize / 16, 0.5));
+          doc.line(left, decorationY, left + lineWidth, decorationY);
+        }
+      });
+      doc.restoreGraphicsState();
+    }
+
+    for (const box of boxes) {
+      const borders = styleAt(box)?.bd;
+      if (!borders) continue;
+      const edges = [
+        { border: borders.t, x1: box.x, y1: box.y, x2: box.x + box.width, y2: box.y },
+        { border: borders.b, x1: box.x, y1: box.y + box.height, x2: box.x + box.width, y2: box.y + box.height },
+        { border: borders.l, x1: box.x, y1: box.y, x2: box.x, y2: box.y + box.height },
+        { border: borders.r, x1: box.x + box.width, y1: box.y, x2: box.x + box.width, y2: box.y + box.height },
+      ];
+      for (const edge of edges) {
+        if (!edge.border || edge.border.s === BorderStyleTypes.NONE) continue;
+        doc.setDrawColor(toPDFColor(edge.border.cl?.rgb) ?? '#000000');
+        doc.setLineWidth(borderWidth(edge.border.s));
+        doc.setLineDashPattern(borderDash(edge.border.s), 0);
+        doc.line(edge.x1, edge.y1, edge.x2, edge.y2);
+      }
+      doc.setLineDashPattern([], 0);
+    }
+  });
+
+  // Headers and footers go on last, once the page count is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor('#555555');
+    const values = { page, pages: pageCount, sheet: sheetName, date };
+    if (setup.header) {
+      doc.text(formatPageText(setup.header, values), pageWidth / 2, HEADER_FOOTER_OFFSET + 9, { align: 'center' });
+    }
+    if (setup.footer) {
+      doc.text(formatPageText(setup.footer, values), pageWidth / 2, pageHeight - HEADER_FOOTER_OFFSET, { align: 'center' });
+    }
+  }
+
+  return doc;
+}
+
+export function downloadSheetPDF(source: PrintSource, setup: PageSetup, sheetName: string, filename: string): void {
+  renderSheetToPDF(source, setup, sheetName).save(filename);
+}
+
+// Opens the PDF in a new tab with the print dialog up
+export function printSheetPDF(source: PrintSource, setup: PageSetup, sheetName: string): void {
+  const doc = renderSheetToPDF(source, setup, sheetName);
+  doc.autoPrint();
+  const url = doc.output('bloburl').toString();
+  const printWindow = window.open(url, '_blank');
+  if (!printWindow) {
+    URL.revokeObjectURL(url);
+    throw new Error('The print window was blocked; allow pop-ups for this site, or download the PDF instead');
+  }
+  // The new tab has the PDF once it loads; a timeout covers viewers that never report it
+  let revokeTimeout: ReturnType<typeof setTimeout> | null = null;
+  const revoke = () => {
+    if (revokeTimeout) clearTimeout(revokeTimeout);
+    URL.revokeObjectURL(url);
+  };
+  printWindow.addEventListener('load', revoke, { once: true });
+  revokeTimeout = setTimeout(revoke, PRINT_URL_LIFETIME_MS);
+}
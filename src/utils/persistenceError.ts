@@ -0,0 +1,58 @@
+// Typed failures from the IndexedDB layer, so callers can tell "nothing stored" from "storage is broken"
+
+export type PersistenceErrorKind =
+  | 'quota' // The browser is out of space for this origin
+  | 'unavailable' // IndexedDB can't be opened (private mode, disabled, outdated tab after an upgrade)
+  | 'not-found' // The record an update or delete targets doesn't exist
+  | 'corrupt' // A stored record couldn't be decoded
+  | 'unknown';
+
+export class PersistenceError extends Error {
+  readonly kind: PersistenceErrorKind;
+  readonly operation: string;
+  readonly cause: unknown;
+
+  constructor(kind: PersistenceErrorKind, operation: string, cause?: unknown) {
+    super(`Failed to ${operation}: ${describeKind(kind, cause)}`);
+    this.name = 'PersistenceError';
+    this.kind = kind;
+    this.operation = operation;
+    this.cause = cause;
+  }
+}
+
+function describeKind(kind: PersistenceErrorKind, cause: unknown): string {
+  switch (kind) {
+    case 'quota':
+      return 'browser storage is full';
+    case 'unavailable':
+      return 'browser storage is unavailable';
+    case 'not-found':
+      return 'it no longer exists';
+    case 'corrupt':
+      return 'stored data is damaged';
+    default:
+      return cause instanceof Error ? cause.message : String(cause ?? 'unknown error');
+  }
+}
+
+function classify(error: unknown): PersistenceErrorKind {
+  const name = (error as DOMException | null)?.name;
+  const message = error instanceof Error ? error.message : '';
+  if (name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED') return 'quota';
+  if (name === 'VersionError' || name === 'InvalidStateError' || name === 'SecurityError' || message === 'Failed to open IndexedDB') {
+    return 'unavailable';
+  }
+  if (name === 'NotFoundError' || /not found/i.test(message)) return 'not-found';
+  // JSON.parse and DecompressionStream failures when a snapshot is read back
+  if (name === 'SyntaxError' || name === 'DataError' || (error instanceof TypeError && /decompress|gzip/i.test(message))) {
+    return 'corrupt';
+  }
+  return 'unknown';
+}
+
+// Wrap whatever IndexedDB threw; errors that are already typed pass through unchanged
+export function toPersistenceError(operation: string, error: unknown): PersistenceError {
+  if (error instanceof PersistenceError) return error;
+  return new PersistenceError(classify(error), operation, error);
+}
@@ -0,0 +1,204 @@
+// Turns a block of cells (a whole sheet or a selection) into text for pasting or downloading:
+// CSV/TSV, JSON rows keyed by header, or a Markdown or HTML table.
+
+import { saveAs } from 'file-saver';
+import type { CellValue, Nullable } from '@univerjs/core';
+
+export type RangeExportFormat = 'csv' | 'json' | 'markdown' | 'html';
+
+// When delimited fields are wrapped in quotes
+export type QuoteStyle = 'minimal' | 'all' | 'non-numeric' | 'none';
+
+export interface RangeExportOptions {
+  format: RangeExportFormat;
+  delimiter: string; // CSV only
+  quoteStyle: QuoteStyle; // CSV only
+  hasHeader: boolean; // First row holds column names; JSON needs it for its keys
+  useDisplayValues: boolean; // Formatted text ("1,234.50", "2024-12-25") instead of the stored values
+}
+
+export const DEFAULT_RANGE_EXPORT_OPTIONS: RangeExportOptions = {
+  format: 'csv',
+  delimiter: ',',
+  quoteStyle: 'minimal',
+  hasHeader: true,
+  useDisplayValues: true,
+};
+
+export type ExportCellValue = string | number | boolean | null;
+
+// The cells to export, as `FRange.getValues()` and `FRange.getDisplayValues()` return them
+export interface ExportTable {
+  values: ExportCellValue[][];
+  displayValues: string[][];
+}
+
+const FORMAT_FILES: Record<RangeExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+// Drops trailing empty rows and columns, which a selection or a sheet's data range can include.
+// Takes values as FRange.getValues() reads them, which leaves empty cells undefined.
+export function trimExportTable(table: { values: Nullable<CellValue>[][]; displayValues: string[][] }): ExportTable {
+  const isEmpty = (row: number, column: number) => {
+    const value = table.values[row]?.[column];
+    return (value === null || value === undefined || value === '') && !table.displayValues[row]?.[column];
+  };
+
+  let rowCount = table.values.length;
+  let columnCount = Math.max(0, ...table.values.map(row => row.length));
+  while (rowCount > 0 && Array.from({ length: columnCount }, (_, column) => column).every(column => isEmpty(rowCount - 1, column))) {
+    rowCount--;
+  }
+  while (columnCount > 0 && Array.from({ length: rowCount }, (_, row) => row).every(row => isEmpty(row, columnCount - 1))) {
+    columnCount--;
+  }
+
+  const slice = <T>(rows: T[][]) => rows.slice(0, rowCount).map(row => Array.from({ length: columnCount }, (_, column) => row[column]));
+  return {
+    values: slice(table.values).map(row => row.map(value => value ?? null)),
+    displayValues: slice(table.displayValues).map(row => row.map(value => value ?? '')),
+  };
+}
+
+function cellText(table: ExportTable, row: number, column: number, useDisplayValues: boolean): string {
+  if (useDisplayValues) return table.displayValues[row]?.[column] ?? '';
+  const value = table.values[row]?.[column];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function textRows(table: ExportTable, useDisplayValues: boolean): string[][] {
+  return table.values.map((row, rowIndex) => row.map((_, column) => cellText(table, rowIndex, column, useDisplayValues)));
+}
+
+function quoteField(text: string, value: ExportCellValue, delimiter: string, quoteStyle: QuoteStyle): string {
+  const needsQuotes = text.includes(delimiter) || text.includes('"') || /[\r\n]/.test(text) || /^\s|\s$/.test(text);
+  const quote = quoteStyle === 'all'
+    || (quoteStyle === 'non-numeric' && typeof value !== 'number' && text !== '')
+    || (quoteStyle === 'minimal' && needsQuotes);
+  return quote ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatDelimited(table: ExportTable, options: Pick<RangeExportOptions, 'delimiter' | 'quoteStyle' | 'useDisplayValues'>): string {
+  return table.values
+    .map((row, rowIndex) => row
+      .map((value, column) => quoteField(cellText(table, rowIndex, column, options.useDisplayValues), value, options.delimiter, options.quoteStyle))
+      .join(options.delimiter))
+    .join('\r\n');
+}
+
+// Header cells as JSON keys: blanks become "Column N", repeats get a numeric suffix
+function headerKeys(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map((text, column) => {
+    const base = text.trim() || `Column ${column + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}_${count}`;
+  });
+}
+
+export function formatJSON(table: ExportTable, options: Pick<RangeExportOptions, 'hasHeader' | 'useDisplayValues'>): string {
+  const columnCount = Math.max(0, ...table.values.map(row => row.length));
+  const keys = options.hasHeader
+    ? headerKeys(Array.from({ length: columnCount }, (_, column) => cellText(table, 0, column, true)))
+    : Array.from({ length: columnCount }, (_, column) => `Column ${column + 1}`);
+
+  const objects = table.values.slice(options.hasHeader ? 1 : 0).map((row, index) => {
+    const rowIndex = index + (options.hasHeader ? 1 : 0);
+    const object: Record<string, ExportCellValue> = {};
+    keys.forEach((key, column) => {
+      const value = row[column] ?? null;
+      object[key] = options.useDisplayValues
+        ? (value === null ? null : cellText(table, rowIndex, column, true))
+        : value;
+    });
+    return object;
+  });
+  return JSON.stringify(objects, null, 2);
+}
+
+function isNumericColumn(table: ExportTable, column: number, firstRow: number): boolean {
+  let numbers = 0;
+  for (let row = firstRow; row < table.values.length; row++) {
+    const value = table.values[row][column];
+    if (value === null || value === '') continue;
+    if (typeof value !== 'number') return false;
+    numbers++;
+  }
+  return numbers > 0;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+export function formatMarkdownTable(table: ExportTable, options: Pick<RangeExportOptions, 'hasHeader' | 'useDisplayValues'>): string {
+  const rows = textRows(table, options.useDisplayValues);
+  if (rows.length === 0) return '';
+  const columnCount = Math.max(...rows.map(row => row.length));
+  // Markdown tables always have a header row; without one it's left blank
+  const header = options.hasHeader ? rows[0] : Array.from({ length: columnCount }, () => '');
+  const body = options.hasHeader ? rows.slice(1) : rows;
+  const firstBodyRow = options.hasHeader ? 1 : 0;
+
+  const line = (cells: string[]) => `| ${Array.from({ length: columnCount }, (_, column) => escapeMarkdown(cells[column] ?? '')).join(' | ')} |`;
+  const separator = `| ${Array.from({ length: columnCount }, (_, column) => (isNumericColumn(table, column, firstBodyRow) ? '---:' : '---')).join(' | ')} |`;
+  return [line(header), separator, ...body.map(line)].join('\n');
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+export function formatHTMLTable(table: ExportTable, options: Pick<RangeExportOptions, 'hasHeader' | 'useDisplayValues'>): string {
+  const rows = textRows(table, options.useDisplayValues);
+  const firstBodyRow = options.hasHeader ? 1 : 0;
+  const numericColumns = rows[0]?.map((_, column) => isNumericColumn(table, column, firstBodyRow)) ?? [];
+  const cells = (row: string[], tag: 'th' | 'td') => row
+    .map((text, column) => `<${tag}${tag === 'td' && numericColumns[column] ? ' style="text-align: right"' : ''}>${escapeHTML(text)}</${tag}>`)
+    .join('');
+
+  const lines = ['<table>'];
+  if (options.hasHeader && rows.length > 0) {
+    lines.push('  <thead>', `    <tr>${cells(rows[0], 'th')}</tr>`, '  </thead>');
+  }
+  lines.push('  <tbody>', ...rows.slice(firstBodyRow).map(row => `    <tr>${cells(row, 'td')}</tr>`), '  </tbody>', '</table>');
+  return lines.join('\n');
+}
+
+export function formatExportTable(table: ExportTable, options: RangeExportOptions): string {
+  switch (options.format) {
+    case 'csv':
+      return formatDelimited(table, options);
+    case 'json':
+      return formatJSON(table, options);
+    case 'markdown':
+      return formatMarkdownTable(table, options);
+    case 'html':
+      return formatHTMLTable(table, options);
+  }
+}
+
+// Tab-delimited files are conventionally .tsv
+export function exportFileName(baseName: string, options: RangeExportOptions): string {
+  const extension = options.format === 'csv' && options.delimiter === '\t' ? 'tsv' : FORMAT_FILES[options.format].extension;
+  const safeName = baseName.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'export';
+  return `${safeName}.${extension}`;
+}
+
+export function downloadExportTable(table: ExportTable, options: RangeExportOptions, baseName: string): void {
+  const text = formatExportTable(table, options);
+  const mimeType = options.format === 'csv' && options.delimiter === '\t' ? 'text/tab-separated-values' : FORMAT_FILES[options.format].mimeType;
+  // A BOM lets Excel open UTF-8 CSV files with accents intact
+  const parts = options.format === 'csv' ? ['\uFEFF', text] : [text];
+  saveAs(new Blob(parts, { type: `${mimeType};charset=utf-8` }), exportFileName(baseName, options));
+}
@@ -0,0 +1,78 @@
+// What the header's save indicator shows, fed by the places that actually write to IndexedDB
+
+import { toPersistenceError, type PersistenceError } from './persistenceError';
+
+// Independent writers; the indicator shows the worst of them
+export type SaveSource = 'workbook' | 'chat';
+
+export type SaveStatus = 'idle' | 'saving' | 'saved' | 'failed';
+
+export interface SaveState {
+  status: SaveStatus;
+  savedAt: Date | null; // Last successful save of any source
+  error: PersistenceError | null;
+  retry: (() => void) | null; // Set while failed
+}
+
+interface SourceState {
+  status: Exclude<SaveStatus, 'idle'>;
+  savedAt: Date | null;
+  error: PersistenceError | null;
+  retry: (() => void) | null;
+}
+
+const sources = new Map<SaveSource, SourceState>();
+const listeners = new Set<(state: SaveState) => void>();
+
+export function getSaveState(): SaveState {
+  const states = Array.from(sources.values());
+  const savedAt = states.reduce<Date | null>(
+    (latest, state) => (state.savedAt && (!latest || state.savedAt > latest) ? state.savedAt : latest),
+    null
+  );
+
+  const failed = states.find(state => state.status === 'failed');
+  if (failed) {
+    return { status: 'failed', savedAt, error: failed.error, retry: failed.retry };
+  }
+  if (states.some(state => state.status === 'saving')) {
+    return { status: 'saving', savedAt, error: null, retry: null };
+  }
+  return { status: savedAt ? 'saved' : 'idle', savedAt, error: null, retry: null };
+}
+
+function update(source: SaveSource, changes: Partial<SourceState>) {
+  const current = sources.get(source) || { status: 'saved', savedAt: null, error: null, retry: null };
+  sources.set(source, { ...current, ...changes });
+  const state = getSaveState();
+  listeners.forEach(listener => listener(state));
+}
+
+export function reportSaving(source: SaveSource): void {
+  // A failure stays visible until a save of that source succeeds
+  if (sources.get(source)?.status === 'failed') return;
+  update(source, { status: 'saving' });
+}
+
+export function reportSaved(source: SaveSource): void {
+  update(source, { status: 'saved', savedAt: new Date(), error: null, retry: null });
+}
+
+export function reportSaveFailed(source: SaveSource, error: unknown, retry: () => void): void {
+  update(source, { status: 'failed', error: toPersistenceError('save', error), retry });
+}
+
+// Forget a source's state, e.g. once freshly loaded data has nothing left to save
+export function clearSaveState(source: SaveSource): void {
+  sources.delete(source);
+  const state = getSaveState();
+  listeners.forEach(listener => listener(state));
+}
+
+// Listen for save state changes; returns an unsubscribe function
+export function onSaveStateChange(listener: (state: SaveState) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
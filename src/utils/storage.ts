@@ -0,0 +1,61 @@
+// Browser storage quota tracking, so users hear about a full disk before saves start failing
+
+import { PersistenceError } from './persistenceError';
+
+export interface StorageEstimate {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes available to this origin
+  persisted: boolean; // Whether the browser promised not to evict our data
+}
+
+// Warn once usage passes this share of the quota
+export const QUOTA_WARNING_RATIO = 0.8;
+
+const quotaListeners = new Set<() => void>();
+
+export async function getStorageEstimate(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    return { usage, quota, persisted };
+  } catch (error) {
+    console.error('Error estimating storage:', error);
+    return null;
+  }
+}
+
+// Ask the browser not to evict IndexedDB under storage pressure; returns whether it agreed
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  try {
+    if (await navigator.storage.persisted()) return true;
+    const granted = await navigator.storage.persist();
+    console.log(granted ? '🔐 Persistent storage granted' : '⚠️ Persistent storage not granted - data may be evicted');
+    return granted;
+  } catch (error) {
+    console.error('Error requesting persistent storage:', error);
+    return false;
+  }
+}
+
+export function isQuotaExceededError(error: unknown): boolean {
+  if (error instanceof PersistenceError) return error.kind === 'quota';
+  const name = (error as DOMException | null)?.name;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+// Called from write paths so a full disk is surfaced instead of logged and forgotten
+export function notifyIfQuotaExceeded(error: unknown): void {
+  if (!isQuotaExceededError(error)) return;
+  console.error('❌ Storage quota exceeded - changes are not being saved');
+  quotaListeners.forEach(listener => listener());
+}
+
+// Listen for writes that failed because storage is full; returns an unsubscribe function
+export function onQuotaExceeded(listener: () => void): () => void {
+  quotaListeners.add(listener);
+  return () => {
+    quotaListeners.delete(listener);
+  };
+}
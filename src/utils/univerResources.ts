@@ -0,0 +1,25 @@
+// Plugin resources in a Univer snapshot: each plugin (comments, links, drawings, rules...) keeps
+// its data outside the cells, as a JSON string keyed by sheet id in `workbookData.resources`.
+
+import type { IWorkbookData } from '@univerjs/core';
+
+export function readResource<T>(workbookData: IWorkbookData, name: string): Record<string, T> {
+  const resource = workbookData.resources?.find(entry => entry.name === name);
+  if (!resource?.data) return {};
+  try {
+    return JSON.parse(resource.data) || {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Replaces a plugin resource. An empty `data` removes the resource instead of storing `{}`.
+ */
+export function setResource(workbookData: IWorkbookData, name: string, data: Record<string, unknown>): void {
+  const resources = (workbookData.resources || []).filter(entry => entry.name !== name);
+  if (Object.keys(data).length > 0) {
+    resources.push({ name, data: JSON.stringify(data) });
+  }
+  workbookData.resources = resources;
+}
@@ -0,0 +1,220 @@
+import type { ICellData, IRange, IStyleData, IWorkbookData } from '@univerjs/core';
+
+/**
+ * Cell-level comparison of two workbook snapshots, as produced by workbook.save()
+ */
+
+export type CellChangeType = 'added' | 'removed' | 'modified';
+
+// Which parts of a cell differ between the two snapshots
+export type CellChangeKind = 'value' | 'formula' | 'style';
+
+export interface CellChange {
+  sheetId: string;
+  row: number;
+  column: number;
+  type: CellChangeType;
+  kinds: CellChangeKind[];
+  before: ICellData | null;
+  after: ICellData | null;
+  beforeStyle: IStyleData | null;
+  afterStyle: IStyleData | null;
+}
+
+export interface MergeChange {
+  type: 'added' | 'removed';
+  range: IRange;
+}
+
+export type SheetChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SheetDiff {
+  sheetId: string;
+  name: string;
+  status: SheetChangeStatus;
+  // Set when the sheet exists in both snapshots under different names
+  renamedFrom: string | null;
+  // Set when the sheet moved relative to the sheets present in both snapshots
+  movedFrom: number | null;
+  movedTo: number | null;
+  cellChanges: CellChange[];
+  mergeChanges: MergeChange[];
+}
+
+export interface WorkbookDiff {
+  sheets: SheetDiff[];
+  totalCellChanges: number;
+  totalMergeChanges: number;
+  sheetsReordered: boolean;
+}
+
+type CellMatrix = { [row: string]: { [col: string]: ICellData | null | undefined } | undefined };
+type StyleTable = Record<string, IStyleData | null | undefined>;
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Rich text cells keep their text in the document body rather than v
+function cellValue(cell: ICellData): unknown {
+  if (!isEmptyValue(cell.v)) return cell.v;
+  const dataStream = cell.p?.body?.dataStream;
+  return dataStream ? dataStream.replace(/\r\n$/, '') : null;
+}
+
+function cellFormula(cell: ICellData): string | null {
+  return cell.f || cell.si || null;
+}
+
+function resolveStyle(styles: StyleTable, style: ICellData['s']): IStyleData | null {
+  if (!style) return null;
+  const resolved = typeof style === 'string' ? styles[style] : style;
+  return resolved && Object.keys(resolved).length > 0 ? resolved : null;
+}
+
+// JSON with sorted keys, so style objects built in a different order still compare equal
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value ?? null);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+function hasContent(cell: ICellData | null | undefined, style: IStyleData | null): cell is ICellData {
+  return !!cell && (!isEmptyValue(cellValue(cell)) || !!cellFormula(cell) || !!style);
+}
+
+function collectCellChanges(
+  sheetId: string,
+  before: CellMatrix,
+  after: CellMatrix,
+  beforeStyles: StyleTable,
+  afterStyles: StyleTable
+): CellChange[] {
+  const changes: CellChange[] = [];
+  const rowKeys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const rowKey of rowKeys) {
+    const beforeRow = before[rowKey] || {};
+    const afterRow = after[rowKey] || {};
+    const colKeys = new Set([...Object.keys(beforeRow), ...Object.keys(afterRow)]);
+
+    for (const colKey of colKeys) {
+      const beforeCell = beforeRow[colKey];
+      const afterCell = afterRow[colKey];
+      const beforeStyle = resolveStyle(beforeStyles, beforeCell?.s);
+      const afterStyle = resolveStyle(afterStyles, afterCell?.s);
+      const hadContent = hasContent(beforeCell, beforeStyle);
+      const hasNewContent = hasContent(afterCell, afterStyle);
+      if (!hadContent && !hasNewContent) continue;
+
+      const beforeValue = hadContent ? cellValue(beforeCell) : null;
+      const afterValue = hasNewContent ? cellValue(afterCell) : null;
+      const kinds: CellChangeKind[] = [];
+      if (String(beforeValue ?? '') !== String(afterValue ?? '')) {
+        kinds.push('value');
+      }
+      if ((hadContent ? cellFormula(beforeCell) : null) !== (hasNewContent ? cellFormula(afterCell) : null)) {
+        kinds.push('formula');
+      }
+      if (stableStringify(beforeStyle) !== stableStringify(afterStyle)) {
+        kinds.push('style');
+      }
+      if (kinds.length === 0) continue;
+
+      changes.push({
+        sheetId,
+        row: parseInt(rowKey),
+        column: parseInt(colKey),
+        type: !hadContent ? 'added' : !hasNewContent ? 'removed' : 'modified',
+        kinds,
+        before: beforeCell || null,
+        after: afterCell || null,
+        beforeStyle,
+        afterStyle,
+      });
+    }
+  }
+
+  return changes.sort((a, b) => a.row - b.row || a.column - b.column);
+}
+
+function rangeKey(range: IRange): string {
+  return `${range.startRow}:${range.startColumn}:${range.endRow}:${range.endColumn}`;
+}
+
+function collectMergeChanges(before: IRange[], after: IRange[]): MergeChange[] {
+  const beforeKeys = new Set(before.map(rangeKey));
+  const afterKeys = new Set(after.map(rangeKey));
+  return [
+    ...before.filter(range => !afterKeys.has(rangeKey(range))).map(range => ({ type: 'removed' as const, range })),
+    ...after.filter(range => !beforeKeys.has(rangeKey(range))).map(range => ({ type: 'added' as const, range })),
+  ];
+}
+
+/**
+ * Compares two snapshots: cell values, formulas and styles, merged ranges,
+ * and sheets that were added, removed, renamed or reordered
+ */
+export function diffWorkbookSnapshots(before: Partial<IWorkbookData>, after: Partial<IWorkbookData>): WorkbookDiff {
+  const beforeSheets = before.sheets || {};
+  const afterSheets = after.sheets || {};
+  const beforeOrder = before.sheetOrder || Object.keys(beforeSheets);
+  const afterOrder = after.sheetOrder || Object.keys(afterSheets);
+  const sheetIds = [
+    ...afterOrder,
+    ...beforeOrder.filter(id => !afterSheets[id]),
+  ];
+
+  // Positions among the sheets both snapshots share, so adding or removing a sheet isn't a move
+  const sharedBefore = beforeOrder.filter(id => afterSheets[id]);
+  const sharedAfter = afterOrder.filter(id => beforeSheets[id]);
+
+  const sheets: SheetDiff[] = sheetIds.map((sheetId) => {
+    const beforeSheet = beforeSheets[sheetId];
+    const afterSheet = afterSheets[sheetId];
+    const cellChanges = collectCellChanges(
+      sheetId,
+      (beforeSheet?.cellData || {}) as CellMatrix,
+      (afterSheet?.cellData || {}) as CellMatrix,
+      (before.styles || {}) as StyleTable,
+      (after.styles || {}) as StyleTable
+    );
+    const mergeChanges = collectMergeChanges(beforeSheet?.mergeData || [], afterSheet?.mergeData || []);
+
+    const renamedFrom = beforeSheet && afterSheet && beforeSheet.name !== afterSheet.name ? beforeSheet.name ?? null : null;
+    const fromIndex = sharedBefore.indexOf(sheetId);
+    const toIndex = sharedAfter.indexOf(sheetId);
+    const moved = fromIndex !== -1 && fromIndex !== toIndex;
+
+    let status: SheetChangeStatus;
+    if (!beforeSheet) {
+      status = 'added';
+    } else if (!afterSheet) {
+      status = 'removed';
+    } else {
+      status = cellChanges.length > 0 || mergeChanges.length > 0 || renamedFrom || moved ? 'changed' : 'unchanged';
+    }
+
+    return {
+      sheetId,
+      name: afterSheet?.name || beforeSheet?.name || sheetId,
+      status,
+      renamedFrom,
+      movedFrom: moved ? fromIndex : null,
+      movedTo: moved ? toIndex : null,
+      cellChanges,
+      mergeChanges,
+    };
+  });
+
+  return {
+    sheets,
+    totalCellChanges: sheets.reduce((sum, sheet) => sum + sheet.cellChanges.length, 0),
+    totalMergeChanges: sheets.reduce((sum, sheet) => sum + sheet.mergeChanges.length, 0),
+    sheetsReordered: sheets.some(sheet => sheet.movedFrom !== null),
+  };
+}
@@ -0,0 +1,218 @@
+// Cell comments and hyperlinks between SheetJS worksheets and Univer plugin resources.
+// SheetJS reads and writes both itself (`cell.c` and `cell.l`), so unlike rules and drawings
+// these don't need the raw package.
+
+import * as XLSX from 'xlsx';
+import type { ICellData, IDocumentBody, IWorkbookData } from '@univerjs/core';
+import { CustomRangeType } from '@univerjs/core';
+import { readResource, setResource } from './univerResources';
+
+export const THREAD_COMMENT_RESOURCE = 'SHEET_UNIVER_THREAD_COMMENT_PLUGIN';
+export const HYPERLINK_RESOURCE = 'SHEET_HYPER_LINK_PLUGIN';
+
+// Shape of a thread in the comment resource (see @univerjs/thread-comment): the root
+// comment carries the cell reference, replies are nested under `children`
+interface ThreadComment {
+  id: string;
+  threadId: string;
+  ref: string;
+  dT: string; // YYYY/MM/DD HH:mm
+  personId: string;
+  text: IDocumentBody;
+  unitId: string;
+  subUnitId: string;
+  parentId?: string;
+  resolved?: boolean;
+  children?: ThreadComment[];
+}
+
+// Shape of a link in the hyperlink resource (see @univerjs/sheets-hyper-link)
+interface SheetHyperLink {
+  id: string;
+  row: number;
+  column: number;
+  payload: string; // URL, or "#gid=<sheetId>&range=A1" for a place in the workbook
+  display?: string;
+}
+
+export interface SheetAnnotations {
+  comments: ThreadComment[];
+  links: SheetHyperLink[];
+}
+
+// Comments and links of one worksheet in SheetJS terms, keyed by cell address
+export interface XLSXSheetAnnotations {
+  comments: Map<string, { a?: string; t: string; T?: boolean }[]>;
+  links: Map<string, string>; // SheetJS Target: a URL, or "#Sheet1!A1" within the workbook
+}
+
+function quoteSheetName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) ? name : `'${name.replace(/'/g, "''")}'`;
+}
+
+function commentText(body: IDocumentBody | undefined): string {
+  // Paragraphs end in "\r" and the body in "\r\n"
+  return (body?.dataStream || '').replace(/\r?\n$/, '').replace(/\r$/, '').replace(/\r/g, '\n');
+}
+
+function formatCommentDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function toXLSXTarget(url: string, sheetNames: Map<string, string>): string | null {
+  if (!url.startsWith('#')) return url;
+  const params = new URLSearchParams(url.slice(1));
+  const sheetName = sheetNames.get(params.get('gid') || '');
+  const range = params.get('range');
+  // Links to defined names (rangeid=) have no cell reference to point at
+  if (!sheetName || !range || range === 'err') return null;
+  return `#${quoteSheetName(sheetName)}!${range}`;
+}
+
+// Univer's own links live in the cell's rich text; Excel holds one link per cell, so the first wins
+function getCellLink(cell: ICellData | null | undefined): string | null {
+  const range = cell?.p?.body?.customRanges?.find(entry => entry.rangeType === CustomRangeType.HYPERLINK);
+  const url = range?.properties?.url;
+  return typeof url === 'string' && url ? url : null;
+}
+
+/**
+ * Collects the comments and links of every sheet as SheetJS cell comments and hyperlinks,
+ * keyed by sheet id. A single comment becomes an Excel note, which every spreadsheet app
+ * reads; threads with replies become threaded comments.
+ */
+export function readWorkbookAnnotations(workbookData: IWorkbookData): Map<string, XLSXSheetAnnotations> {
+  const result = new Map<string, XLSXSheetAnnotations>();
+  const sheetNames = new Map<string, string>();
+  Object.values(workbookData.sheets || {}).forEach((sheet) => {
+    if (sheet?.id) sheetNames.set(sheet.id, sheet.name || sheet.id);
+  });
+  const getSheet = (sheetId: string) => {
+    let annotations = result.get(sheetId);
+    if (!annotations) {
+      annotations = { comments: new Map(), links: new Map() };
+      result.set(sheetId, annotations);
+    }
+    return annotations;
+  };
+
+  const threads = readResource<ThreadComment[]>(workbookData, THREAD_COMMENT_RESOURCE);
+  for (const [sheetId, sheetThreads] of Object.entries(threads)) {
+    for (const thread of sheetThreads || []) {
+      if (!thread?.ref) continue;
+      const entries = [thread, ...(thread.children || [])].map(comment => ({
+        a: comment.personId,
+        t: commentText(comment.text),
+      }));
+      const threaded = entries.length > 1;
+      getSheet(sheetId).comments.set(thread.ref.toUpperCase(), entries.map(entry => ({ ...entry, T: threaded })));
+    }
+  }
+
+  const links = readResource<SheetHyperLink[]>(workbookData, HYPERLINK_RESOURCE);
+  for (const [sheetId, sheetLinks] of Object.entries(links)) {
+    for (const link of sheetLinks || []) {
+      const target = link?.payload ? toXLSXTarget(link.payload, sheetNames) : null;
+      if (!target) continue;
+      getSheet(sheetId).links.set(XLSX.utils.encode_cell({ r: link.row, c: link.column }), target);
+    }
+  }
+
+  Object.entries(workbookData.sheets || {}).forEach(([sheetId, sheet]) => {
+    const cellMatrix = sheet?.cellData || {};
+    for (const rowKey in cellMatrix) {
+      const rowData = cellMatrix[rowKey];
+      if (!rowData) continue;
+      for (const colKey in rowData) {
+        const url = getCellLink(rowData[colKey]);
+        const target = url ? toXLSXTarget(url, sheetNames) : null;
+        if (!target) continue;
+        getSheet(sheetId).links.set(XLSX.utils.encode_cell({ r: parseInt(rowKey), c: parseInt(colKey) }), target);
+      }
+    }
+  });
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+function fromXLSXTarget(target: string, sheetIds: Map<string, string>): string | null {
+  if (!target.startsWith('#')) return target;
+  const location = target.slice(1);
+  const separator = location.lastIndexOf('!');
+  // Links to defined names have no sheet, and Univer can't resolve them by name
+  if (separator === -1) return null;
+  const sheetName = location.slice(0, separator).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+  const sheetId = sheetIds.get(sheetName);
+  if (!sheetId) return null;
+  const range = location.slice(separator + 1).replace(/\$/g, '').toUpperCase();
+  return `#${new URLSearchParams({ gid: sheetId, range }).toString()}`;
+}
+
+/**
+ * Reads the comments and hyperlinks of a SheetJS worksheet as Univer thread comments and links.
+ * `sheetIds` maps sheet names to the ids they're imported under, for links within the workbook.
+ */
+export function readSheetAnnotations(
+  ws: XLSX.WorkSheet,
+  unitId: string,
+  sheetId: string,
+  sheetIds: Map<string, string>
+): SheetAnnotations {
+  const result: SheetAnnotations = { comments: [], links: [] };
+  const createdAt = formatCommentDate(new Date());
+
+  for (const address in ws) {
+    if (address.startsWith('!')) continue;
+    const cell = ws[address] as XLSX.CellObject | undefined;
+    if (!cell) continue;
+    const { r: row, c: column } = XLSX.utils.decode_cell(address);
+
+    const entries = (cell.c || []).filter(comment => comment && typeof comment.t === 'string');
+    if (entries.length > 0) {
+      const threadId = `xlsx-comment-${sheetId}-${address}`;
+      const comments: ThreadComment[] = entries.map((comment, index) => ({
+        id: index === 0 ? threadId : `${threadId}-${index}`,
+        threadId,
+        ref: index === 0 ? address : '',
+        dT: createdAt,
+        personId: comment.a || '',
+        text: { dataStream: `${comment.t.replace(/\r?\n/g, '\r')}\r\n` },
+        unitId,
+        subUnitId: sheetId,
+        ...(index > 0 ? { parentId: threadId } : {}),
+      }));
+      result.comments.push({ ...comments[0], children: comments.slice(1) });
+    }
+
+    const payload = cell.l?.Target ? fromXLSXTarget(cell.l.Target, sheetIds) : null;
+    if (payload) {
+      result.links.push({ id: `xlsx-link-${sheetId}-${address}`, row, column, payload });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stores imported comments and links as the Univer plugin resources they belong to, keyed by sheet id.
+ */
+export function setAnnotationResources(workbookData: IWorkbookData, annotationsBySheetId: Map<string, SheetAnnotations>): void {
+  const comments: Record<string, ThreadComment[]> = {};
+  const links: Record<string, SheetHyperLink[]> = {};
+  annotationsBySheetId.forEach((annotations, sheetId) => {
+    if (annotations.comments.length > 0) comments[sheetId] = annotations.comments;
+    if (annotations.links.length > 0) links[sheetId] = annotations.links;
+  });
+
+  setResource(workbookData, THREAD_COMMENT_RESOURCE, comments);
+  setResource(workbookData, HYPERLINK_RESOURCE, links);
+}
@@ -1,163 +1,317 @@
 import * as XLSX from 'xlsx';
-import type { IWorkbookData } from '@univerjs/core';
-import { LocaleType } from '@univerjs/core';
+// The community xlsx build drops cell styles when writing, so export goes through its styled fork
+import * as XLSXStyle from 'xlsx-js-style';
+import { saveAs } from 'file-saver';
+import type { ICellData, IColumnData, IStyleData, IWorkbookData } from '@univerjs/core';
+import { BooleanNumber, CellValueType, LocaleType } from '@univerjs/core';
+import { createStyleTable, resolveCellStyle, toXLSXCellStyle } from './xlsxStyles';
+import { readWorkbookTheme, readXLSXCellStyles, type XLSXCellStyles } from './xlsxStyleImport';
+import { openXLSXPackage, type XLSXPackage } from './xlsxPackage';
+import { readSheetRules, setSheetRulesResources, writeSheetRules, type SheetRules } from './xlsxRules';
+import { collectSharedFormulas, getCellFormula } from './xlsxFormulas';
+import { readSheetAnnotations, readWorkbookAnnotations, setAnnotationResources, type SheetAnnotations } from './xlsxAnnotations';
+import { readSheetImages, setSheetImagesResource, writeSheetImages, type XLSXImage } from './xlsxDrawings';
+import { applySheetLayout, readSheetLayouts, writeSheetLayouts, type SheetLayout } from './xlsxSheetLayout';
+import { getXLSXDefinedNames, setDefinedNamesResource } from './xlsxDefinedNames';
+import type { XLSXImportWorkerRequest, XLSXImportWorkerResponse } from './xlsxImportWorker';
+import { convertDelimitedToWorkbookData, type DelimitedImportOptions } from './csvImport';
+import { readODSColumns, type ODSColumn } from './odsColumns';
+import { inspectImportedFile, type ImportIssue } from './importFidelity';
+import { defaultDateFormat, from1904Serial, isDateFormat, isStoredDate, storedDateToSerial } from './xlsxDates';
+
+// How far an import has got: the whole file is parsed first, then converted one sheet at a time
+export interface XLSXImportProgress {
+  stage: 'reading' | 'parsing' | 'converting';
+  sheetName?: string;
+  sheetsDone: number;
+  sheetCount: number;
+  rowsDone: number; // In the sheet being converted
+  rowCount: number;
+}
+
+export interface XLSXImportOptions {
+  onProgress?: (progress: XLSXImportProgress) => void;
+  signal?: AbortSignal; // Aborting stops the worker and rejects with an AbortError
+  delimited?: DelimitedImportOptions; // Read the file as CSV/TSV with these settings instead
+}
+
+export interface XLSXImportResult {
+  workbookData: IWorkbookData;
+  issues: ImportIssue[]; // What the file held that didn't come across
+}
+
+// Cells converted between progress reports
+const PROGRESS_INTERVAL_CELLS = 20000;
 
 /**
- * Converts Univer workbook data to XLSX format and downloads it
+ * Converts a cell's value to the matching JavaScript type. Cells created in Univer carry a
+ * numeric CellValueType, cells from older imports carry SheetJS's letter codes.
  */
-export async function exportWorkbookToXLSX(workbookData: IWorkbookData, filename: string = 'workbook.xlsx'): Promise<void> {
-  try {
-    // Create a new XLSX workbook
-    const wb = XLSX.utils.book_new();
-
-    // Get all sheets from Univer workbook
-    const sheetOrder = workbookData.sheetOrder || [];
-    const sheets = workbookData.sheets || {};
+function getCellValue(cell: ICellData): string | number | boolean {
+  const rawValue = cell.v;
+  if (rawValue === undefined || rawValue === null) return '';
+  // Older imports stored dates as Date objects; Excel wants the serial number
+  if (isStoredDate(cell)) return storedDateToSerial(cell);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const type: any = cell.t;
+  if (type === 'n' || type === CellValueType.NUMBER) {
+    const number = Number(rawValue);
+    return Number.isFinite(number) ? number : String(rawValue);
+  }
+  if (type === 'b' || type === CellValueType.BOOLEAN) {
+    return rawValue === true || rawValue === 1 || String(rawValue).toUpperCase() === 'TRUE';
+  }
+  if (type === undefined || type === null) {
+    if (typeof rawValue === 'number' || typeof rawValue === 'boolean') return rawValue;
+  }
+  return String(rawValue);
+}
 
-    // Convert each sheet
-    for (const sheetId of sheetOrder) {
-      const sheet = sheets[sheetId];
-      if (!sheet) continue;
+/**
+ * Builds the SheetJS workbook both download formats are written from: values, formulas, styles,
+ * widths, merges, comments, links and defined names, one worksheet per Univer sheet.
+ */
+function buildExportWorkbook(workbookData: IWorkbookData): { wb: XLSXStyle.WorkBook; exportedSheetIds: string[] } {
+  // Create a new XLSX workbook
+  const wb = XLSXStyle.utils.book_new();
+
+  // Get all sheets from Univer workbook
+  const sheetOrder = workbookData.sheetOrder || [];
+  const sheets = workbookData.sheets || {};
+
+  // Comments and hyperlinks are kept outside the cells, per sheet
+  const annotations = readWorkbookAnnotations(workbookData);
+
+  // Convert each sheet
+  const exportedSheetIds: string[] = []; // Univer sheet behind each worksheet, in package order
+  for (const sheetId of sheetOrder) {
+    const sheet = sheets[sheetId];
+    if (!sheet) continue;
+
+    // Get sheet name
+    const sheetName = sheet.name || sheetId;
+
+    // Get cell matrix data
+    const cellMatrix = sheet.cellData || {};
+
+    // Find the maximum row and column
+    let maxRow = 0;
+    let maxCol = 0;
+
+    for (const rowKey in cellMatrix) {
+      const row = parseInt(rowKey);
+      if (row > maxRow) maxRow = row;
+
+      const rowData = cellMatrix[rowKey];
+      if (rowData) {
+        for (const colKey in rowData) {
+          const col = parseInt(colKey);
+          if (col > maxCol) maxCol = col;
+        }
+      }
+    }
 
-      // Get sheet name
-      const sheetName = sheet.name || sheetId;
+    // Create a 2D array for the sheet data
+    const sheetData: ReturnType<typeof getCellValue>[][] = [];
 
-      // Get cell matrix data
-      const cellMatrix = sheet.cellData || {};
+    // Initialize all rows
+    for (let r = 0; r <= maxRow; r++) {
+      sheetData[r] = [];
+      for (let c = 0; c <= maxCol; c++) {
+        sheetData[r][c] = '';
+      }
+    }
 
-      // Find the maximum row and column
-      let maxRow = 0;
-      let maxCol = 0;
+    // Fill in the data from Univer's cell matrix
+    for (const rowKey in cellMatrix) {
+      const row = parseInt(rowKey);
+      const rowData = cellMatrix[rowKey];
 
-      for (const rowKey in cellMatrix) {
-        const row = parseInt(rowKey);
-        if (row > maxRow) maxRow = row;
+      if (rowData) {
+        for (const colKey in rowData) {
+          const col = parseInt(colKey);
+          const cell = rowData[colKey];
 
-        const rowData = cellMatrix[rowKey];
-        if (rowData) {
-          for (const colKey in rowData) {
-            const col = parseInt(colKey);
-            if (col > maxCol) maxCol = col;
+          if (cell) {
+            // Get the value from the cell
+            // Cell structure: { v: value, t: type, s: style, f: formula, ... }
+            sheetData[row][col] = getCellValue(cell);
           }
         }
       }
+    }
 
-      // Create a 2D array for the sheet data
-      const sheetData: any[][] = [];
-
-      // Initialize all rows
-      for (let r = 0; r <= maxRow; r++) {
-        sheetData[r] = [];
-        for (let c = 0; c <= maxCol; c++) {
-          sheetData[r][c] = '';
+    // Create XLSX worksheet from the 2D array
+    const ws = XLSXStyle.utils.aoa_to_sheet(sheetData);
+
+    // Apply cell styles (fonts, fills, borders, alignment, number formats)
+    for (const rowKey in cellMatrix) {
+      const rowData = cellMatrix[rowKey];
+      if (!rowData) continue;
+      for (const colKey in rowData) {
+        const cell = rowData[colKey];
+        let cellStyle = toXLSXCellStyle(resolveCellStyle(workbookData.styles, cell?.s));
+        // Dates stored by older imports have no date format of their own
+        if (isStoredDate(cell) && !cellStyle?.numFmt) {
+          cellStyle = { ...cellStyle, numFmt: defaultDateFormat(storedDateToSerial(cell)) };
+        }
+        if (!cellStyle) continue;
+        const address = XLSXStyle.utils.encode_cell({ r: parseInt(rowKey), c: parseInt(colKey) });
+        if (ws[address]) {
+          ws[address].s = cellStyle;
         }
       }
+    }
 
-      // Fill in the data from Univer's cell matrix
-      for (const rowKey in cellMatrix) {
+    // Write formulas as real formulas, with the last calculated value cached alongside,
+    // so the file stays a live model in Excel
+    const sharedFormulas = collectSharedFormulas(cellMatrix);
+    for (const rowKey in cellMatrix) {
+      const rowData = cellMatrix[rowKey];
+      if (!rowData) continue;
+      for (const colKey in rowData) {
         const row = parseInt(rowKey);
-        const rowData = cellMatrix[rowKey];
-
-        if (rowData) {
-          for (const colKey in rowData) {
-            const col = parseInt(colKey);
-            const cell = rowData[colKey];
-
-            if (cell) {
-              // Get the value from the cell
-              // Cell structure: { v: value, t: type, s: style, ... }
-              let value: any = '';
-
-              if (cell.v !== undefined && cell.v !== null) {
-                // Get the raw value - XLSX cells can have various types
-                // Use type assertion to work around TypeScript's strict type checking
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                const rawValue: any = cell.v;
-
-                // Check cell type first, then handle value accordingly
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                if ((cell as any).t === 'n') {
-                  // Number type
-                  value = Number(rawValue);
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                } else if ((cell as any).t === 'b') {
-                  // Boolean type
-                  value = Boolean(rawValue);
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                } else if ((cell as any).t === 's') {
-                  // String type
-                  const strValue = String(rawValue);
-                  // Check if it's a formula (starts with =)
-                  if (strValue.startsWith('=')) {
-                    value = strValue;
-                  } else {
-                    value = strValue;
-                  }
-                } else {
-                  // Default: convert to string
-                  value = String(rawValue);
-                }
-              }
-
-              sheetData[row][col] = value;
-            }
-          }
+        const col = parseInt(colKey);
+        const cell = rowData[colKey];
+        const formula = getCellFormula(cell, row, col, sharedFormulas);
+        if (!formula) continue;
+
+        const address = XLSXStyle.utils.encode_cell({ r: row, c: col });
+        const xlsxCell: XLSXStyle.CellObject = { t: 'n', f: formula };
+        if (cell.v !== undefined && cell.v !== null) {
+          const cachedValue = getCellValue(cell);
+          xlsxCell.v = cachedValue;
+          xlsxCell.t = typeof cachedValue === 'number' ? 'n' : typeof cachedValue === 'boolean' ? 'b' : 's';
+        }
+        // Array formulas carry the range they spill into; the writer expects it to start at this cell
+        if (cell.ref && cell.ref.toUpperCase().split(':')[0] === address) {
+          xlsxCell.F = cell.ref.toUpperCase();
+        }
+        if (ws[address]?.s) {
+          xlsxCell.s = ws[address].s;
         }
+        ws[address] = xlsxCell;
       }
+    }
 
-      // Create XLSX worksheet from the 2D array
-      const ws = XLSX.utils.aoa_to_sheet(sheetData);
-
-      // Add column widths if available
-      const columnProperties = sheet.columnData;
-      if (columnProperties) {
-        const cols: { wch: number }[] = [];
-        for (let c = 0; c <= maxCol; c++) {
-          const colProp = columnProperties[c];
-          if (colProp && colProp.w !== undefined) {
-            // Convert pixels to character width (approximate)
-            cols.push({ wch: Math.max(colProp.w / 7, 10) });
-          } else {
-            cols.push({ wch: 10 });
-          }
+    // Add column widths, hidden columns and outline levels if available
+    const columnProperties = sheet.columnData;
+    if (columnProperties) {
+      const cols: XLSXStyle.ColInfo[] = [];
+      const lastCol = Math.max(maxCol, ...Object.keys(columnProperties).map(Number).filter(Number.isFinite));
+      for (let c = 0; c <= lastCol; c++) {
+        const colProp = columnProperties[c];
+        if (colProp && colProp.w !== undefined) {
+          // Convert pixels to character width (approximate)
+          cols[c] = { wch: Math.max(colProp.w / 7, 10) };
+        } else {
+          cols[c] = { wch: 10 };
         }
-        ws['!cols'] = cols;
+        if (colProp?.hd === BooleanNumber.TRUE) cols[c].hidden = true;
+        if (colProp?.custom?.outlineLevel) cols[c].level = colProp.custom.outlineLevel;
       }
+      ws['!cols'] = cols;
+    }
 
-      // Add row heights if available
-      const rowProperties = sheet.rowData;
-      if (rowProperties) {
-        const rows: { hpt: number }[] = [];
-        for (let r = 0; r <= maxRow; r++) {
-          const rowProp = rowProperties[r];
-          if (rowProp && rowProp.h !== undefined) {
-            rows.push({ hpt: rowProp.h });
-          }
-        }
-        if (rows.length > 0) {
-          ws['!rows'] = rows;
-        }
+    // Add row heights, hidden rows and outline levels if available
+    const rowProperties = sheet.rowData;
+    if (rowProperties) {
+      const rows: XLSXStyle.RowInfo[] = [];
+      for (const rowKey in rowProperties) {
+        const rowProp = rowProperties[rowKey];
+        if (!rowProp) continue;
+        const rowInfo: XLSXStyle.RowInfo = {};
+        if (rowProp.h !== undefined) rowInfo.hpt = rowProp.h;
+        if (rowProp.hd === BooleanNumber.TRUE) rowInfo.hidden = true;
+        if (rowProp.custom?.outlineLevel) rowInfo.level = rowProp.custom.outlineLevel;
+        if (Object.keys(rowInfo).length > 0) rows[parseInt(rowKey)] = rowInfo;
+      }
+      if (rows.length > 0) {
+        ws['!rows'] = rows;
       }
+    }
 
-      // Add merge ranges if available
-      const mergeData = sheet.mergeData;
-      if (mergeData && mergeData.length > 0) {
-        const merges: XLSX.Range[] = [];
-        for (const merge of mergeData) {
-          merges.push({
-            s: { r: merge.startRow || 0, c: merge.startColumn || 0 },
-            e: { r: merge.endRow || 0, c: merge.endColumn || 0 },
-          });
-        }
-        ws['!merges'] = merges;
+    // Add merge ranges if available
+    const mergeData = sheet.mergeData;
+    if (mergeData && mergeData.length > 0) {
+      const merges: XLSXStyle.Range[] = [];
+      for (const merge of mergeData) {
+        merges.push({
+          s: { r: merge.startRow || 0, c: merge.startColumn || 0 },
+          e: { r: merge.endRow || 0, c: merge.endColumn || 0 },
+        });
       }
+      ws['!merges'] = merges;
+    }
 
-      // Add worksheet to workbook
-      XLSX.utils.book_append_sheet(wb, ws, sheetName);
+    // Add comments and hyperlinks, which may sit on cells without a value
+    const sheetAnnotations = annotations.get(sheetId);
+    if (sheetAnnotations) {
+      const range = XLSXStyle.utils.decode_range(ws['!ref'] || 'A1');
+      const getCell = (address: string): XLSXStyle.CellObject => {
+        const { r, c } = XLSXStyle.utils.decode_cell(address);
+        range.e.r = Math.max(range.e.r, r);
+        range.e.c = Math.max(range.e.c, c);
+        // The writer leaves out value-less cells along with their comments and links
+        if (!ws[address]) ws[address] = { t: 's', v: '' };
+        return ws[address];
+      };
+      sheetAnnotations.comments.forEach((comments, address) => {
+        const cellComments: XLSXStyle.Comments = comments;
+        cellComments.hidden = true; // Shown on hover, like notes added in Excel
+        getCell(address).c = cellComments;
+      });
+      sheetAnnotations.links.forEach((target, address) => {
+        getCell(address).l = { Target: target };
+      });
+      ws['!ref'] = XLSXStyle.utils.encode_range(range);
     }
 
-    // Write and download the file
-    XLSX.writeFile(wb, filename);
+    // Add worksheet to workbook
+    XLSXStyle.utils.book_append_sheet(wb, ws, sheetName);
+    exportedSheetIds.push(sheetId);
+    if (sheet.hidden === BooleanNumber.TRUE) {
+      XLSXStyle.utils.book_set_sheet_visibility(wb, sheetName, 1);
+    }
+  }
+
+  // Excel refuses to open a workbook whose sheets are all hidden
+  if (exportedSheetIds.every(sheetId => sheets[sheetId]?.hidden === BooleanNumber.TRUE) && wb.SheetNames.length > 0) {
+    XLSXStyle.utils.book_set_sheet_visibility(wb, wb.SheetNames[0], 0);
+  }
+
+  // Named ranges and named formulas, scoped to the workbook or to one sheet
+  const definedNames = getXLSXDefinedNames(workbookData, exportedSheetIds);
+  if (definedNames.length > 0) {
+    wb.Workbook = { ...wb.Workbook, Names: definedNames };
+  }
+
+  return { wb, exportedSheetIds };
+}
+
+/**
+ * Converts Univer workbook data to XLSX format and downloads it
+ */
+export async function exportWorkbookToXLSX(workbookData: IWorkbookData, filename: string = 'workbook.xlsx'): Promise<void> {
+  try {
+    const { wb, exportedSheetIds } = buildExportWorkbook(workbookData);
+
+    // Write the file, then add what the writer doesn't support to the package before downloading
+    const output: ArrayBuffer = XLSXStyle.write(wb, { type: 'array', bookType: 'xlsx' });
+    const pkg = await openXLSXPackage(output);
+    if (!pkg) {
+      throw new Error('Failed to write XLSX package');
+    }
+    await writeSheetRules(pkg, workbookData, exportedSheetIds);
+    await writeSheetImages(pkg, workbookData, exportedSheetIds);
+    await writeSheetLayouts(pkg, workbookData, exportedSheetIds);
+    const blob = await pkg.zip.generateAsync({
+      type: 'blob',
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      compression: 'DEFLATE',
+    });
+    saveAs(blob, filename);
     console.log(`✅ Exported workbook to ${filename}`);
   } catch (error) {
     console.error('Error exporting workbook to XLSX:', error);
@@ -166,313 +320,513 @@ export async function exportWorkbookToXLSX(workbookData: IWorkbookData, filename
 }
 
 /**
- * Converts XLSX file to Univer workbook data format
+ * Converts Univer workbook data to OpenDocument (.ods) format and downloads it, for LibreOffice
+ * users. Values, formulas, merges, column widths and row heights carry over; styles don't.
  */
-export async function importXLSXToWorkbookData(file: File): Promise<IWorkbookData> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+export async function exportWorkbookToODS(workbookData: IWorkbookData, filename: string = 'workbook.ods'): Promise<void> {
+  try {
+    const { wb, exportedSheetIds } = buildExportWorkbook(workbookData);
+
+    // The ODS writer takes sizes in pixels, which is what Univer stores
+    exportedSheetIds.forEach((sheetId, index) => {
+      const sheet = workbookData.sheets[sheetId];
+      const ws = wb.Sheets[wb.SheetNames[index]];
+      if (!sheet || !ws) return;
+
+      const cols: XLSXStyle.ColInfo[] = [];
+      for (const colKey in sheet.columnData || {}) {
+        const width = sheet.columnData?.[colKey]?.w;
+        if (width !== undefined) cols[parseInt(colKey)] = { wpx: width };
+      }
+      if (cols.length > 0) {
+        ws['!cols'] = cols;
+      } else {
+        delete ws['!cols'];
+      }
 
-    reader.onload = (e) => {
+      const rows: XLSXStyle.RowInfo[] = [];
+      for (const rowKey in sheet.rowData || {}) {
+        const height = sheet.rowData?.[rowKey]?.h;
+        if (height !== undefined) rows[parseInt(rowKey)] = { hpx: height };
+      }
+      if (rows.length > 0) {
+        ws['!rows'] = rows;
+      } else {
+        delete ws['!rows'];
+      }
+    });
+
+    const output: ArrayBuffer = XLSXStyle.write(wb, { type: 'array', bookType: 'ods' });
+    const blob = new Blob([output], { type: 'application/vnd.oasis.opendocument.spreadsheet' });
+    saveAs(blob, filename);
+    console.log(`✅ Exported workbook to ${filename}`);
+  } catch (error) {
+    console.error('Error exporting workbook to ODS:', error);
+    throw error;
+  }
+}
+
+/**
+ * Converts the contents of an XLSX, XLS or ODS file to Univer workbook data. This is the heavy part
+ * of an import; the app runs it in a worker through `importXLSXToWorkbookData`.
+ */
+export async function convertXLSXToWorkbookData(
+  data: ArrayBuffer,
+  fileName: string,
+  onProgress?: (progress: XLSXImportProgress) => void
+): Promise<IWorkbookData> {
+  try {
+    onProgress?.({ stage: 'parsing', sheetsDone: 0, sheetCount: 0, rowsDone: 0, rowCount: 0 });
+
+    // Read the XLSX workbook
+    // XLSX.read() reads all cells by default, regardless of !ref range
+    // The !ref property is just a convenience hint, but all cells are available in the ws object
+    // We use 'raw: false' to get formatted values, and 'cellFormula: true' to preserve formulas
+    // Dates stay serial numbers with their date format, as Univer and Excel keep them
+    const wb = XLSX.read(data, {
+      type: 'array',
+      cellFormula: true,
+      cellStyles: true, // Include cell styles
+      cellNF: true, // Keep number formats in `z`
+      sheetStubs: false, // Don't create stub cells for empty cells
+      // Note: sheet_to_json with defval can help us find the true extent of data
+    });
+    // Files from older Macs count dates from 1904
+    const date1904 = !!wb.Workbook?.WBProps?.date1904;
+
+    // Convert to Univer workbook format
+    const workbookData: IWorkbookData = {
+      id: `workbook-${Date.now()}`,
+      name: fileName.replace(/\.(xlsx|xls|ods)$/i, ''),
+      appVersion: '0.10.8',
+      sheets: {},
+      sheetOrder: [],
+      locale: LocaleType.EN_US,
+      styles: {},
+    };
+
+    // Fonts, borders and alignment come from styles.xml, which SheetJS only partly reads
+    let pkg: XLSXPackage | null = null;
+    let cellStyles: XLSXCellStyles | null = null;
+    try {
+      pkg = await openXLSXPackage(data);
+      cellStyles = pkg ? await readXLSXCellStyles(pkg) : null;
+    } catch (styleError) {
+      console.warn('Could not read cell styles, importing values only:', styleError);
+    }
+
+    // Conditional formatting and data validation aren't read by SheetJS either
+    let sheetRules = new Map<string, SheetRules>();
+    try {
+      sheetRules = pkg ? await readSheetRules(pkg, cellStyles?.dxfStyles || []) : sheetRules;
+    } catch (rulesError) {
+      console.warn('Could not read conditional formatting and data validation:', rulesError);
+    }
+    // Neither are images
+    let sheetImages = new Map<string, XLSXImage[]>();
+    try {
+      sheetImages = pkg ? await readSheetImages(pkg) : sheetImages;
+    } catch (imagesError) {
+      console.warn('Could not read images:', imagesError);
+    }
+    // Nor freeze panes, zoom, gridlines, tab colors or protection
+    let sheetLayouts = new Map<string, SheetLayout>();
+    try {
+      sheetLayouts = pkg ? await readSheetLayouts(pkg, await readWorkbookTheme(pkg)) : sheetLayouts;
+    } catch (layoutError) {
+      console.warn('Could not read sheet view settings:', layoutError);
+    }
+    // OpenDocument files aren't XLSX packages; their column widths are read from content.xml
+    let odsColumns = new Map<string, ODSColumn[]>();
+    if (!pkg && /\.ods$/i.test(fileName)) {
+      try {
+        odsColumns = await readODSColumns(data);
+      } catch (columnsError) {
+        console.warn('Could not read OpenDocument column widths:', columnsError);
+      }
+    }
+    const rulesBySheetId = new Map<string, SheetRules>();
+    const imagesBySheetId = new Map<string, XLSXImage[]>();
+    const annotationsBySheetId = new Map<string, SheetAnnotations>();
+    const registerStyle = createStyleTable(workbookData.styles);
+    const styleIds = new Map<string, string | null>();
+    // Combines a cell format with the cell's number format into a de-duplicated style id
+    const getStyleId = (xfIndex: number | undefined, numberFormat: string | undefined): string | null => {
+      const key = `${xfIndex ?? ''}|${numberFormat ?? ''}`;
+      if (styleIds.has(key)) return styleIds.get(key) ?? null;
+      const style: IStyleData = { ...(xfIndex !== undefined ? cellStyles?.xfStyles[xfIndex] : null) };
+      if (numberFormat && numberFormat !== 'General') {
+        style.n = { pattern: numberFormat };
+      }
+      const id = Object.keys(style).length > 0 ? registerStyle(style) : null;
+      styleIds.set(key, id);
+      return id;
+    };
+
+    // Sheet ids are assigned up front so links between sheets can point at later sheets
+    const importedAt = Date.now();
+    const sheetIdsByName = new Map(wb.SheetNames.map((name, index) => [name, `sheet-${importedAt}-${index}`]));
+
+    // Convert each sheet
+    wb.SheetNames.forEach((sheetName, sheetIndex) => {
+      const ws = wb.Sheets[sheetName];
+      if (!ws) return;
+      const sheetCellStyles = cellStyles?.sheets.get(sheetName);
+
+      // Create cell matrix for Univer
+      const cellMatrix: { [row: string]: { [col: string]: any } } = {};
+
+      // Track maximum row and column to determine sheet dimensions
+      let maxRow = -1;
+      let maxCol = -1;
+
+      // Try to get the true extent using multiple methods
+      // Method 1: Check if !ref range exists and parse it
+      const initialRangeFromRef: XLSX.Range | null = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']) : null;
+      if (initialRangeFromRef) {
+        // Start with the !ref range as a baseline
+        maxRow = Math.max(maxRow, initialRangeFromRef.e.r); // e.r is end row
+        maxCol = Math.max(maxCol, initialRangeFromRef.e.c); // e.c is end column
+      }
+      const reportRows = (rowsDone: number) => onProgress?.({
+        stage: 'converting',
+        sheetName,
+        sheetsDone: sheetIndex,
+        sheetCount: wb.SheetNames.length,
+        rowsDone,
+        rowCount: maxRow + 1,
+      });
+      reportRows(0);
+
+      // Method 2: Try sheet_to_json to get a dense representation
+      // Note: This might also be limited by !ref, but it's worth checking
+      let jsonData: any[][] = [];
       try {
-        const data = e.target?.result;
-        if (!data) {
-          reject(new Error('Failed to read file'));
-          return;
+        jsonData = XLSX.utils.sheet_to_json(ws, {
+          header: 1, // Return as 2D array
+          defval: null, // Use null for empty cells
+          raw: false, // Get formatted values
+        }) as any[][];
+
+        // Find the maximum row and column from the JSON data
+        if (jsonData && jsonData.length > 0) {
+          const jsonMaxRow = jsonData.length - 1; // -1 because rows are 0-indexed
+          const jsonMaxCol = jsonData.reduce((max, row) => {
+            return Math.max(max, row ? (row.length - 1) : -1);
+          }, -1);
+
+          maxRow = Math.max(maxRow, jsonMaxRow);
+          maxCol = Math.max(maxCol, jsonMaxCol);
         }
+      } catch (jsonError) {
+        console.warn('Could not parse sheet to JSON, falling back to cell-by-cell parsing:', jsonError);
+      }
 
-        // Read the XLSX workbook
-        // XLSX.read() reads all cells by default, regardless of !ref range
-        // The !ref property is just a convenience hint, but all cells are available in the ws object
-        // We use 'raw: false' to get formatted values, and 'cellFormula: true' to preserve formulas
-        const wb = XLSX.read(data, {
-          type: 'binary',
-          cellFormula: true,
-          cellDates: true,
-          cellStyles: true, // Include cell styles
-          sheetStubs: false, // Don't create stub cells for empty cells
-          // Note: sheet_to_json with defval can help us find the true extent of data
-        });
+      // Iterate through ALL cell addresses in the worksheet object
+      // This captures cells that might have formatting but no values, or cells outside !ref
+      // Cell addresses are keys like "A1", "B2", etc.
+      // IMPORTANT: This should capture ALL cells that exist in the XLSX file's XML structure
+      const cellAddressPattern = /^[A-Z]+[0-9]+$/;
+      let cellCount = 0;
+
+      for (const cellAddress in ws) {
+        // Skip special properties that start with !
+        if (cellAddress.startsWith('!')) {
+          continue;
+        }
 
-        // Convert to Univer workbook format
-        const workbookData: IWorkbookData = {
-          id: `workbook-${Date.now()}`,
-          name: file.name.replace(/\.(xlsx|xls)$/i, ''),
-          appVersion: '0.10.8',
-          sheets: {},
-          sheetOrder: [],
-          locale: LocaleType.EN_US,
-          styles: {},
-        };
-
-        // Convert each sheet
-        wb.SheetNames.forEach((sheetName) => {
-          const ws = wb.Sheets[sheetName];
-          if (!ws) return;
-
-          // Create cell matrix for Univer
-          const cellMatrix: { [row: string]: { [col: string]: any } } = {};
-
-          // Track maximum row and column to determine sheet dimensions
-          let maxRow = -1;
-          let maxCol = -1;
-
-          // Try to get the true extent using multiple methods
-          // Method 1: Check if !ref range exists and parse it
-          const initialRangeFromRef: XLSX.Range | null = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']) : null;
-          if (initialRangeFromRef) {
-            // Start with the !ref range as a baseline
-            maxRow = Math.max(maxRow, initialRangeFromRef.e.r); // e.r is end row
-            maxCol = Math.max(maxCol, initialRangeFromRef.e.c); // e.c is end column
-            console.log(`📋 !ref range: ${ws['!ref']} (rows 0-${initialRangeFromRef.e.r}, cols 0-${initialRangeFromRef.e.c})`);
-          }
+        // Only process valid cell addresses
+        if (!cellAddressPattern.test(cellAddress)) {
+          continue;
+        }
 
-          // Method 2: Try sheet_to_json to get a dense representation
-          // Note: This might also be limited by !ref, but it's worth checking
-          let jsonData: any[][] = [];
-          try {
-            jsonData = XLSX.utils.sheet_to_json(ws, {
-              header: 1, // Return as 2D array
-              defval: null, // Use null for empty cells
-              raw: false, // Get formatted values
-            }) as any[][];
-
-            // Find the maximum row and column from the JSON data
-            if (jsonData && jsonData.length > 0) {
-              const jsonMaxRow = jsonData.length - 1; // -1 because rows are 0-indexed
-              const jsonMaxCol = jsonData.reduce((max, row) => {
-                return Math.max(max, row ? (row.length - 1) : -1);
-              }, -1);
-
-              maxRow = Math.max(maxRow, jsonMaxRow);
-              maxCol = Math.max(maxCol, jsonMaxCol);
-              console.log(`📋 JSON parsing found: ${jsonData.length} rows, max col: ${jsonMaxCol}`);
-            }
-          } catch (jsonError) {
-            console.warn('Could not parse sheet to JSON, falling back to cell-by-cell parsing:', jsonError);
-          }
+        const cell = ws[cellAddress];
+        if (!cell) continue;
 
-          // Iterate through ALL cell addresses in the worksheet object
-          // This captures cells that might have formatting but no values, or cells outside !ref
-          // Cell addresses are keys like "A1", "B2", etc.
-          // IMPORTANT: This should capture ALL cells that exist in the XLSX file's XML structure
-          const cellAddressPattern = /^[A-Z]+[0-9]+$/;
-          let cellCount = 0;
-          let cellsOutsideRef = 0;
-
-          for (const cellAddress in ws) {
-            // Skip special properties that start with !
-            if (cellAddress.startsWith('!')) {
-              continue;
-            }
-
-            // Only process valid cell addresses
-            if (!cellAddressPattern.test(cellAddress)) {
-              continue;
-            }
-
-            const cell = ws[cellAddress];
-            if (!cell) continue;
-
-            cellCount++;
-
-            // Decode the cell address to get row and column indices
-            const decoded = XLSX.utils.decode_cell(cellAddress);
-            const R = decoded.r;
-            const C = decoded.c;
-
-            // Check if this cell is outside the !ref range (if !ref exists)
-            if (initialRangeFromRef) {
-              if (R > initialRangeFromRef.e.r || C > initialRangeFromRef.e.c) {
-                cellsOutsideRef++;
-              }
-            }
-
-            // Update max row and column (this ensures we capture all cells with data)
-            // Use Math.max to take the larger of what we found in JSON parsing vs cell-by-cell
-            if (R > maxRow) maxRow = R;
-            if (C > maxCol) maxCol = C;
-
-            const rowKey = String(R);
-            const colKey = String(C);
-
-            // Initialize row if needed
-            if (!cellMatrix[rowKey]) {
-              cellMatrix[rowKey] = {};
-            }
-
-            // Create cell data object
-            const cellData: any = {};
-
-            // Set value
-            if (cell.v !== undefined) {
-              cellData.v = cell.v;
-            } else if (cell.w !== undefined) {
-              // Use formatted text if value is not available
-              cellData.v = cell.w;
-            }
-
-            // Set type
-            if (cell.t) {
-              cellData.t = cell.t; // 'n' for number, 's' for string, 'b' for boolean, 'e' for error
-            } else if (typeof cellData.v === 'number') {
-              cellData.t = 'n';
-            } else if (typeof cellData.v === 'boolean') {
-              cellData.t = 'b';
-            } else {
-              cellData.t = 's';
-            }
-
-            // Set formula if present
-            if (cell.f) {
-              cellData.f = cell.f;
-              // For formulas, keep the calculated value if available
-              if (cell.v !== undefined) {
-                cellData.v = cell.v;
-              }
-            }
-
-            cellMatrix[rowKey][colKey] = cellData;
-          }
+        cellCount++;
 
-          // Get the range from !ref for comparison/debugging (but don't rely on it)
-          const rangeFromRef: XLSX.Range | null = ws['!ref'] ? XLSX.utils.decode_range(ws['!ref']) : null;
+        // Decode the cell address to get row and column indices
+        const decoded = XLSX.utils.decode_cell(cellAddress);
+        const R = decoded.r;
+        const C = decoded.c;
+        if (cellCount % PROGRESS_INTERVAL_CELLS === 0) {
+          reportRows(R);
+        }
 
-          // If maxRow from actual cells is higher than !ref range, we found cells beyond !ref
-          if (rangeFromRef && maxRow > rangeFromRef.e.r) {
-            console.log(`⚠️ Found ${maxRow - rangeFromRef.e.r} additional rows beyond !ref range (${rangeFromRef.e.r + 1} to ${maxRow})`);
-          }
+        // Update max row and column (this ensures we capture all cells with data)
+        // Use Math.max to take the larger of what we found in JSON parsing vs cell-by-cell
+        if (R > maxRow) maxRow = R;
+        if (C > maxCol) maxCol = C;
 
-          // Note: We don't use sheet_to_json anymore because it's limited by !ref
-          // By iterating through all cell addresses in the ws object directly,
-          // we capture ALL cells, even those beyond the !ref range
-
-          // Debug logging to understand what we're importing
-          const totalRowsInMatrix = Object.keys(cellMatrix).length;
-          const totalCellsInMatrix = Object.keys(cellMatrix).reduce((sum, rowKey) => {
-            return sum + Object.keys(cellMatrix[rowKey] || {}).length;
-          }, 0);
-
-          console.log(`📊 Importing sheet "${sheetName}":`, {
-            rangeFromRef: ws['!ref'] || 'none',
-            maxRowFromCells: maxRow,
-            maxColFromCells: maxCol,
-            rowsInJSON: jsonData.length,
-            totalRowsInMatrix: totalRowsInMatrix,
-            totalCellAddresses: cellCount,
-            cellsOutsideRefRange: cellsOutsideRef,
-            totalCellsInMatrix: totalCellsInMatrix,
-            cellsPerRowAvg: totalRowsInMatrix > 0 ? (totalCellsInMatrix / totalRowsInMatrix).toFixed(2) : 0,
-          });
+        const rowKey = String(R);
+        const colKey = String(C);
 
-          // Warn if we found cells outside the !ref range - this is good, it means we're reading more than Excel reported
-          if (cellsOutsideRef > 0) {
-            console.log(`✅ Found ${cellsOutsideRef} cells outside the reported !ref range - these will be imported!`);
+        // Initialize row if needed
+        if (!cellMatrix[rowKey]) {
+          cellMatrix[rowKey] = {};
+        }
+
+        // Create cell data object
+        const cellData: any = {};
+
+        // Set value and type; cells holding only a comment come through as empty stubs
+        if (cell.t !== 'z') {
+          if (cell.v !== undefined) {
+            cellData.v = cell.v;
+          } else if (cell.w !== undefined) {
+            // Use formatted text if value is not available
+            cellData.v = cell.w;
           }
 
-          // Create sheet data
-          // For infinite scrolling, we can either:
-          // 1. Not set rowCount/columnCount (let Univer determine dynamically based on data)
-          // 2. Set very high values to ensure scrolling capability
-          // We'll use a high value (Excel's maximum is 1,048,576 rows and 16,384 columns)
-          // This allows users to scroll and add data anywhere in this range
-          const EXCEL_MAX_ROWS = 1048576; // Excel 2007+ maximum rows
-          const EXCEL_MAX_COLS = 16384;   // Excel 2007+ maximum columns (XFD column)
-          const MIN_ROWS = 100000;         // Minimum we want to support
-          const MIN_COLS = 1000;           // Minimum we want to support
-
-          // Ensure at least MIN_ROWS/MIN_COLS, but don't exceed Excel's maximum
-          // Use Math.min(Math.max(...)) to clamp between minimum and maximum
-          const calculatedRowCount = Math.min(Math.max(maxRow + 1, MIN_ROWS), EXCEL_MAX_ROWS);
-          const calculatedColCount = Math.min(Math.max(maxCol + 1, MIN_COLS), EXCEL_MAX_COLS);
-
-          console.log(`📏 Sheet "${sheetName}" dimensions:`, {
-            actualMaxRow: maxRow,
-            actualMaxCol: maxCol,
-            setRowCount: calculatedRowCount,
-            setColCount: calculatedColCount,
-          });
+          if (cell.t) {
+            cellData.t = cell.t; // 'n' for number, 's' for string, 'b' for boolean, 'e' for error
+          } else if (typeof cellData.v === 'number') {
+            cellData.t = 'n';
+          } else if (typeof cellData.v === 'boolean') {
+            cellData.t = 'b';
+          } else {
+            cellData.t = 's';
+          }
+        }
 
-          const sheetId = `sheet-${Date.now()}-${wb.SheetNames.indexOf(sheetName)}`;
-          workbookData.sheets[sheetId] = {
-            id: sheetId,
-            name: sheetName,
-            cellData: cellMatrix,
-            rowCount: calculatedRowCount,
-            columnCount: calculatedColCount,
-            showGridlines: 1,
-            rowData: {},
-            columnData: {},
-            mergeData: [],
-          };
-
-          // Add column widths
-          if (ws['!cols']) {
-            const columnData: { [col: string]: any } = {};
-            ws['!cols'].forEach((col, index) => {
-              if (col && col.wch) {
-                // Convert character width to pixels (approximate)
-                columnData[String(index)] = { w: col.wch * 7 };
-              }
-            });
-            if (Object.keys(columnData).length > 0) {
-              workbookData.sheets[sheetId].columnData = columnData;
-            }
+        // Set formula if present (SheetJS drops the leading "=" Univer expects)
+        if (cell.f) {
+          cellData.f = cell.f.startsWith('=') ? cell.f : `=${cell.f}`;
+          // Array formulas keep the range they spill into
+          if (cell.F) {
+            cellData.ref = cell.F;
+          }
+          // For formulas, keep the calculated value if available
+          if (cell.v !== undefined) {
+            cellData.v = cell.v;
           }
+        }
 
-          // Add row heights
-          if (ws['!rows']) {
-            const rowData: { [row: string]: any } = {};
-            ws['!rows'].forEach((row, index) => {
-              if (row && row.hpt) {
-                rowData[String(index)] = { h: row.hpt };
-              }
-            });
-            if (Object.keys(rowData).length > 0) {
-              workbookData.sheets[sheetId].rowData = rowData;
-            }
+        // Dates are read as serial numbers; Univer counts them in the 1900 system
+        if (date1904 && typeof cellData.v === 'number' && isDateFormat(cell.z as string | undefined)) {
+          cellData.v = from1904Serial(cellData.v);
+        }
+
+        // Set style
+        const styleId = getStyleId(sheetCellStyles?.get(cellAddress), cell.z as string | undefined);
+        if (styleId) {
+          cellData.s = styleId;
+        }
+
+        cellMatrix[rowKey][colKey] = cellData;
+      }
+
+      // Formatted cells without a value (filled or bordered blanks) aren't in the SheetJS sheet
+      sheetCellStyles?.forEach((xfIndex, cellAddress) => {
+        if (ws[cellAddress]) return;
+        const styleId = getStyleId(xfIndex, undefined);
+        if (!styleId) return;
+        const decoded = XLSX.utils.decode_cell(cellAddress);
+        if (!cellMatrix[decoded.r]) {
+          cellMatrix[decoded.r] = {};
+        }
+        cellMatrix[decoded.r][decoded.c] = { s: styleId };
+        if (decoded.r > maxRow) maxRow = decoded.r;
+        if (decoded.c > maxCol) maxCol = decoded.c;
+      });
+
+      // Note: We don't use sheet_to_json anymore because it's limited by !ref
+      // By iterating through all cell addresses in the ws object directly,
+      // we capture ALL cells, even those beyond the !ref range
+
+      // Create sheet data
+      // For infinite scrolling, we can either:
+      // 1. Not set rowCount/columnCount (let Univer determine dynamically based on data)
+      // 2. Set very high values to ensure scrolling capability
+      // We'll use a high value (Excel's maximum is 1,048,576 rows and 16,384 columns)
+      // This allows users to scroll and add data anywhere in this range
+      const EXCEL_MAX_ROWS = 1048576; // Excel 2007+ maximum rows
+      const EXCEL_MAX_COLS = 16384;   // Excel 2007+ maximum columns (XFD column)
+      const MIN_ROWS = 100000;         // Minimum we want to support
+      const MIN_COLS = 1000;           // Minimum we want to support
+
+      // Ensure at least MIN_ROWS/MIN_COLS, but don't exceed Excel's maximum
+      // Use Math.min(Math.max(...)) to clamp between minimum and maximum
+      const calculatedRowCount = Math.min(Math.max(maxRow + 1, MIN_ROWS), EXCEL_MAX_ROWS);
+      const calculatedColCount = Math.min(Math.max(maxCol + 1, MIN_COLS), EXCEL_MAX_COLS);
+
+      const sheetId = sheetIdsByName.get(sheetName) || `sheet-${importedAt}-${wb.SheetNames.indexOf(sheetName)}`;
+      workbookData.sheets[sheetId] = {
+        id: sheetId,
+        name: sheetName,
+        cellData: cellMatrix,
+        rowCount: calculatedRowCount,
+        columnCount: calculatedColCount,
+        showGridlines: 1,
+        rowData: {},
+        columnData: {},
+        mergeData: [],
+      };
+
+      // Add column widths, hidden columns and outline levels (Univer has no grouping, so
+      // levels are kept in the column's custom data for export)
+      if (ws['!cols']) {
+        const columnData: { [col: string]: any } = {};
+        ws['!cols'].forEach((col, index) => {
+          if (!col) return;
+          const column: any = {};
+          if (col.wch) {
+            // Convert character width to pixels (approximate)
+            column.w = col.wch * 7;
+          }
+          if (col.hidden) column.hd = BooleanNumber.TRUE;
+          if (col.level) column.custom = { outlineLevel: col.level };
+          if (Object.keys(column).length > 0) {
+            columnData[String(index)] = column;
           }
+        });
+        if (Object.keys(columnData).length > 0) {
+          workbookData.sheets[sheetId].columnData = columnData;
+        }
+      }
 
-          // Add merge ranges
-          if (ws['!merges']) {
-            const mergeData: any[] = [];
-            ws['!merges'].forEach((merge: XLSX.Range) => {
-              mergeData.push({
-                startRow: merge.s.r,
-                startColumn: merge.s.c,
-                endRow: merge.e.r,
-                endColumn: merge.e.c,
-              });
-            });
-            if (mergeData.length > 0) {
-              workbookData.sheets[sheetId].mergeData = mergeData;
-            }
+      // OpenDocument widths are already in pixels. Columns past the data only repeat the default.
+      const sheetODSColumns = odsColumns.get(sheetName);
+      if (sheetODSColumns) {
+        const columnData: { [col: string]: IColumnData } = {};
+        sheetODSColumns.forEach((col, index) => {
+          if (index > maxCol && !col.hidden) return;
+          const column: IColumnData = {};
+          if (col.width !== undefined) column.w = col.width;
+          if (col.hidden) column.hd = BooleanNumber.TRUE;
+          if (Object.keys(column).length > 0) {
+            columnData[String(index)] = column;
           }
+        });
+        if (Object.keys(columnData).length > 0) {
+          workbookData.sheets[sheetId].columnData = columnData;
+        }
+      }
 
-          workbookData.sheetOrder.push(sheetId);
+      // Add row heights, hidden rows and outline levels
+      if (ws['!rows']) {
+        const rowData: { [row: string]: any } = {};
+        ws['!rows'].forEach((row, index) => {
+          if (!row) return;
+          const rowProps: any = {};
+          if (row.hpt) rowProps.h = row.hpt;
+          if (row.hidden) rowProps.hd = BooleanNumber.TRUE;
+          if (row.level) rowProps.custom = { outlineLevel: row.level };
+          if (Object.keys(rowProps).length > 0) {
+            rowData[String(index)] = rowProps;
+          }
         });
+        if (Object.keys(rowData).length > 0) {
+          workbookData.sheets[sheetId].rowData = rowData;
+        }
+      }
 
-        console.log(`✅ Imported XLSX file: ${file.name}`, {
-          sheetCount: workbookData.sheetOrder.length,
-          sheetNames: workbookData.sheetOrder.map(id => workbookData.sheets[id]?.name),
-          sheets: workbookData.sheetOrder.map(id => ({
-            name: workbookData.sheets[id]?.name,
-            rowCount: workbookData.sheets[id]?.rowCount,
-            columnCount: workbookData.sheets[id]?.columnCount,
-          })),
+      // Add merge ranges
+      if (ws['!merges']) {
+        const mergeData: any[] = [];
+        ws['!merges'].forEach((merge: XLSX.Range) => {
+          mergeData.push({
+            startRow: merge.s.r,
+            startColumn: merge.s.c,
+            endRow: merge.e.r,
+            endColumn: merge.e.c,
+          });
         });
+        if (mergeData.length > 0) {
+          workbookData.sheets[sheetId].mergeData = mergeData;
+        }
+      }
 
-        resolve(workbookData);
-      } catch (error) {
-        console.error('Error importing XLSX file:', error);
-        reject(error);
+      // Hidden sheets, and view settings SheetJS doesn't read
+      if (wb.Workbook?.Sheets?.[wb.SheetNames.indexOf(sheetName)]?.Hidden) {
+        workbookData.sheets[sheetId].hidden = BooleanNumber.TRUE;
       }
-    };
+      const layout = sheetLayouts.get(sheetName);
+      if (layout) {
+        applySheetLayout(workbookData.sheets[sheetId], layout);
+      }
+
+      const rules = sheetRules.get(sheetName);
+      if (rules) {
+        rulesBySheetId.set(sheetId, rules);
+      }
+      const images = sheetImages.get(sheetName);
+      if (images) {
+        imagesBySheetId.set(sheetId, images);
+      }
+      annotationsBySheetId.set(sheetId, readSheetAnnotations(ws, workbookData.id, sheetId, sheetIdsByName));
+
+      workbookData.sheetOrder.push(sheetId);
+    });
+
+    onProgress?.({ stage: 'converting', sheetsDone: wb.SheetNames.length, sheetCount: wb.SheetNames.length, rowsDone: 0, rowCount: 0 });
+
+    setSheetRulesResources(workbookData, rulesBySheetId);
+    setSheetImagesResource(workbookData, imagesBySheetId);
+    setAnnotationResources(workbookData, annotationsBySheetId);
+    setDefinedNamesResource(workbookData, wb.Workbook?.Names, [...sheetIdsByName.values()]);
+
+    return workbookData;
+  } catch (error) {
+    console.error('Error importing XLSX file:', error);
+    throw error;
+  }
+}
 
-    reader.onerror = () => {
-      reject(new Error('Failed to read file'));
+/**
+ * Converts an XLSX or ODS file (or a delimited text file, given `delimited`) to Univer workbook data
+ * in a Web Worker, reporting progress as it goes. The file's bytes are transferred to the
+ * worker rather than copied. Falls back to converting on the main thread where workers aren't available.
+ * The file is also checked for what the workbook can't hold (charts, pivot tables, macros…).
+ */
+export async function importXLSXToWorkbookData(file: File, options: XLSXImportOptions = {}): Promise<XLSXImportResult> {
+  const { onProgress, signal, delimited } = options;
+  const abortError = () => new DOMException('Import cancelled', 'AbortError');
+  if (signal?.aborted) throw abortError();
+
+  onProgress?.({ stage: 'reading', sheetsDone: 0, sheetCount: 0, rowsDone: 0, rowCount: 0 });
+  const data = await file.arrayBuffer();
+  if (signal?.aborted) throw abortError();
+
+  if (typeof Worker === 'undefined') {
+    if (delimited) {
+      return { workbookData: convertDelimitedToWorkbookData(data, file.name, delimited, onProgress), issues: [] };
+    }
+    const workbookData = await convertXLSXToWorkbookData(data, file.name, onProgress);
+    return { workbookData, issues: await inspectImportedFile(data, file.name) };
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./xlsxImportWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      console.log(`🛑 Cancelled import of ${file.name}`);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (event: MessageEvent<XLSXImportWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.type === 'done') {
+        finish();
+        resolve({ workbookData: message.workbookData, issues: message.issues });
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Failed to read file'));
     };
 
-    // Read file as binary string for XLSX
-    reader.readAsBinaryString(file);
+    const request: XLSXImportWorkerRequest = { data, fileName: file.name, delimited };
+    worker.postMessage(request, [data]);
   });
 }
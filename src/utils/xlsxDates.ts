@@ -0,0 +1,56 @@
+// Dates and times in a workbook are serial numbers with a date number format, as in Excel and
+// Univer: whole days since 1899-12-30, with the time of day as the fraction. Files saved in the
+// 1904 date system count from 1904-01-01 instead, so their dates are moved over on import.
+
+import * as XLSX from 'xlsx';
+import type { ICellData } from '@univerjs/core';
+
+// Days between the 1900 and 1904 date systems' day zero
+const DATE_1904_OFFSET = 1462;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+export function isDateFormat(pattern: string | undefined | null): boolean {
+  return !!pattern && pattern !== 'General' && XLSX.SSF.is_date(pattern);
+}
+
+/**
+ * The 1900-system serial for a date-formatted number read from a 1904-system file. Time-only
+ * values (below one day) mean the same in both systems and are left alone.
+ */
+export function from1904Serial(serial: number): number {
+  return serial >= 1 ? serial + DATE_1904_OFFSET : serial;
+}
+
+/**
+ * The serial for a date stored as a JavaScript Date (or its ISO text, once saved as JSON) by
+ * older imports. Those dates were built from the file's wall-clock time in the local time zone.
+ */
+function dateToSerial(date: Date): number {
+  const wallClock = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  );
+  return (wallClock - SERIAL_EPOCH) / MS_PER_DAY;
+}
+
+// Whether a cell holds a date the way older imports stored it, rather than as a serial number
+export function isStoredDate(cell: ICellData | null | undefined): boolean {
+  if (!cell) return false;
+  if ((cell.v as unknown) instanceof Date) return true;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (cell.t as any) === 'd' && typeof cell.v === 'string' && !Number.isNaN(Date.parse(cell.v));
+}
+
+// The serial number of a stored date (see `isStoredDate`)
+export function storedDateToSerial(cell: ICellData): number {
+  const value = cell.v as unknown;
+  return dateToSerial(value instanceof Date ? value : new Date(String(value)));
+}
+
+// A number format for a date that came without one: time only, date only, or both
+export function defaultDateFormat(serial: number): string {
+  if (serial < 1) return 'h:mm:ss';
+  return Number.isInteger(serial) ? 'yyyy-mm-dd' : 'yyyy-mm-dd h:mm:ss';
+}
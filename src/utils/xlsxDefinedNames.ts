@@ -0,0 +1,84 @@
+// Defined names (named ranges and named formulas) between SheetJS's `wb.Workbook.Names` and
+// Univer's defined-name resource. SheetJS reads and writes the names itself; only the scope
+// needs translating, from a sheet index in Excel to a sheet id in Univer.
+
+import type * as XLSX from 'xlsx';
+import type { IWorkbookData } from '@univerjs/core';
+import { readResource, setResource } from './univerResources';
+
+export const DEFINED_NAME_RESOURCE = 'SHEET_DEFINED_NAME_PLUGIN';
+
+// Scope of a workbook-level name in Univer (see @univerjs/engine-formula)
+export const WORKBOOK_SCOPE = 'AllDefaultWorkbook';
+
+// Shape of a name in the defined-name resource, keyed by its id (see @univerjs/engine-formula)
+interface DefinedName {
+  id: string;
+  name: string;
+  formulaOrRefString: string; // "Sheet1!$A$1:$B$2", or a formula such as "=0.2"
+  comment?: string;
+  localSheetId?: string;
+  hidden?: boolean;
+}
+
+// SheetJS reads and writes `Hidden` for names too, though its types leave it out
+type XLSXDefinedName = XLSX.DefinedName & { Hidden?: boolean };
+
+// Excel's built-in names (print areas, filter ranges...) belong to features they describe
+function isBuiltInName(name: string): boolean {
+  return name.startsWith('_xlnm.');
+}
+
+/**
+ * Collects the workbook's defined names as SheetJS names. `sheetIds` lists the Univer sheet
+ * behind each worksheet, in package order; names scoped to a sheet that isn't exported are left out.
+ */
+export function getXLSXDefinedNames(workbookData: IWorkbookData, sheetIds: string[]): XLSXDefinedName[] {
+  const names: XLSXDefinedName[] = [];
+  for (const definedName of Object.values(readResource<DefinedName>(workbookData, DEFINED_NAME_RESOURCE))) {
+    if (!definedName?.name || !definedName.formulaOrRefString) continue;
+
+    const entry: XLSXDefinedName = {
+      Name: definedName.name,
+      Ref: definedName.formulaOrRefString.replace(/^=/, ''),
+    };
+    if (definedName.localSheetId && definedName.localSheetId !== WORKBOOK_SCOPE) {
+      const sheetIndex = sheetIds.indexOf(definedName.localSheetId);
+      if (sheetIndex === -1) continue;
+      entry.Sheet = sheetIndex;
+    }
+    if (definedName.comment) entry.Comment = definedName.comment;
+    if (definedName.hidden) entry.Hidden = true;
+    names.push(entry);
+  }
+  return names;
+}
+
+/**
+ * Stores a workbook's defined names as Univer's defined-name resource.
+ * `sheetIds` lists the id each worksheet is imported under, in workbook order.
+ */
+export function setDefinedNamesResource(workbookData: IWorkbookData, names: XLSXDefinedName[] | undefined, sheetIds: string[]): void {
+  const definedNames: Record<string, DefinedName> = {};
+  (names || []).forEach((entry, index) => {
+    if (!entry?.Name || !entry.Ref || isBuiltInName(entry.Name)) return;
+
+    let localSheetId = WORKBOOK_SCOPE;
+    if (typeof entry.Sheet === 'number') {
+      const sheetId = sheetIds[entry.Sheet];
+      if (!sheetId) return;
+      localSheetId = sheetId;
+    }
+    const id = `xlsx-name-${index}`;
+    definedNames[id] = {
+      id,
+      name: entry.Name,
+      formulaOrRefString: entry.Ref,
+      localSheetId,
+      ...(entry.Comment ? { comment: entry.Comment } : {}),
+      ...(entry.Hidden ? { hidden: true } : {}),
+    };
+  });
+
+  setResource(workbookData, DEFINED_NAME_RESOURCE, definedNames);
+}
@@ -0,0 +1,360 @@
+// Floating images between XLSX drawing parts and Univer's drawing resource. SheetJS's community
+// build neither reads nor writes drawings, so both directions work on the raw package.
+
+import type { IWorkbookData, IWorksheetData } from '@univerjs/core';
+import { DEFAULT_WORKSHEET_COLUMN_WIDTH, DEFAULT_WORKSHEET_ROW_HEIGHT, DrawingTypeEnum, ImageSourceType } from '@univerjs/core';
+import {
+  addContentType,
+  addRelationship,
+  asArray,
+  insertWorksheetElements,
+  parseXml,
+  readPartText,
+  readRelationships,
+  writePartText,
+  type XLSXPackage,
+} from './xlsxPackage';
+import { readResource, setResource } from './univerResources';
+
+export const DRAWING_RESOURCE = 'SHEET_DRAWING_PLUGIN';
+
+const RELATIONSHIP_TYPES = {
+  drawing: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image',
+};
+
+const EMU_PER_PIXEL = 9525;
+const EMU_PER_DEGREE = 60000;
+const EXCEL_MAX_ROWS = 1048576;
+const EXCEL_MAX_COLUMNS = 16384;
+
+// Image formats Excel displays, by MIME type and file extension
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpeg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+};
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  svg: 'image/svg+xml',
+};
+
+// Univer's anchor types (SheetDrawingAnchorType) and the matching Excel `editAs` values
+const ANCHOR_TYPES: Record<string, string> = {
+  '0': 'oneCell', // Moves with cells, keeps its size
+  '1': 'twoCell', // Moves and resizes with cells
+  '2': 'absolute',
+};
+
+// Shape of an image in the drawing resource (see @univerjs/sheets-drawing); offsets are in pixels
+interface SheetCellPosition {
+  column: number;
+  columnOffset: number;
+  row: number;
+  rowOffset: number;
+}
+
+interface SheetImage {
+  unitId: string;
+  subUnitId: string;
+  drawingId: string;
+  drawingType: DrawingTypeEnum;
+  imageSourceType: ImageSourceType;
+  source: string;
+  transform?: { left?: number; top?: number; width?: number; height?: number; angle?: number; flipX?: boolean; flipY?: boolean };
+  sheetTransform: { from: SheetCellPosition; to: SheetCellPosition; angle?: number; flipX?: boolean; flipY?: boolean };
+  anchorType?: string;
+}
+
+interface SheetDrawings {
+  data: Record<string, SheetImage>;
+  order: string[];
+}
+
+// An image read from a worksheet's drawing, positioned either by cells or by pixels
+export interface XLSXImage {
+  source: string; // data: URL
+  anchorType: string;
+  from?: SheetCellPosition;
+  to?: SheetCellPosition;
+  position?: { x: number; y: number };
+  size?: { width: number; height: number };
+  angle: number;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+function toEmu(pixels: number | undefined): number {
+  return Math.round((pixels || 0) * EMU_PER_PIXEL);
+}
+
+function toPixels(emu: unknown): number {
+  return (Number(emu) || 0) / EMU_PER_PIXEL;
+}
+
+function nextFreePath(pkg: XLSXPackage, prefix: string, extension: string): string {
+  let index = 1;
+  while (pkg.zip.file(`${prefix}${index}.${extension}`)) index++;
+  return `${prefix}${index}.${extension}`;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+async function readImageBytes(image: SheetImage): Promise<{ bytes: Uint8Array; extension: string } | null> {
+  if (!image.source) return null;
+  const dataUrl = image.source.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (dataUrl) {
+    const extension = IMAGE_EXTENSIONS[dataUrl[1].toLowerCase()];
+    if (!extension) return null;
+    const binary = dataUrl[2] ? atob(dataUrl[3]) : decodeURIComponent(dataUrl[3]);
+    return { bytes: Uint8Array.from(binary, char => char.charCodeAt(0)), extension };
+  }
+  if (image.imageSourceType === ImageSourceType.URL) {
+    const response = await fetch(image.source);
+    if (!response.ok) return null;
+    const extension = IMAGE_EXTENSIONS[(response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase()];
+    if (!extension) return null;
+    return { bytes: new Uint8Array(await response.arrayBuffer()), extension };
+  }
+  // UUID sources live in an image service this file has no access to
+  return null;
+}
+
+function markerXml(tag: string, position: SheetCellPosition): string {
+  return `<xdr:${tag}><xdr:col>${Math.max(0, position.column)}</xdr:col><xdr:colOff>${toEmu(position.columnOffset)}</xdr:colOff>`
+    + `<xdr:row>${Math.max(0, position.row)}</xdr:row><xdr:rowOff>${toEmu(position.rowOffset)}</xdr:rowOff></xdr:${tag}>`;
+}
+
+function pictureAnchorXml(image: SheetImage, id: number, relationshipId: string): string {
+  const { from, to } = image.sheetTransform;
+  const angle = image.transform?.angle ?? image.sheetTransform.angle ?? 0;
+  const flipX = image.transform?.flipX ?? image.sheetTransform.flipX;
+  const flipY = image.transform?.flipY ?? image.sheetTransform.flipY;
+  let xfrmAttributes = '';
+  if (angle) xfrmAttributes += ` rot="${Math.round(angle * EMU_PER_DEGREE)}"`;
+  if (flipX) xfrmAttributes += ' flipH="1"';
+  if (flipY) xfrmAttributes += ' flipV="1"';
+
+  return `<xdr:twoCellAnchor editAs="${ANCHOR_TYPES[image.anchorType || '0'] || 'oneCell'}">`
+    + markerXml('from', from)
+    + markerXml('to', to)
+    + '<xdr:pic>'
+    + `<xdr:nvPicPr><xdr:cNvPr id="${id + 1}" name="Picture ${id}"/><xdr:cNvPicPr><a:picLocks noChangeAspect="1"/></xdr:cNvPicPr></xdr:nvPicPr>`
+    + `<xdr:blipFill><a:blip r:embed="${relationshipId}"/><a:stretch><a:fillRect/></a:stretch></xdr:blipFill>`
+    + `<xdr:spPr><a:xfrm${xfrmAttributes}><a:off x="0" y="0"/><a:ext cx="${toEmu(image.transform?.width)}" cy="${toEmu(image.transform?.height)}"/></a:xfrm>`
+    + '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></xdr:spPr>'
+    + '</xdr:pic><xdr:clientData/></xdr:twoCellAnchor>';
+}
+
+/**
+ * Writes the images of Univer's drawing resource into the package as worksheet drawings.
+ * `sheetIds` lists the Univer sheet behind each worksheet, in package order.
+ */
+export async function writeSheetImages(pkg: XLSXPackage, workbookData: IWorkbookData, sheetIds: string[]): Promise<void> {
+  const drawings = readResource<SheetDrawings>(workbookData, DRAWING_RESOURCE);
+  if (Object.keys(drawings).length === 0) return;
+
+  for (let index = 0; index < sheetIds.length; index++) {
+    const sheetPart = pkg.sheets[index];
+    const sheetDrawings = drawings[sheetIds[index]];
+    if (!sheetPart || !sheetDrawings?.data) continue;
+
+    const drawingIds = sheetDrawings.order?.length ? sheetDrawings.order : Object.keys(sheetDrawings.data);
+    const drawingPath = nextFreePath(pkg, 'xl/drawings/drawing', 'xml');
+    const anchors: string[] = [];
+    for (const drawingId of drawingIds) {
+      const image = sheetDrawings.data[drawingId];
+      if (!image || image.drawingType !== DrawingTypeEnum.DRAWING_IMAGE || !image.sheetTransform?.from || !image.sheetTransform?.to) {
+        continue;
+      }
+
+      let content: Awaited<ReturnType<typeof readImageBytes>> = null;
+      try {
+        content = await readImageBytes(image);
+      } catch (imageError) {
+        console.warn(`Could not read image ${drawingId}:`, imageError);
+      }
+      if (!content) continue;
+
+      const mediaPath = nextFreePath(pkg, 'xl/media/image', content.extension);
+      pkg.zip.file(mediaPath, content.bytes);
+      await addContentType(pkg, content.extension, IMAGE_TYPES[content.extension]);
+      const relationshipId = await addRelationship(pkg, drawingPath, RELATIONSHIP_TYPES.image, `../media/${mediaPath.split('/').pop()}`);
+      anchors.push(pictureAnchorXml(image, anchors.length + 1, relationshipId));
+    }
+    if (anchors.length === 0) continue;
+
+    writePartText(
+      pkg,
+      drawingPath,
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+        + '<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing"'
+        + ' xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+        + ' xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `${anchors.join('')}</xdr:wsDr>`
+    );
+    await addContentType(pkg, `/${drawingPath}`, 'application/vnd.openxmlformats-officedocument.drawing+xml');
+
+    const sheetXml = await readPartText(pkg, sheetPart.path);
+    if (!sheetXml) continue;
+    const relationshipId = await addRelationship(pkg, sheetPart.path, RELATIONSHIP_TYPES.drawing, `../drawings/${drawingPath.split('/').pop()}`);
+    writePartText(pkg, sheetPart.path, insertWorksheetElements(sheetXml, 'drawing', `<drawing r:id="${relationshipId}"/>`));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readMarker(marker: any): SheetCellPosition | undefined {
+  if (!marker) return undefined;
+  return {
+    column: Number(marker.col) || 0,
+    columnOffset: toPixels(marker.colOff),
+    row: Number(marker.row) || 0,
+    rowOffset: toPixels(marker.rowOff),
+  };
+}
+
+/**
+ * Reads the pictures of every worksheet's drawing, keyed by sheet name. Charts, shapes
+ * and image formats browsers can't show (EMF, WMF) are skipped.
+ */
+export async function readSheetImages(pkg: XLSXPackage): Promise<Map<string, XLSXImage[]>> {
+  const result = new Map<string, XLSXImage[]>();
+
+  for (const sheet of pkg.sheets) {
+    const sheetRelationships = await readRelationships(pkg, sheet.path);
+    const images: XLSXImage[] = [];
+
+    for (const drawingRel of sheetRelationships.values()) {
+      if (drawingRel.type !== 'drawing' || drawingRel.external) continue;
+      const drawingXml = await readPartText(pkg, drawingRel.target);
+      if (!drawingXml) continue;
+      const drawing = parseXml(drawingXml).wsDr;
+      const imageRelationships = await readRelationships(pkg, drawingRel.target);
+
+      const anchors = [
+        ...asArray(drawing?.twoCellAnchor).map(anchor => ({ kind: 'twoCell', anchor })),
+        ...asArray(drawing?.oneCellAnchor).map(anchor => ({ kind: 'oneCell', anchor })),
+        ...asArray(drawing?.absoluteAnchor).map(anchor => ({ kind: 'absolute', anchor })),
+      ];
+      for (const { kind, anchor } of anchors) {
+        const picture = anchor.pic;
+        const imageRel = imageRelationships.get(picture?.blipFill?.blip?.['@_embed']);
+        if (!picture || !imageRel || imageRel.external) continue;
+        const extension = imageRel.target.split('.').pop()?.toLowerCase() || '';
+        const mimeType = IMAGE_TYPES[extension];
+        const file = pkg.zip.file(imageRel.target);
+        if (!mimeType || !file) continue;
+
+        const xfrm = picture.spPr?.xfrm;
+        const extent = anchor.ext || xfrm?.ext;
+        const editAs = kind === 'twoCell' ? String(anchor['@_editAs'] || 'twoCell') : kind;
+        images.push({
+          source: `data:${mimeType};base64,${await file.async('base64')}`,
+          anchorType: Object.keys(ANCHOR_TYPES).find(key => ANCHOR_TYPES[key] === editAs) || '0',
+          from: readMarker(anchor.from),
+          to: readMarker(anchor.to),
+          position: anchor.pos ? { x: toPixels(anchor.pos['@_x']), y: toPixels(anchor.pos['@_y']) } : undefined,
+          size: extent ? { width: toPixels(extent['@_cx']), height: toPixels(extent['@_cy']) } : undefined,
+          angle: (Number(xfrm?.['@_rot']) || 0) / EMU_PER_DEGREE,
+          flipX: xfrm?.['@_flipH'] === '1',
+          flipY: xfrm?.['@_flipV'] === '1',
+        });
+      }
+    }
+
+    if (images.length > 0) result.set(sheet.name, images);
+  }
+
+  return result;
+}
+
+// Pixel distance from the sheet's top-left corner to a cell position, and back
+function createSheetGeometry(sheet: Partial<IWorksheetData> | undefined) {
+  const columnWidth = (column: number) => sheet?.columnData?.[column]?.w ?? sheet?.defaultColumnWidth ?? DEFAULT_WORKSHEET_COLUMN_WIDTH;
+  const rowHeight = (row: number) => sheet?.rowData?.[row]?.h ?? sheet?.defaultRowHeight ?? DEFAULT_WORKSHEET_ROW_HEIGHT;
+  const toOffset = (index: number, size: (i: number) => number) => {
+    let offset = 0;
+    for (let i = 0; i < index; i++) offset += size(i);
+    return offset;
+  };
+  const fromOffset = (offset: number, size: (i: number) => number, count: number) => {
+    let index = 0;
+    let remaining = offset;
+    while (index < count - 1 && remaining >= size(index)) {
+      remaining -= size(index);
+      index++;
+    }
+    return { index, remaining };
+  };
+
+  return {
+    toPixels: (position: SheetCellPosition) => ({
+      x: toOffset(position.column, columnWidth) + position.columnOffset,
+      y: toOffset(position.row, rowHeight) + position.rowOffset,
+    }),
+    toPosition: (x: number, y: number): SheetCellPosition => {
+      const column = fromOffset(Math.max(0, x), columnWidth, sheet?.columnCount || EXCEL_MAX_COLUMNS);
+      const row = fromOffset(Math.max(0, y), rowHeight, sheet?.rowCount || EXCEL_MAX_ROWS);
+      return { column: column.index, columnOffset: column.remaining, row: row.index, rowOffset: row.remaining };
+    },
+  };
+}
+
+/**
+ * Stores imported images as Univer's drawing resource, keyed by sheet id. Positions are
+ * resolved against the imported column widths and row heights.
+ */
+export function setSheetImagesResource(workbookData: IWorkbookData, imagesBySheetId: Map<string, XLSXImage[]>): void {
+  const drawings: Record<string, SheetDrawings> = {};
+  imagesBySheetId.forEach((images, sheetId) => {
+    const geometry = createSheetGeometry(workbookData.sheets[sheetId]);
+    const sheetDrawings: SheetDrawings = { data: {}, order: [] };
+
+    images.forEach((image, index) => {
+      const start = image.from ? geometry.toPixels(image.from) : image.position || { x: 0, y: 0 };
+      const end = image.to
+        ? geometry.toPixels(image.to)
+        : { x: start.x + (image.size?.width || 0), y: start.y + (image.size?.height || 0) };
+      const width = Math.max(1, end.x - start.x);
+      const height = Math.max(1, end.y - start.y);
+
+      const drawingId = `xlsx-image-${sheetId}-${index + 1}`;
+      sheetDrawings.data[drawingId] = {
+        unitId: workbookData.id,
+        subUnitId: sheetId,
+        drawingId,
+        drawingType: DrawingTypeEnum.DRAWING_IMAGE,
+        imageSourceType: ImageSourceType.BASE64,
+        source: image.source,
+        transform: { left: start.x, top: start.y, width, height, angle: image.angle, flipX: image.flipX, flipY: image.flipY },
+        sheetTransform: {
+          from: image.from || geometry.toPosition(start.x, start.y),
+          to: image.to || geometry.toPosition(end.x, end.y),
+          angle: image.angle,
+          flipX: image.flipX,
+          flipY: image.flipY,
+        },
+        anchorType: image.anchorType,
+      };
+      sheetDrawings.order.push(drawingId);
+    });
+
+    drawings[sheetId] = sheetDrawings;
+  });
+
+  setResource(workbookData, DRAWING_RESOURCE, drawings);
+}
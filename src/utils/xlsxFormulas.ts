@@ -0,0 +1,101 @@
+// Formula handling for XLSX export: Univer shared formulas and array formula ranges
+import type { ICellData, IObjectMatrixPrimitiveType, Nullable } from '@univerjs/core';
+
+// A1 reference outside of a function name, defined name or sheet name; `$` marks an absolute part
+const CELL_REFERENCE = /(?<![A-Za-z0-9_.$])(\$?)([A-Za-z]{1,3})(\$?)([0-9]+)(?![A-Za-z0-9_(!.])/g;
+
+// Excel 2007+ limits
+const MAX_ROW = 1048576;
+const MAX_COL = 16384;
+
+function columnToIndex(letters: string): number {
+  let index = 0;
+  for (const char of letters.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index;
+}
+
+function indexToColumn(index: number): string {
+  let letters = '';
+  while (index > 0) {
+    const remainder = (index - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    index = Math.floor((index - 1) / 26);
+  }
+  return letters;
+}
+
+/**
+ * Moves the relative cell references in a formula by the given offset, the way Excel does
+ * when a formula is filled or copied. References pushed off the sheet become #REF!.
+ * Text in double quotes and quoted sheet names are left alone.
+ */
+export function shiftFormulaReferences(formula: string, rowOffset: number, colOffset: number): string {
+  if (rowOffset === 0 && colOffset === 0) return formula;
+
+  // Split into quoted ("text", 'Sheet name') and unquoted parts; only unquoted parts hold references
+  return formula.split(/("(?:[^"]|"")*"|'(?:[^']|'')*')/).map((part, index) => {
+    if (index % 2 === 1) return part;
+    return part.replace(CELL_REFERENCE, (match, colAbs: string, col: string, rowAbs: string, row: string) => {
+      const colIndex = columnToIndex(col);
+      if (colIndex > MAX_COL) return match; // Not a reference, e.g. a name like ABCD1
+      const newCol = colAbs ? colIndex : colIndex + colOffset;
+      const newRow = rowAbs ? Number(row) : Number(row) + rowOffset;
+      if (newCol < 1 || newCol > MAX_COL || newRow < 1 || newRow > MAX_ROW) return '#REF!';
+      return `${colAbs}${indexToColumn(newCol)}${rowAbs}${newRow}`;
+    });
+  }).join('');
+}
+
+interface SharedFormula {
+  formula: string;
+  row: number;
+  col: number;
+}
+
+/**
+ * Finds the source cell of each shared formula in a sheet. Univer stores the formula text once,
+ * on the cell that also carries the formula id (`si`); the other cells only carry the id.
+ */
+export function collectSharedFormulas(cellData: IObjectMatrixPrimitiveType<ICellData>): Map<string, SharedFormula> {
+  const shared = new Map<string, SharedFormula>();
+  for (const rowKey in cellData) {
+    const rowData = cellData[rowKey];
+    if (!rowData) continue;
+    for (const colKey in rowData) {
+      const cell = rowData[colKey];
+      if (cell?.si && cell.f && !shared.has(cell.si)) {
+        shared.set(cell.si, { formula: cell.f, row: parseInt(rowKey), col: parseInt(colKey) });
+      }
+    }
+  }
+  return shared;
+}
+
+/**
+ * Returns the formula of a cell as XLSX stores it (without the leading "="), expanding
+ * shared formulas relative to their source cell. Returns null for plain values.
+ */
+export function getCellFormula(
+  cell: Nullable<ICellData>,
+  row: number,
+  col: number,
+  shared: Map<string, SharedFormula>
+): string | null {
+  if (!cell) return null;
+
+  let formula: string | null = null;
+  if (cell.f) {
+    formula = cell.f;
+  } else if (cell.si) {
+    const source = shared.get(cell.si);
+    if (source) {
+      formula = shiftFormulaReferences(source.formula, row - source.row, col - source.col);
+    }
+  }
+
+  if (!formula) return null;
+  const text = formula.startsWith('=') ? formula.slice(1) : formula;
+  return text.trim() ? text : null;
+}
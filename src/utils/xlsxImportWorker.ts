@@ -0,0 +1,37 @@
+// Web Worker that parses an uploaded spreadsheet (XLSX, ODS, or CSV/TSV) and converts it to Univer
+// workbook data, so large files don't freeze the tab. Started by `importXLSXToWorkbookData`;
+// the file's bytes arrive as a transferred ArrayBuffer, and progress is posted back while it runs.
+
+import { convertXLSXToWorkbookData, type XLSXImportProgress } from './xlsxConverter';
+import { convertDelimitedToWorkbookData, type DelimitedImportOptions } from './csvImport';
+import { inspectImportedFile, type ImportIssue } from './importFidelity';
+import type { IWorkbookData } from '@univerjs/core';
+
+export interface XLSXImportWorkerRequest {
+  data: ArrayBuffer;
+  fileName: string;
+  delimited?: DelimitedImportOptions; // Set for delimited text files
+}
+
+export type XLSXImportWorkerResponse =
+  | { type: 'progress'; progress: XLSXImportProgress }
+  | { type: 'done'; workbookData: IWorkbookData; issues: ImportIssue[] }
+  | { type: 'error'; message: string };
+
+function post(response: XLSXImportWorkerResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = async (event: MessageEvent<XLSXImportWorkerRequest>) => {
+  const { data, fileName, delimited } = event.data;
+  const onProgress = (progress: XLSXImportProgress) => post({ type: 'progress', progress });
+  try {
+    const workbookData = delimited
+      ? convertDelimitedToWorkbookData(data, fileName, delimited, onProgress)
+      : await convertXLSXToWorkbookData(data, fileName, onProgress);
+    const issues = delimited ? [] : await inspectImportedFile(data, fileName);
+    post({ type: 'done', workbookData, issues });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Failed to read file' });
+  }
+};
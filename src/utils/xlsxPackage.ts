@@ -0,0 +1,204 @@
+// Direct access to the parts of an .xlsx package that SheetJS's community build doesn't read or write
+
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+
+export interface XLSXSheetPart {
+  name: string;
+  path: string; // e.g. xl/worksheets/sheet1.xml
+}
+
+export interface XLSXPackage {
+  zip: JSZip;
+  sheets: XLSXSheetPart[]; // In workbook order, matching SheetJS's SheetNames
+  texts: Map<string, string>; // Parts already read or written, so features can share them
+}
+
+// Top-level worksheet elements in the order the schema requires them
+const WORKSHEET_ELEMENT_ORDER = [
+  'sheetPr', 'dimension', 'sheetViews', 'sheetFormatPr', 'cols', 'sheetData', 'sheetCalcPr', 'sheetProtection',
+  'protectedRanges', 'scenarios', 'autoFilter', 'sortState', 'dataConsolidate', 'customSheetViews', 'mergeCells',
+  'phoneticPr', 'conditionalFormatting', 'dataValidations', 'hyperlinks', 'printOptions', 'pageMargins', 'pageSetup',
+  'headerFooter', 'rowBreaks', 'colBreaks', 'customProperties', 'cellWatches', 'ignoredErrors', 'smartTags', 'drawing',
+  'legacyDrawing', 'legacyDrawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst',
+];
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+});
+
+// Repeated elements parse as an array, single ones as an object and missing ones as undefined
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function asArray<T = any>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function parseXml(text: string): any {
+  return parser.parse(text);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export async function readPartText(pkg: XLSXPackage, path: string): Promise<string | null> {
+  const cached = pkg.texts.get(path);
+  if (cached !== undefined) return cached;
+  const file = pkg.zip.file(path);
+  if (!file) return null;
+  const text = await file.async('string');
+  pkg.texts.set(path, text);
+  return text;
+}
+
+export function writePartText(pkg: XLSXPackage, path: string, text: string): void {
+  pkg.texts.set(path, text);
+  pkg.zip.file(path, text);
+}
+
+/**
+ * Returns the raw XML of every top-level `<tag>` element in a part without parsing the
+ * rest, which for worksheets is mostly cell data. Prefixed extension copies are ignored.
+ */
+export function extractElements(text: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?(?:/>|>[\\s\\S]*?</${tag}>)`, 'g');
+  return text.match(pattern) || [];
+}
+
+/**
+ * Inserts top-level elements into worksheet XML at the position the schema requires,
+ * e.g. conditionalFormatting after mergeCells and before hyperlinks.
+ */
+export function insertWorksheetElements(sheetXml: string, tag: string, xml: string): string {
+  if (!xml) return sheetXml;
+  const position = WORKSHEET_ELEMENT_ORDER.indexOf(tag);
+  for (const laterTag of WORKSHEET_ELEMENT_ORDER.slice(position + 1)) {
+    const index = sheetXml.search(new RegExp(`<${laterTag}[\\s>/]`));
+    if (index !== -1) {
+      return sheetXml.slice(0, index) + xml + sheetXml.slice(index);
+    }
+  }
+  const end = sheetXml.lastIndexOf('</worksheet>');
+  return sheetXml.slice(0, end) + xml + sheetXml.slice(end);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function readPartXml(pkg: XLSXPackage, path: string): Promise<any | null> {
+  const text = await readPartText(pkg, path);
+  return text ? parseXml(text) : null;
+}
+
+// Resolves a relationship target against the folder of the part that owns it
+function resolveTarget(partPath: string, target: string): string {
+  if (target.startsWith('/')) return target.slice(1);
+  const segments = partPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+function relationshipsPath(partPath: string): string {
+  const folder = partPath.split('/').slice(0, -1).join('/');
+  const fileName = partPath.split('/').pop();
+  return `${folder ? `${folder}/` : ''}_rels/${fileName}.rels`;
+}
+
+export interface XLSXRelationship {
+  type: string; // Last segment of the relationship type, e.g. "comments", "hyperlink", "drawing"
+  target: string; // Package path, or the raw URL for external targets
+  external: boolean;
+}
+
+/**
+ * Reads the relationships of a part (xl/worksheets/_rels/sheet1.xml.rels for
+ * xl/worksheets/sheet1.xml), keyed by relationship id.
+ */
+export async function readRelationships(pkg: XLSXPackage, partPath: string): Promise<Map<string, XLSXRelationship>> {
+  const xml = await readPartXml(pkg, relationshipsPath(partPath));
+
+  const relationships = new Map<string, XLSXRelationship>();
+  for (const rel of asArray(xml?.Relationships?.Relationship)) {
+    const external = rel['@_TargetMode'] === 'External';
+    const target = String(rel['@_Target'] || '');
+    relationships.set(rel['@_Id'], {
+      type: String(rel['@_Type'] || '').split('/').pop() || '',
+      target: external ? target : resolveTarget(partPath, target),
+      external,
+    });
+  }
+  return relationships;
+}
+
+/**
+ * Adds a relationship from a part to another, creating the part's .rels file if needed,
+ * and returns its id. `target` is relative to the owning part's folder, e.g. "../media/image1.png".
+ */
+export async function addRelationship(pkg: XLSXPackage, partPath: string, type: string, target: string): Promise<string> {
+  const relsPath = relationshipsPath(partPath);
+  const xml = await readPartText(pkg, relsPath)
+    || '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+  const usedIds = Array.from(xml.matchAll(/Id="rId(\d+)"/g), match => Number(match[1]));
+  const id = `rId${Math.max(0, ...usedIds) + 1}`;
+  const relationship = `<Relationship Id="${id}" Type="${type}" Target="${escapeXml(target)}"/>`;
+  writePartText(pkg, relsPath, xml.replace('</Relationships>', `${relationship}</Relationships>`));
+  return id;
+}
+
+/**
+ * Registers a content type in [Content_Types].xml, either for a file extension
+ * ("png") or for a single part ("/xl/drawings/drawing1.xml").
+ */
+export async function addContentType(pkg: XLSXPackage, extensionOrPart: string, contentType: string): Promise<void> {
+  const path = '[Content_Types].xml';
+  const xml = await readPartText(pkg, path);
+  if (!xml) return;
+  const isPart = extensionOrPart.startsWith('/');
+  const entry = isPart
+    ? `<Override PartName="${escapeXml(extensionOrPart)}" ContentType="${contentType}"/>`
+    : `<Default Extension="${escapeXml(extensionOrPart)}" ContentType="${contentType}"/>`;
+  const existing = isPart ? `PartName="${extensionOrPart}"` : `Extension="${extensionOrPart}"`;
+  if (xml.toLowerCase().includes(existing.toLowerCase())) return;
+  writePartText(pkg, path, xml.replace('</Types>', `${entry}</Types>`));
+}
+
+/**
+ * Opens an .xlsx file for reading individual parts. Returns null for anything that
+ * isn't a zip package, such as legacy .xls files.
+ */
+export async function openXLSXPackage(data: ArrayBuffer | string): Promise<XLSXPackage | null> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return null;
+  }
+
+  const pkg: XLSXPackage = { zip, sheets: [], texts: new Map() };
+  const workbookPath = 'xl/workbook.xml';
+  const workbook = await readPartXml(pkg, workbookPath);
+  if (!workbook) return null;
+
+  const relationships = await readRelationships(pkg, workbookPath);
+  for (const sheet of asArray(workbook.workbook?.sheets?.sheet)) {
+    const rel = relationships.get(sheet['@_id']);
+    if (rel) {
+      pkg.sheets.push({ name: String(sheet['@_name']), path: rel.target });
+    }
+  }
+  return pkg;
+}
@@ -0,0 +1,516 @@
+// Conditional formatting and data validation between XLSX worksheets and Univer plugin resources.
+// Univer keeps both outside the cell data, as JSON in `workbookData.resources`.
+
+import * as XLSX from 'xlsx';
+import type { IRange, ISheetDataValidationRule, IStyleData, IWorkbookData } from '@univerjs/core';
+import { BooleanNumber, DataValidationErrorStyle, DataValidationOperator, DataValidationType } from '@univerjs/core';
+import {
+  asArray,
+  escapeXml,
+  extractElements,
+  insertWorksheetElements,
+  parseXml,
+  readPartText,
+  writePartText,
+  type XLSXPackage,
+} from './xlsxPackage';
+import { toXLSXColor } from './xlsxStyles';
+import { readResource, setResource } from './univerResources';
+
+export const CONDITIONAL_FORMATTING_RESOURCE = 'SHEET_CONDITIONAL_FORMATTING_PLUGIN';
+export const DATA_VALIDATION_RESOURCE = 'SHEET_DATA_VALIDATION_PLUGIN';
+
+// Shape of a rule in the conditional formatting resource (see @univerjs/sheets-conditional-formatting)
+interface CFValueConfig {
+  type: string; // num | min | max | percent | percentile | formula
+  value?: number | string;
+}
+
+type CFRuleConfig =
+  | { type: 'colorScale'; config: { index: number; color: string; value: CFValueConfig }[] }
+  | {
+      type: 'dataBar';
+      isShowValue: boolean;
+      config: { min: CFValueConfig; max: CFValueConfig; isGradient: boolean; positiveColor: string; nativeColor: string };
+    }
+  | { type: 'highlightCell'; subType: string; operator?: string; value?: unknown; style: IStyleData };
+
+export interface ConditionalFormattingRule {
+  cfId: string;
+  ranges: IRange[];
+  stopIfTrue: boolean;
+  rule: CFRuleConfig;
+}
+
+export interface SheetRules {
+  conditionalFormatting: ConditionalFormattingRule[];
+  dataValidation: ISheetDataValidationRule[];
+}
+
+const NUMBER_OPERATORS = ['greaterThan', 'greaterThanOrEqual', 'lessThan', 'lessThanOrEqual', 'between', 'notBetween', 'equal', 'notEqual'];
+
+// Text rules Excel stores as their own rule type, with the formula it evaluates
+const TEXT_RULE_FORMULAS: Record<string, (cell: string, text: string) => string> = {
+  containsText: (cell, text) => `NOT(ISERROR(SEARCH(${text},${cell})))`,
+  notContainsText: (cell, text) => `ISERROR(SEARCH(${text},${cell}))`,
+  beginsWith: (cell, text) => `LEFT(${cell},LEN(${text}))=${text}`,
+  endsWith: (cell, text) => `RIGHT(${cell},LEN(${text}))=${text}`,
+  containsBlanks: cell => `LEN(TRIM(${cell}))=0`,
+  notContainsBlanks: cell => `LEN(TRIM(${cell}))>0`,
+  containsErrors: cell => `ISERROR(${cell})`,
+  notContainsErrors: cell => `NOT(ISERROR(${cell}))`,
+};
+
+const TEXT_RULE_OPERATORS: Partial<Record<string, string>> = {
+  containsText: 'containsText',
+  notContainsText: 'notContains',
+  beginsWith: 'beginsWith',
+  endsWith: 'endsWith',
+};
+
+const DATA_VALIDATION_TYPES: Partial<Record<string, string>> = {
+  [DataValidationType.LIST]: 'list',
+  [DataValidationType.LIST_MULTIPLE]: 'list',
+  [DataValidationType.WHOLE]: 'whole',
+  [DataValidationType.DECIMAL]: 'decimal',
+  [DataValidationType.DATE]: 'date',
+  [DataValidationType.TIME]: 'time',
+  [DataValidationType.TEXT_LENGTH]: 'textLength',
+  [DataValidationType.CUSTOM]: 'custom',
+};
+
+const ERROR_STYLES: Record<DataValidationErrorStyle, string> = {
+  [DataValidationErrorStyle.STOP]: 'stop',
+  [DataValidationErrorStyle.WARNING]: 'warning',
+  [DataValidationErrorStyle.INFO]: 'information',
+};
+
+function rangeToRef(range: IRange): string {
+  return XLSX.utils.encode_range({
+    s: { r: range.startRow, c: range.startColumn },
+    e: { r: range.endRow, c: range.endColumn },
+  });
+}
+
+function sqrefToRanges(sqref: string): IRange[] {
+  return sqref.split(/\s+/).filter(Boolean).map((ref) => {
+    const range = XLSX.utils.decode_range(ref);
+    return { startRow: range.s.r, startColumn: range.s.c, endRow: range.e.r, endColumn: range.e.c };
+  });
+}
+
+function stripEquals(formula: string): string {
+  return formula.startsWith('=') ? formula.slice(1) : formula;
+}
+
+function quoteText(text: string): string {
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function toARGB(color: string | undefined, fallback: string): string {
+  return `FF${toXLSXColor(color) || fallback}`;
+}
+
+// Days since 1899-12-30, the way Excel stores dates
+function dateTextToSerial(text: string): number | null {
+  const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return null;
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0'] = match;
+  const time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  return (time - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function dxfXml(style: IStyleData | undefined): string {
+  let font = '';
+  if (style?.bl === BooleanNumber.TRUE) font += '<b/>';
+  if (style?.it === BooleanNumber.TRUE) font += '<i/>';
+  if (style?.st?.s === BooleanNumber.TRUE) font += '<strike/>';
+  if (style?.ul?.s === BooleanNumber.TRUE) font += '<u/>';
+  const color = toXLSXColor(style?.cl?.rgb);
+  if (color) font += `<color rgb="FF${color}"/>`;
+  const fill = toXLSXColor(style?.bg?.rgb);
+  return `<dxf>${font ? `<font>${font}</font>` : ''}${
+    fill ? `<fill><patternFill patternType="solid"><bgColor rgb="FF${fill}"/></patternFill></fill>` : ''
+  }</dxf>`;
+}
+
+function cfvoXml(value: CFValueConfig | undefined): string {
+  const type = value?.type || 'min';
+  if (type === 'min' || type === 'max' || value?.value === undefined || value.value === '') {
+    return `<cfvo type="${type === 'max' ? 'max' : 'min'}"/>`;
+  }
+  return `<cfvo type="${escapeXml(type)}" val="${escapeXml(stripEquals(String(value.value)))}"/>`;
+}
+
+// Returns the cfRule element for a Univer rule, or null for rule types that aren't exported
+function cfRuleXml(rule: ConditionalFormattingRule, priority: number, addDxf: (xml: string) => number): string | null {
+  const stop = rule.stopIfTrue ? ' stopIfTrue="1"' : '';
+  const config = rule.rule;
+
+  if (config.type === 'colorScale') {
+    const points = [...config.config].sort((a, b) => a.index - b.index);
+    if (points.length < 2) return null;
+    return `<cfRule type="colorScale" priority="${priority}"${stop}><colorScale>${
+      points.map(point => cfvoXml(point.value)).join('')
+    }${points.map(point => `<color rgb="${toARGB(point.color, '000000')}"/>`).join('')}</colorScale></cfRule>`;
+  }
+
+  if (config.type === 'dataBar') {
+    const showValue = config.isShowValue === false ? ' showValue="0"' : '';
+    return `<cfRule type="dataBar" priority="${priority}"${stop}><dataBar${showValue}>${cfvoXml(config.config.min)}${
+      cfvoXml(config.config.max)
+    }<color rgb="${toARGB(config.config.positiveColor, '638EC6')}"/></dataBar></cfRule>`;
+  }
+
+  if (config.type !== 'highlightCell') return null;
+
+  const firstRange = rule.ranges[0];
+  const cell = firstRange ? XLSX.utils.encode_cell({ r: firstRange.startRow, c: firstRange.startColumn }) : 'A1';
+  const operator = config.operator || '';
+
+  if (config.subType === 'number' && NUMBER_OPERATORS.includes(operator)) {
+    const values = Array.isArray(config.value) ? config.value : [config.value ?? 0];
+    const formulas = values.map(value => `<formula>${escapeXml(String(value))}</formula>`).join('');
+    const dxfId = addDxf(dxfXml(config.style));
+    return `<cfRule type="cellIs" dxfId="${dxfId}" priority="${priority}" operator="${operator}"${stop}>${formulas}</cfRule>`;
+  }
+
+  if (config.subType === 'text') {
+    const text = quoteText(String(config.value ?? ''));
+    const dxfId = addDxf(dxfXml(config.style));
+    if (operator === 'equal' || operator === 'notEqual') {
+      return `<cfRule type="cellIs" dxfId="${dxfId}" priority="${priority}" operator="${operator}"${stop}><formula>${
+        escapeXml(text)
+      }</formula></cfRule>`;
+    }
+    const buildFormula = TEXT_RULE_FORMULAS[operator];
+    if (!buildFormula) return null;
+    // Only the text-matching rules carry an operator, and Excel names "does not contain" differently from the rule type
+    const ruleOperator = TEXT_RULE_OPERATORS[operator];
+    const operatorAttribute = ruleOperator ? ` operator="${ruleOperator}"` : '';
+    const textAttribute = config.value !== undefined && config.value !== '' ? ` text="${escapeXml(String(config.value))}"` : '';
+    return `<cfRule type="${operator}" dxfId="${dxfId}" priority="${priority}"${operatorAttribute}${textAttribute}${stop}><formula>${
+      escapeXml(buildFormula(cell, text))
+    }</formula></cfRule>`;
+  }
+
+  if (config.subType === 'formula' && config.value) {
+    const dxfId = addDxf(dxfXml(config.style));
+    return `<cfRule type="expression" dxfId="${dxfId}" priority="${priority}"${stop}><formula>${
+      escapeXml(stripEquals(String(config.value)))
+    }</formula></cfRule>`;
+  }
+
+  if (config.subType === 'duplicateValues' || config.subType === 'uniqueValues') {
+    const dxfId = addDxf(dxfXml(config.style));
+    return `<cfRule type="${config.subType}" dxfId="${dxfId}" priority="${priority}"${stop}/>`;
+  }
+
+  return null;
+}
+
+function dataValidationFormula(rule: ISheetDataValidationRule, formula: string | undefined): string | null {
+  if (formula === undefined || formula === null || formula === '') return null;
+  if (formula.startsWith('=')) return stripEquals(formula);
+
+  if (rule.type === DataValidationType.LIST || rule.type === DataValidationType.LIST_MULTIPLE) {
+    return quoteText(formula);
+  }
+  if (rule.type === DataValidationType.DATE) {
+    const serial = Number.isNaN(Number(formula)) ? dateTextToSerial(formula) : Number(formula);
+    return serial === null ? null : String(serial);
+  }
+  return formula;
+}
+
+function dataValidationXml(rule: ISheetDataValidationRule): string | null {
+  const type = DATA_VALIDATION_TYPES[rule.type];
+  if (!type || !rule.ranges?.length) return null;
+
+  const attributes = [`type="${type}"`];
+  if (rule.allowBlank !== false) attributes.push('allowBlank="1"');
+  if (rule.showInputMessage !== false) attributes.push('showInputMessage="1"');
+  if (rule.showErrorMessage !== false) attributes.push('showErrorMessage="1"');
+  if (rule.errorStyle !== undefined && rule.errorStyle !== DataValidationErrorStyle.STOP) {
+    attributes.push(`errorStyle="${ERROR_STYLES[rule.errorStyle]}"`);
+  }
+  // Excel's showDropDown="1" hides the in-cell list
+  if (type === 'list' && rule.showDropDown === false) attributes.push('showDropDown="1"');
+  if (type !== 'list' && type !== 'custom' && rule.operator) attributes.push(`operator="${rule.operator}"`);
+  if (rule.errorTitle) attributes.push(`errorTitle="${escapeXml(rule.errorTitle)}"`);
+  if (rule.error) attributes.push(`error="${escapeXml(rule.error)}"`);
+  if (rule.promptTitle) attributes.push(`promptTitle="${escapeXml(rule.promptTitle)}"`);
+  if (rule.prompt) attributes.push(`prompt="${escapeXml(rule.prompt)}"`);
+  attributes.push(`sqref="${rule.ranges.map(rangeToRef).join(' ')}"`);
+
+  const formula1 = dataValidationFormula(rule, rule.formula1);
+  const formula2 = dataValidationFormula(rule, rule.formula2);
+  return `<dataValidation ${attributes.join(' ')}>${
+    formula1 !== null ? `<formula1>${escapeXml(formula1)}</formula1>` : ''
+  }${formula2 !== null ? `<formula2>${escapeXml(formula2)}</formula2>` : ''}</dataValidation>`;
+}
+
+/**
+ * Writes each sheet's conditional formatting and data validation into an exported package.
+ * `sheetIds` lists the Univer sheet behind each worksheet, in package order.
+ */
+export async function writeSheetRules(pkg: XLSXPackage, workbookData: IWorkbookData, sheetIds: string[]): Promise<void> {
+  const cfRules = readResource<ConditionalFormattingRule[]>(workbookData, CONDITIONAL_FORMATTING_RESOURCE);
+  const dvRules = readResource<ISheetDataValidationRule[]>(workbookData, DATA_VALIDATION_RESOURCE);
+  if (Object.keys(cfRules).length === 0 && Object.keys(dvRules).length === 0) return;
+
+  const stylesPath = 'xl/styles.xml';
+  const stylesXml = await readPartText(pkg, stylesPath);
+  const existingDxfs = stylesXml?.match(/<dxfs[^>]*count="(\d+)"/);
+  const firstDxfId = existingDxfs ? Number(existingDxfs[1]) : 0;
+  const dxfs: string[] = [];
+  const addDxf = (xml: string) => {
+    dxfs.push(xml);
+    return firstDxfId + dxfs.length - 1;
+  };
+
+  for (let index = 0; index < sheetIds.length; index++) {
+    const sheetPart = pkg.sheets[index];
+    if (!sheetPart) continue;
+
+    let priority = 1;
+    const formatting = (cfRules[sheetIds[index]] || []).map((rule) => {
+      const xml = rule.ranges?.length ? cfRuleXml(rule, priority, addDxf) : null;
+      if (!xml) return '';
+      priority++;
+      return `<conditionalFormatting sqref="${rule.ranges.map(rangeToRef).join(' ')}">${xml}</conditionalFormatting>`;
+    }).join('');
+
+    const validations = (dvRules[sheetIds[index]] || []).map(dataValidationXml).filter(Boolean);
+
+    if (!formatting && validations.length === 0) continue;
+
+    let sheetXml = await readPartText(pkg, sheetPart.path);
+    if (!sheetXml) continue;
+    sheetXml = insertWorksheetElements(sheetXml, 'conditionalFormatting', formatting);
+    if (validations.length > 0) {
+      sheetXml = insertWorksheetElements(
+        sheetXml,
+        'dataValidations',
+        `<dataValidations count="${validations.length}">${validations.join('')}</dataValidations>`
+      );
+    }
+    writePartText(pkg, sheetPart.path, sheetXml);
+  }
+
+  if (dxfs.length > 0 && stylesXml) {
+    const element = `<dxfs count="${firstDxfId + dxfs.length}">`;
+    let updated: string;
+    if (/<dxfs[^>]*\/>/.test(stylesXml)) {
+      updated = stylesXml.replace(/<dxfs[^>]*\/>/, `${element}${dxfs.join('')}</dxfs>`);
+    } else if (stylesXml.includes('</dxfs>')) {
+      updated = stylesXml.replace(/<dxfs[^>]*>/, element).replace('</dxfs>', `${dxfs.join('')}</dxfs>`);
+    } else {
+      updated = stylesXml.replace(/(<tableStyles|<colors|<extLst|<\/styleSheet>)/, `${element}${dxfs.join('')}</dxfs>$1`);
+    }
+    writePartText(pkg, stylesPath, updated);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readCfvo(cfvo: any): CFValueConfig {
+  const type = String(cfvo?.['@_type'] || 'min');
+  const value = cfvo?.['@_val'];
+  if (value === undefined || type === 'min' || type === 'max') return { type: type === 'max' ? 'max' : 'min' };
+  if (type === 'formula') return { type, value: `=${value}` };
+  const number = Number(value);
+  // Percentiles and numbers can also be formulas in Excel
+  return Number.isNaN(number) ? { type: 'formula', value: `=${value}` } : { type, value: number };
+}
+
+function argbToCss(argb: unknown, fallback: string): string {
+  const value = typeof argb === 'string' ? argb : '';
+  return /^[0-9A-F]{6,8}$/i.test(value) ? `#${value.slice(-6).toUpperCase()}` : fallback;
+}
+
+function unquoteText(formula: string): string | null {
+  const match = formula.match(/^"((?:[^"]|"")*)"$/);
+  return match ? match[1].replace(/""/g, '"') : null;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readCfRule(cfRule: any, dxfStyles: IStyleData[]): CFRuleConfig | null {
+  const type = String(cfRule['@_type'] || '');
+  const style = dxfStyles[Number(cfRule['@_dxfId'])] || {};
+  const formulas = asArray(cfRule.formula).map(formula => String(formula));
+
+  switch (type) {
+    case 'colorScale': {
+      const cfvos = asArray(cfRule.colorScale?.cfvo);
+      const colors = asArray(cfRule.colorScale?.color);
+      if (cfvos.length < 2) return null;
+      return {
+        type: 'colorScale',
+        config: cfvos.map((cfvo, index) => ({
+          index,
+          color: argbToCss(colors[index]?.['@_rgb'], '#FFFFFF'),
+          value: readCfvo(cfvo),
+        })),
+      };
+    }
+    case 'dataBar': {
+      const cfvos = asArray(cfRule.dataBar?.cfvo);
+      return {
+        type: 'dataBar',
+        isShowValue: cfRule.dataBar?.['@_showValue'] !== '0',
+        config: {
+          min: readCfvo(cfvos[0]),
+          max: readCfvo(cfvos[1] || { '@_type': 'max' }),
+          isGradient: true,
+          positiveColor: argbToCss(asArray(cfRule.dataBar?.color)[0]?.['@_rgb'], '#638EC6'),
+          nativeColor: '#FF0000',
+        },
+      };
+    }
+    case 'cellIs': {
+      const operator = String(cfRule['@_operator'] || '');
+      if (!NUMBER_OPERATORS.includes(operator) || formulas.length === 0) return null;
+      const text = unquoteText(formulas[0]);
+      if (text !== null && (operator === 'equal' || operator === 'notEqual')) {
+        return { type: 'highlightCell', subType: 'text', operator, value: text, style };
+      }
+      const numbers = formulas.map(Number);
+      if (numbers.some(Number.isNaN)) return null; // Comparisons against other cells have no Univer equivalent
+      const value = operator === 'between' || operator === 'notBetween' ? [numbers[0], numbers[1] ?? numbers[0]] : numbers[0];
+      return { type: 'highlightCell', subType: 'number', operator, value, style };
+    }
+    case 'containsText':
+    case 'notContainsText':
+    case 'beginsWith':
+    case 'endsWith':
+    case 'containsBlanks':
+    case 'notContainsBlanks':
+    case 'containsErrors':
+    case 'notContainsErrors':
+      return { type: 'highlightCell', subType: 'text', operator: type, value: String(cfRule['@_text'] ?? ''), style };
+    case 'expression':
+      return formulas[0] ? { type: 'highlightCell', subType: 'formula', value: `=${formulas[0]}`, style } : null;
+    case 'duplicateValues':
+    case 'uniqueValues':
+      return { type: 'highlightCell', subType: type, style };
+    default:
+      return null;
+  }
+}
+
+function readDataValidationFormula(type: string, formula: unknown): string | undefined {
+  if (formula === undefined || formula === null || formula === '') return undefined;
+  const text = String(formula);
+  if (type === DataValidationType.LIST) {
+    const list = unquoteText(text);
+    return list !== null ? list : `=${text}`;
+  }
+  if (type === DataValidationType.CUSTOM) return `=${text}`;
+  // Numbers (and date serials, which Univer's date validator accepts as is) stay plain
+  return Number.isNaN(Number(text)) ? `=${text}` : text;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readDataValidation(node: any, uid: string): ISheetDataValidationRule | null {
+  const xlsxType = String(node['@_type'] || 'none');
+  const type = Object.keys(DATA_VALIDATION_TYPES).find(key => DATA_VALIDATION_TYPES[key] === xlsxType);
+  const sqref = node['@_sqref'];
+  if (!type || !sqref) return null;
+
+  const errorStyle = Object.entries(ERROR_STYLES).find(([, name]) => name === node['@_errorStyle'])?.[0];
+  const isList = type === DataValidationType.LIST;
+  const rule: ISheetDataValidationRule = {
+    uid,
+    type,
+    ranges: sqrefToRanges(String(sqref)),
+    allowBlank: node['@_allowBlank'] === '1' || node['@_allowBlank'] === 'true',
+    showErrorMessage: node['@_showErrorMessage'] === '1' || node['@_showErrorMessage'] === 'true',
+    showInputMessage: node['@_showInputMessage'] === '1' || node['@_showInputMessage'] === 'true',
+    errorStyle: errorStyle !== undefined ? Number(errorStyle) : DataValidationErrorStyle.STOP,
+    formula1: readDataValidationFormula(type, node.formula1),
+    formula2: readDataValidationFormula(type, node.formula2),
+  };
+  if (!isList && type !== DataValidationType.CUSTOM) {
+    rule.operator = (node['@_operator'] as DataValidationOperator) || DataValidationOperator.BETWEEN;
+  }
+  if (isList) rule.showDropDown = node['@_showDropDown'] !== '1' && node['@_showDropDown'] !== 'true';
+  if (node['@_error']) rule.error = String(node['@_error']);
+  if (node['@_errorTitle']) rule.errorTitle = String(node['@_errorTitle']);
+  if (node['@_prompt']) rule.prompt = String(node['@_prompt']);
+  if (node['@_promptTitle']) rule.promptTitle = String(node['@_promptTitle']);
+  return rule;
+}
+
+/**
+ * Reads conditional formatting and data validation from every worksheet in the package,
+ * keyed by sheet name. Rule types Univer has no equivalent for are skipped.
+ */
+export async function readSheetRules(pkg: XLSXPackage, dxfStyles: IStyleData[]): Promise<Map<string, SheetRules>> {
+  const result = new Map<string, SheetRules>();
+
+  for (const [sheetIndex, sheet] of pkg.sheets.entries()) {
+    const text = await readPartText(pkg, sheet.path);
+    if (!text) continue;
+
+    // Rules in priority order; the lowest number wins in Excel and comes first in Univer
+    const formatting: { priority: number; rule: ConditionalFormattingRule }[] = [];
+    for (const block of extractElements(text, 'conditionalFormatting')) {
+      const element = parseXml(block).conditionalFormatting;
+      const sqref = element?.['@_sqref'];
+      if (!sqref) continue;
+      for (const cfRule of asArray(element.cfRule)) {
+        const config = readCfRule(cfRule, dxfStyles);
+        if (!config) continue;
+        formatting.push({
+          priority: Number(cfRule['@_priority']) || formatting.length + 1,
+          rule: {
+            cfId: `xlsx-cf-${sheetIndex}-${formatting.length + 1}`,
+            ranges: sqrefToRanges(String(sqref)),
+            stopIfTrue: cfRule['@_stopIfTrue'] === '1' || cfRule['@_stopIfTrue'] === 'true',
+            rule: config,
+          },
+        });
+      }
+    }
+
+    const validations: ISheetDataValidationRule[] = [];
+    for (const block of extractElements(text, 'dataValidations')) {
+      for (const node of asArray(parseXml(block).dataValidations?.dataValidation)) {
+        const rule = readDataValidation(node, `xlsx-dv-${sheetIndex}-${validations.length + 1}`);
+        if (rule) validations.push(rule);
+      }
+    }
+
+    if (formatting.length > 0 || validations.length > 0) {
+      result.set(sheet.name, {
+        conditionalFormatting: formatting.sort((a, b) => a.priority - b.priority).map(entry => entry.rule),
+        dataValidation: validations,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stores imported rules as the Univer plugin resources they belong to, keyed by sheet id.
+ */
+export function setSheetRulesResources(workbookData: IWorkbookData, rulesBySheetId: Map<string, SheetRules>): void {
+  const formatting: Record<string, ConditionalFormattingRule[]> = {};
+  const validation: Record<string, ISheetDataValidationRule[]> = {};
+  rulesBySheetId.forEach((rules, sheetId) => {
+    if (rules.conditionalFormatting.length > 0) formatting[sheetId] = rules.conditionalFormatting;
+    if (rules.dataValidation.length > 0) validation[sheetId] = rules.dataValidation;
+  });
+
+  setResource(workbookData, CONDITIONAL_FORMATTING_RESOURCE, formatting);
+  setResource(workbookData, DATA_VALIDATION_RESOURCE, validation);
+}
@@ -0,0 +1,234 @@
+// Sheet-level view settings between XLSX worksheets and Univer's IWorksheetData: freeze panes,
+// zoom, gridlines, right-to-left, tab colors and sheet protection. SheetJS's community build
+// reads and writes none of these, so both directions work on the raw package.
+
+import * as XLSX from 'xlsx';
+import type { IFreeze, IWorkbookData, IWorksheetData } from '@univerjs/core';
+import { BooleanNumber } from '@univerjs/core';
+import {
+  escapeXml,
+  extractElements,
+  insertWorksheetElements,
+  parseXml,
+  readPartText,
+  writePartText,
+  type XLSXPackage,
+} from './xlsxPackage';
+import { readColor } from './xlsxStyleImport';
+import { toXLSXColor } from './xlsxStyles';
+import { readResource } from './univerResources';
+
+export const WORKSHEET_PROTECTION_RESOURCE = 'SHEET_WORKSHEET_PROTECTION_PLUGIN';
+
+// Attributes of Excel's <sheetProtection>: the password hash and which actions stay allowed.
+// Kept in the sheet's `custom` data as-is, so protection survives a round trip through Univer.
+export type SheetProtection = Record<string, string>;
+
+export interface SheetLayout {
+  freeze?: IFreeze;
+  zoomRatio?: number;
+  showGridlines?: BooleanNumber;
+  rightToLeft?: BooleanNumber;
+  tabColor?: string;
+  protection?: SheetProtection;
+}
+
+// Shape of a rule in Univer's worksheet protection resource, keyed by workbook id (see @univerjs/sheets)
+interface WorksheetProtectionRule {
+  subUnitId: string;
+}
+
+const DEFAULT_PROTECTION: SheetProtection = { sheet: '1', objects: '1', scenarios: '1' };
+
+// Reads every `name="value"` attribute of an element's opening tag
+function readAttributes(xml: string): Record<string, string> {
+  const openingTag = xml.match(/^<[^>]*>/)?.[0] || '';
+  const attributes: Record<string, string> = {};
+  for (const match of openingTag.matchAll(/([\w:]+)="([^"]*)"/g)) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+function attributesXml(attributes: Record<string, string | number>): string {
+  return Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`).join('');
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+function paneXml(freeze: IFreeze | undefined): string {
+  const xSplit = Math.max(0, freeze?.xSplit || 0);
+  const ySplit = Math.max(0, freeze?.ySplit || 0);
+  if (!freeze || (xSplit === 0 && ySplit === 0)) return '';
+
+  // Univer's start row/column is the first cell of the scrolling pane, like Excel's pane topLeftCell
+  const topLeftCell = XLSX.utils.encode_cell({
+    r: ySplit > 0 ? Math.max(ySplit, freeze.startRow) : 0,
+    c: xSplit > 0 ? Math.max(xSplit, freeze.startColumn) : 0,
+  });
+  let activePane = 'bottomRight';
+  if (ySplit === 0) activePane = 'topRight';
+  if (xSplit === 0) activePane = 'bottomLeft';
+
+  const attributes: Record<string, string | number> = {};
+  if (xSplit > 0) attributes.xSplit = xSplit;
+  if (ySplit > 0) attributes.ySplit = ySplit;
+  return `<pane${attributesXml({ ...attributes, topLeftCell, activePane, state: 'frozen' })}/><selection pane="${activePane}"/>`;
+}
+
+// Rewrites the first <sheetView>, keeping what the writer put there and adding the pane as its first child
+function updateSheetView(sheetXml: string, attributes: Record<string, string | number>, pane: string): string {
+  return sheetXml.replace(/<sheetView\b([^>]*?)(\/?)>/, (_match, existing: string, selfClosing: string) => {
+    const merged = { ...readAttributes(`<sheetView${existing}>`), ...attributes };
+    const openingTag = `<sheetView${attributesXml(merged)}>`;
+    if (selfClosing) return pane ? `${openingTag}${pane}</sheetView>` : openingTag.replace(/>$/, '/>');
+    return `${openingTag}${pane}`;
+  });
+}
+
+function updateTabColor(sheetXml: string, tabColor: string): string {
+  const tabColorXml = `<tabColor rgb="FF${tabColor}"/>`;
+  const existing = sheetXml.match(/<sheetPr\b[^>]*?(\/?)>/);
+  if (!existing) {
+    return insertWorksheetElements(sheetXml, 'sheetPr', `<sheetPr>${tabColorXml}</sheetPr>`);
+  }
+  if (existing[1]) {
+    return sheetXml.replace(existing[0], `${existing[0].replace(/\s*\/>$/, '>')}${tabColorXml}</sheetPr>`);
+  }
+  // tabColor is the first child of sheetPr
+  return sheetXml.replace(existing[0], `${existing[0]}${tabColorXml}`);
+}
+
+/**
+ * Writes freeze panes, zoom, gridlines, right-to-left, tab colors and protection into the
+ * package's worksheets. `sheetIds` lists the Univer sheet behind each worksheet, in package order.
+ * Sheets protected in Univer are protected without a password.
+ */
+export async function writeSheetLayouts(pkg: XLSXPackage, workbookData: IWorkbookData, sheetIds: string[]): Promise<void> {
+  const protectionRules = readResource<WorksheetProtectionRule[]>(workbookData, WORKSHEET_PROTECTION_RESOURCE);
+  const protectedSheetIds = new Set(Object.values(protectionRules).flat().map(rule => rule?.subUnitId));
+
+  for (let index = 0; index < sheetIds.length; index++) {
+    const sheetPart = pkg.sheets[index];
+    const sheet = workbookData.sheets[sheetIds[index]];
+    if (!sheetPart || !sheet) continue;
+    let sheetXml = await readPartText(pkg, sheetPart.path);
+    if (!sheetXml) continue;
+
+    const viewAttributes: Record<string, string | number> = {};
+    if (sheet.showGridlines === BooleanNumber.FALSE) viewAttributes.showGridLines = 0;
+    if (sheet.rightToLeft === BooleanNumber.TRUE) viewAttributes.rightToLeft = 1;
+    if (sheet.zoomRatio && sheet.zoomRatio !== 1) {
+      // Excel accepts 10% to 400%
+      viewAttributes.zoomScale = Math.min(400, Math.max(10, Math.round(sheet.zoomRatio * 100)));
+    }
+    const freeze = sheet.freeze;
+    if (freeze && (freeze.startRow > freeze.ySplit || freeze.startColumn > freeze.xSplit)) {
+      // Frozen while scrolled: the frozen area starts at the sheet view's first visible cell
+      viewAttributes.topLeftCell = XLSX.utils.encode_cell({
+        r: Math.max(0, freeze.startRow - freeze.ySplit),
+        c: Math.max(0, freeze.startColumn - freeze.xSplit),
+      });
+    }
+    const pane = paneXml(freeze);
+    if (Object.keys(viewAttributes).length > 0 || pane) {
+      sheetXml = updateSheetView(sheetXml, viewAttributes, pane);
+    }
+
+    const tabColor = toXLSXColor(sheet.tabColor);
+    if (tabColor) {
+      sheetXml = updateTabColor(sheetXml, tabColor);
+    }
+
+    const protection: SheetProtection | undefined = sheet.custom?.xlsxProtection
+      || (protectedSheetIds.has(sheetIds[index]) ? DEFAULT_PROTECTION : undefined);
+    if (protection && !/<sheetProtection\b/.test(sheetXml)) {
+      sheetXml = insertWorksheetElements(sheetXml, 'sheetProtection', `<sheetProtection${attributesXml(protection)}/>`);
+    }
+
+    writePartText(pkg, sheetPart.path, sheetXml);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+function readFreeze(sheetView: string): IFreeze | undefined {
+  const pane = extractElements(sheetView, 'pane')[0];
+  if (!pane) return undefined;
+  const attributes = readAttributes(pane);
+  // Plain split panes scroll on both sides and have no Univer equivalent
+  if (attributes.state !== 'frozen' && attributes.state !== 'frozenSplit') return undefined;
+
+  const xSplit = Math.round(Number(attributes.xSplit) || 0);
+  const ySplit = Math.round(Number(attributes.ySplit) || 0);
+  if (xSplit === 0 && ySplit === 0) return undefined;
+  const topLeft = attributes.topLeftCell ? XLSX.utils.decode_cell(attributes.topLeftCell) : { r: ySplit, c: xSplit };
+  return {
+    xSplit,
+    ySplit,
+    startRow: ySplit > 0 ? topLeft.r : -1,
+    startColumn: xSplit > 0 ? topLeft.c : -1,
+  };
+}
+
+/**
+ * Reads the view settings, tab color and protection of every worksheet, keyed by sheet name.
+ * `theme` is the workbook's theme colors, for tab colors that reference them.
+ */
+export async function readSheetLayouts(pkg: XLSXPackage, theme: string[]): Promise<Map<string, SheetLayout>> {
+  const result = new Map<string, SheetLayout>();
+
+  for (const sheet of pkg.sheets) {
+    const text = await readPartText(pkg, sheet.path);
+    if (!text) continue;
+    const layout: SheetLayout = {};
+
+    const sheetView = extractElements(text, 'sheetView')[0];
+    if (sheetView) {
+      const attributes = readAttributes(sheetView);
+      if (attributes.showGridLines === '0' || attributes.showGridLines === 'false') layout.showGridlines = BooleanNumber.FALSE;
+      if (attributes.rightToLeft === '1' || attributes.rightToLeft === 'true') layout.rightToLeft = BooleanNumber.TRUE;
+      const zoomScale = Number(attributes.zoomScale);
+      if (zoomScale && zoomScale !== 100) layout.zoomRatio = zoomScale / 100;
+      const freeze = readFreeze(sheetView);
+      if (freeze) layout.freeze = freeze;
+    }
+
+    const sheetPr = extractElements(text, 'sheetPr')[0];
+    if (sheetPr) {
+      const tabColor = readColor(parseXml(sheetPr).sheetPr?.tabColor, theme);
+      if (tabColor?.rgb) layout.tabColor = tabColor.rgb;
+    }
+
+    const sheetProtection = extractElements(text, 'sheetProtection')[0];
+    if (sheetProtection) {
+      const attributes = readAttributes(sheetProtection);
+      if (attributes.sheet === '1' || attributes.sheet === 'true') layout.protection = attributes;
+    }
+
+    if (Object.keys(layout).length > 0) {
+      result.set(sheet.name, layout);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Applies an imported layout to a Univer sheet. Protection is kept for export only: Univer's
+ * local permissions can't check Excel's password, so the sheet would stay locked for good.
+ */
+export function applySheetLayout(sheet: Partial<IWorksheetData>, layout: SheetLayout): void {
+  if (layout.freeze) sheet.freeze = layout.freeze;
+  if (layout.zoomRatio) sheet.zoomRatio = layout.zoomRatio;
+  if (layout.showGridlines !== undefined) sheet.showGridlines = layout.showGridlines;
+  if (layout.rightToLeft !== undefined) sheet.rightToLeft = layout.rightToLeft;
+  if (layout.tabColor) sheet.tabColor = layout.tabColor;
+  if (layout.protection) {
+    sheet.custom = { ...sheet.custom, xlsxProtection: layout.protection };
+  }
+}
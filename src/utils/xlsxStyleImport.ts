@@ -0,0 +1,256 @@
+// Reads cell formatting from an .xlsx package's styles.xml and maps it onto Univer's style model.
+// SheetJS's community build only exposes fills, so fonts, borders and alignment are read here.
+
+import type { IBorderStyleData, IColorStyle, IStyleData } from '@univerjs/core';
+import { BaselineOffset, BooleanNumber, BorderStyleTypes, HorizontalAlign, VerticalAlign, WrapStrategy } from '@univerjs/core';
+import { asArray, readPartText, readPartXml, readRelationships, type XLSXPackage } from './xlsxPackage';
+import { BORDER_STYLES, HORIZONTAL_ALIGNMENTS, VERTICAL_ALIGNMENTS } from './xlsxStyles';
+
+export interface XLSXCellStyles {
+  xfStyles: (IStyleData | null)[]; // Univer style for each entry of cellXfs, null when it adds nothing
+  sheets: Map<string, Map<string, number>>; // Sheet name -> cell address -> cellXfs index
+  dxfStyles: IStyleData[]; // Differential formats used by conditional formatting, by dxfId
+}
+
+// Excel's legacy indexed color palette; 64 and 65 are the system foreground and background
+const INDEXED_COLORS = [
+  '000000', 'FFFFFF', 'FF0000', '00FF00', '0000FF', 'FFFF00', 'FF00FF', '00FFFF',
+  '000000', 'FFFFFF', 'FF0000', '00FF00', '0000FF', 'FFFF00', 'FF00FF', '00FFFF',
+  '800000', '008000', '000080', '808000', '800080', '008080', 'C0C0C0', '808080',
+  '9999FF', '993366', 'FFFFCC', 'CCFFFF', '660066', 'FF8080', '0066CC', 'CCCCFF',
+  '000080', 'FF00FF', 'FFFF00', '00FFFF', '800080', '800000', '008080', '0000FF',
+  '00CCFF', 'CCFFFF', 'CCFFCC', 'FFFF99', '99CCFF', 'FF99CC', 'CC99FF', 'FFCC99',
+  '3366FF', '33CCCC', '99CC00', 'FFCC00', 'FF9900', 'FF6600', '666699', '969696',
+  '003366', '339966', '003300', '333300', '993300', '993366', '333399', '333333',
+  '000000', 'FFFFFF',
+];
+
+// Theme color indexes swap the first two pairs relative to the order in theme1.xml
+const THEME_COLOR_ORDER = ['lt1', 'dk1', 'lt2', 'dk2', 'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6', 'hlink', 'folHlink'];
+
+function reverse<K extends number>(table: Partial<Record<K, string>>): Map<string, K> {
+  const result = new Map<string, K>();
+  for (const [key, value] of Object.entries(table) as [string, string][]) {
+    if (!result.has(value)) result.set(value, Number(key) as K);
+  }
+  return result;
+}
+
+const FROM_HORIZONTAL = reverse<HorizontalAlign>(HORIZONTAL_ALIGNMENTS);
+const FROM_VERTICAL = reverse<VerticalAlign>(VERTICAL_ALIGNMENTS);
+const FROM_BORDER = reverse<BorderStyleTypes>(BORDER_STYLES);
+
+// Excel tints adjust luminance in HSL space
+function applyTint(hex: string, tint: number): string {
+  if (!tint) return hex;
+  const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  let s = 0;
+  let l = (max + min) / 2;
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+    h /= 6;
+  }
+
+  l = tint < 0 ? l * (1 + tint) : l * (1 - tint) + tint;
+
+  const hueToRgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  let channels: number[];
+  if (s === 0) {
+    channels = [l, l, l];
+  } else {
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    channels = [hueToRgb(p, q, h + 1 / 3), hueToRgb(p, q, h), hueToRgb(p, q, h - 1 / 3)];
+  }
+  return channels.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function readColor(node: any, theme: string[]): IColorStyle | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  let hex: string | undefined;
+  if (node['@_rgb']) {
+    hex = String(node['@_rgb']).slice(-6); // ARGB
+  } else if (node['@_theme'] !== undefined) {
+    hex = theme[Number(node['@_theme'])];
+  } else if (node['@_indexed'] !== undefined) {
+    hex = INDEXED_COLORS[Number(node['@_indexed'])];
+  }
+  if (!hex || !/^[0-9A-F]{6}$/i.test(hex)) return undefined;
+  return { rgb: `#${applyTint(hex.toUpperCase(), Number(node['@_tint']) || 0)}` };
+}
+
+// `<b/>` and `<b val="1"/>` are on, `<b val="0"/>` is off
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function isOn(node: any): boolean {
+  if (node === undefined || node === null) return false;
+  if (typeof node !== 'object') return true;
+  const value = node['@_val'];
+  return value !== '0' && value !== 'false' && value !== 'none';
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readFont(font: any, theme: string[]): IStyleData {
+  const style: IStyleData = {};
+  if (!font) return style;
+  if (font.name?.['@_val']) style.ff = String(font.name['@_val']);
+  if (font.sz?.['@_val']) style.fs = Number(font.sz['@_val']);
+  if (isOn(font.b)) style.bl = BooleanNumber.TRUE;
+  if (isOn(font.i)) style.it = BooleanNumber.TRUE;
+  if (isOn(font.u)) style.ul = { s: BooleanNumber.TRUE };
+  if (isOn(font.strike)) style.st = { s: BooleanNumber.TRUE };
+  const vertAlign = font.vertAlign?.['@_val'];
+  if (vertAlign === 'subscript') style.va = BaselineOffset.SUBSCRIPT;
+  if (vertAlign === 'superscript') style.va = BaselineOffset.SUPERSCRIPT;
+  const color = readColor(font.color, theme);
+  if (color) style.cl = color;
+  return style;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readBorderSide(side: any, theme: string[]): IBorderStyleData | undefined {
+  const type = side?.['@_style'] ? FROM_BORDER.get(String(side['@_style'])) : undefined;
+  if (type === undefined) return undefined;
+  return { s: type, cl: readColor(side.color, theme) || { rgb: '#000000' } };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function readAlignment(alignment: any): IStyleData {
+  const style: IStyleData = {};
+  if (!alignment) return style;
+  const horizontal = String(alignment['@_horizontal'] || '');
+  const ht = horizontal === 'centerContinuous' ? HorizontalAlign.CENTER : FROM_HORIZONTAL.get(horizontal);
+  if (ht !== undefined) style.ht = ht;
+  const vt = FROM_VERTICAL.get(String(alignment['@_vertical'] || ''));
+  if (vt !== undefined) style.vt = vt;
+  if (alignment['@_wrapText'] === '1' || alignment['@_wrapText'] === 'true') style.tb = WrapStrategy.WRAP;
+  const rotation = Number(alignment['@_textRotation']) || 0;
+  if (rotation === 255) {
+    style.tr = { a: 0, v: BooleanNumber.TRUE };
+  } else if (rotation > 0) {
+    // 91..180 are the downward angles -1..-90
+    style.tr = { a: rotation > 90 ? 90 - rotation : rotation, v: BooleanNumber.FALSE };
+  }
+  return style;
+}
+
+/**
+ * Reads the workbook theme's color scheme, in the order `theme="n"` color references index it.
+ */
+export async function readWorkbookTheme(pkg: XLSXPackage): Promise<string[]> {
+  const workbookRels = await readRelationships(pkg, 'xl/workbook.xml');
+  const themePath = Array.from(workbookRels.values()).find(rel => rel.type === 'theme')?.target;
+  const xml = themePath ? await readPartXml(pkg, themePath) : null;
+  const scheme = xml?.theme?.themeElements?.clrScheme;
+  if (!scheme) return [];
+  return THEME_COLOR_ORDER.map((name) => {
+    const entry = scheme[name];
+    return String(entry?.srgbClr?.['@_val'] || entry?.sysClr?.['@_lastClr'] || '');
+  });
+}
+
+// Finds the cellXfs index of every styled cell without parsing the whole sheet
+async function readSheetCellStyles(pkg: XLSXPackage, path: string): Promise<Map<string, number>> {
+  const cells = new Map<string, number>();
+  const text = await readPartText(pkg, path);
+  if (!text) return cells;
+
+  const cellTag = /<(?:\w+:)?c\s([^>]*?)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = cellTag.exec(text))) {
+    const attributes = match[1];
+    const styleIndex = attributes.match(/\bs="(\d+)"/);
+    const address = attributes.match(/\br="([A-Z]+\d+)"/);
+    if (styleIndex && address && styleIndex[1] !== '0') {
+      cells.set(address[1], Number(styleIndex[1]));
+    }
+  }
+  return cells;
+}
+
+/**
+ * Reads every cell format (cellXfs) from the package and maps it to a Univer style, along
+ * with which format each styled cell uses. Properties equal to the workbook's default font
+ * are left out so plain cells stay plain.
+ */
+export async function readXLSXCellStyles(pkg: XLSXPackage): Promise<XLSXCellStyles | null> {
+  const workbookRels = await readRelationships(pkg, 'xl/workbook.xml');
+  const rels = Array.from(workbookRels.values());
+  const stylesPath = rels.find(rel => rel.type === 'styles')?.target || 'xl/styles.xml';
+  const xml = await readPartXml(pkg, stylesPath);
+  const styleSheet = xml?.styleSheet;
+  if (!styleSheet) return null;
+
+  const theme = await readWorkbookTheme(pkg);
+
+  const numFmts = new Map<string, string>();
+  for (const numFmt of asArray(styleSheet.numFmts?.numFmt)) {
+    numFmts.set(String(numFmt['@_numFmtId']), String(numFmt['@_formatCode']));
+  }
+
+  const fonts = asArray(styleSheet.fonts?.font).map(font => readFont(font, theme));
+  const defaultFont = fonts[0] || {};
+  const fills = asArray(styleSheet.fills?.fill).map((fill) => {
+    const pattern = fill?.patternFill;
+    return pattern?.['@_patternType'] === 'solid' ? readColor(pattern.fgColor, theme) : undefined;
+  });
+  const borders = asArray(styleSheet.borders?.border).map((border) => {
+    const bd: NonNullable<IStyleData['bd']> = {};
+    const top = readBorderSide(border?.top, theme);
+    const bottom = readBorderSide(border?.bottom, theme);
+    const left = readBorderSide(border?.left, theme);
+    const right = readBorderSide(border?.right, theme);
+    if (top) bd.t = top;
+    if (bottom) bd.b = bottom;
+    if (left) bd.l = left;
+    if (right) bd.r = right;
+    return Object.keys(bd).length > 0 ? bd : undefined;
+  });
+
+  const xfStyles = asArray(styleSheet.cellXfs?.xf).map((xf): IStyleData | null => {
+    const style: IStyleData = { ...fonts[Number(xf['@_fontId']) || 0] };
+    if (style.ff === defaultFont.ff) delete style.ff;
+    if (style.fs === defaultFont.fs) delete style.fs;
+    if (style.cl?.rgb === defaultFont.cl?.rgb) delete style.cl;
+
+    const fill = fills[Number(xf['@_fillId']) || 0];
+    if (fill) style.bg = fill;
+    const bd = borders[Number(xf['@_borderId']) || 0];
+    if (bd) style.bd = bd;
+    Object.assign(style, readAlignment(xf.alignment));
+
+    // Built-in formats reach cells through SheetJS's `z`; only custom ones are listed in styles.xml
+    const pattern = numFmts.get(String(xf['@_numFmtId']));
+    if (pattern) style.n = { pattern };
+
+    return Object.keys(style).length > 0 ? style : null;
+  });
+
+  // Differential formats only list what they change; solid fills keep their color in bgColor
+  const dxfStyles = asArray(styleSheet.dxfs?.dxf).map((dxf): IStyleData => {
+    const style = readFont(dxf?.font, theme);
+    const pattern = dxf?.fill?.patternFill;
+    const fill = readColor(pattern?.bgColor, theme) || readColor(pattern?.fgColor, theme);
+    if (fill) style.bg = fill;
+    return style;
+  });
+
+  const sheets = new Map<string, Map<string, number>>();
+  for (const sheet of pkg.sheets) {
+    sheets.set(sheet.name, await readSheetCellStyles(pkg, sheet.path));
+  }
+
+  return { xfStyles, sheets, dxfStyles };
+}
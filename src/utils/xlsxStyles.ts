@@ -0,0 +1,182 @@
+// Mapping between Univer's cell style model (IStyleData) and XLSX cell styles
+import type { CellStyle, CellStyleColor, BorderType } from 'xlsx-js-style';
+import type { IBorderStyleData, IStyleData, IWorkbookData, Nullable } from '@univerjs/core';
+import {
+  BaselineOffset,
+  BooleanNumber,
+  BorderStyleTypes,
+  HorizontalAlign,
+  VerticalAlign,
+  WrapStrategy,
+} from '@univerjs/core';
+
+type HorizontalAlignment = NonNullable<NonNullable<CellStyle['alignment']>['horizontal']>;
+
+// The writer copies these straight into styles.xml; its typings only list the common values
+export const HORIZONTAL_ALIGNMENTS: Partial<Record<HorizontalAlign, string>> = {
+  [HorizontalAlign.LEFT]: 'left',
+  [HorizontalAlign.CENTER]: 'center',
+  [HorizontalAlign.RIGHT]: 'right',
+  [HorizontalAlign.JUSTIFIED]: 'justify',
+  [HorizontalAlign.BOTH]: 'justify',
+  [HorizontalAlign.DISTRIBUTED]: 'distributed',
+};
+
+export const VERTICAL_ALIGNMENTS: Partial<Record<VerticalAlign, 'top' | 'center' | 'bottom'>> = {
+  [VerticalAlign.TOP]: 'top',
+  [VerticalAlign.MIDDLE]: 'center',
+  [VerticalAlign.BOTTOM]: 'bottom',
+};
+
+export const BORDER_STYLES: Partial<Record<BorderStyleTypes, string>> = {
+  [BorderStyleTypes.THIN]: 'thin',
+  [BorderStyleTypes.HAIR]: 'hair',
+  [BorderStyleTypes.DOTTED]: 'dotted',
+  [BorderStyleTypes.DASHED]: 'dashed',
+  [BorderStyleTypes.DASH_DOT]: 'dashDot',
+  [BorderStyleTypes.DASH_DOT_DOT]: 'dashDotDot',
+  [BorderStyleTypes.DOUBLE]: 'double',
+  [BorderStyleTypes.MEDIUM]: 'medium',
+  [BorderStyleTypes.MEDIUM_DASHED]: 'mediumDashed',
+  [BorderStyleTypes.MEDIUM_DASH_DOT]: 'mediumDashDot',
+  [BorderStyleTypes.MEDIUM_DASH_DOT_DOT]: 'mediumDashDotDot',
+  [BorderStyleTypes.SLANT_DASH_DOT]: 'slantDashDot',
+  [BorderStyleTypes.THICK]: 'thick',
+};
+
+/**
+ * Normalizes a CSS color ("#f00", "#ff0000", "rgb(255, 0, 0)", "rgba(...)") to the
+ * six-digit uppercase hex XLSX expects. Returns null for anything it can't read.
+ */
+export function toXLSXColor(color: Nullable<string>): string | null {
+  if (!color) return null;
+  const value = color.trim();
+
+  const hex = value.match(/^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length === 3) digits = digits.split('').map(d => d + d).join('');
+    // #RRGGBBAA from the color picker: drop the alpha
+    return digits.slice(0, 6).toUpperCase();
+  }
+
+  const rgb = value.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i);
+  if (rgb) {
+    return rgb.slice(1, 4)
+      .map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+
+  return null;
+}
+
+function toColor(color: Nullable<{ rgb?: Nullable<string> }>): CellStyleColor | undefined {
+  const rgb = toXLSXColor(color?.rgb);
+  return rgb ? { rgb } : undefined;
+}
+
+function toBorder(border: Nullable<IBorderStyleData>): { color: CellStyleColor; style?: BorderType } | undefined {
+  if (!border) return undefined;
+  const style = BORDER_STYLES[border.s];
+  if (!style) return undefined;
+  return { style: style as BorderType, color: toColor(border.cl) || { rgb: '000000' } };
+}
+
+// Univer rotates counter-clockwise for positive angles like Excel, which stores -1..-90 as 91..180
+function toTextRotation(angle: number): number {
+  const clamped = Math.max(-90, Math.min(90, Math.round(angle)));
+  return clamped >= 0 ? clamped : 90 - clamped;
+}
+
+/**
+ * Converts a Univer style to an XLSX cell style. Returns null when nothing in it
+ * has an XLSX equivalent, so unstyled cells stay unstyled in the file.
+ */
+export function toXLSXCellStyle(style: Nullable<IStyleData>): CellStyle | null {
+  if (!style) return null;
+  const result: CellStyle = {};
+
+  const font: NonNullable<CellStyle['font']> = {};
+  if (style.ff) font.name = style.ff;
+  if (style.fs) font.sz = style.fs;
+  if (style.bl === BooleanNumber.TRUE) font.bold = true;
+  if (style.it === BooleanNumber.TRUE) font.italic = true;
+  if (style.ul?.s === BooleanNumber.TRUE) font.underline = true;
+  if (style.st?.s === BooleanNumber.TRUE) font.strike = true;
+  if (style.va === BaselineOffset.SUBSCRIPT) font.vertAlign = 'subscript';
+  if (style.va === BaselineOffset.SUPERSCRIPT) font.vertAlign = 'superscript';
+  const fontColor = toColor(style.cl);
+  if (fontColor) font.color = fontColor;
+  if (Object.keys(font).length > 0) result.font = font;
+
+  const fill = toColor(style.bg);
+  if (fill) {
+    result.fill = { patternType: 'solid', fgColor: fill };
+  }
+
+  if (style.bd) {
+    const border: NonNullable<CellStyle['border']> = {};
+    const top = toBorder(style.bd.t);
+    const bottom = toBorder(style.bd.b);
+    const left = toBorder(style.bd.l);
+    const right = toBorder(style.bd.r);
+    if (top) border.top = top;
+    if (bottom) border.bottom = bottom;
+    if (left) border.left = left;
+    if (right) border.right = right;
+    if (Object.keys(border).length > 0) result.border = border;
+  }
+
+  const alignment: NonNullable<CellStyle['alignment']> = {};
+  const horizontal = style.ht !== undefined && style.ht !== null ? HORIZONTAL_ALIGNMENTS[style.ht] : undefined;
+  if (horizontal) alignment.horizontal = horizontal as HorizontalAlignment;
+  const vertical = style.vt !== undefined && style.vt !== null ? VERTICAL_ALIGNMENTS[style.vt] : undefined;
+  if (vertical) alignment.vertical = vertical;
+  if (style.tb === WrapStrategy.WRAP) alignment.wrapText = true;
+  if (style.tr) {
+    if (style.tr.v === BooleanNumber.TRUE) {
+      alignment.textRotation = 255; // Stacked vertically
+    } else if (style.tr.a) {
+      alignment.textRotation = toTextRotation(style.tr.a);
+    }
+  }
+  if (Object.keys(alignment).length > 0) result.alignment = alignment;
+
+  if (style.n?.pattern) {
+    result.numFmt = style.n.pattern;
+  }
+
+  return Object.keys(result).length > 0 ? result : null;
+}
+
+/**
+ * Resolves a cell's `s`, which is either an id into the workbook's style table or an
+ * inline style object, to the style it refers to.
+ */
+export function resolveCellStyle(
+  styles: IWorkbookData['styles'] | undefined,
+  style: Nullable<string | IStyleData>
+): IStyleData | null {
+  if (!style) return null;
+  if (typeof style === 'string') return styles?.[style] || null;
+  return style;
+}
+
+/**
+ * De-duplicating style table for building `workbookData.styles`: identical styles share one id.
+ * Returns a function that registers a style and gives back its id.
+ */
+export function createStyleTable(styles: Record<string, Nullable<IStyleData>>): (style: IStyleData) => string {
+  const ids = new Map<string, string>();
+  return (style: IStyleData) => {
+    const key = JSON.stringify(style);
+    let id = ids.get(key);
+    if (!id) {
+      id = `xlsx_${ids.size + 1}`;
+      ids.set(key, id);
+      styles[id] = style;
+    }
+    return id;
+  };
+}
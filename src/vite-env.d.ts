@@ -2,9 +2,18 @@
 /// <reference types="@univerjs/vite-plugin/types" />
 
 import type { FUniver } from '@univerjs/presets';
+import type { WorkbookVersion, WorkbookVersionReason } from './utils/indexeddb';
 
 declare global {
   interface Window {
     univerAPI: FUniver;
+    // Stores a snapshot of the open workbook if it changed; set by the spreadsheet
+    saveWorkbookData?: () => Promise<void>;
+    // Version history hooks, set by the spreadsheet while a workbook is open
+    saveWorkbookVersion?: (reason: WorkbookVersionReason, label?: string) => Promise<WorkbookVersion | null>;
+    restoreWorkbookVersion?: (versionId: number) => Promise<void>;
+    // Dialog openers for the chat panel's toolbar, set by the spreadsheet
+    openExportDialog?: () => void;
+    openPageSetup?: () => void;
   }
 }